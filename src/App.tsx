@@ -14,6 +14,10 @@ import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import AdminDashboard from './pages/AdminDashboard';
 import CMSPage from './pages/CMSPage';
+import MyBookingsPage from './pages/MyBookingsPage';
+import FindBookingPage from './pages/FindBookingPage';
+import ClaimWaitlistPage from './pages/ClaimWaitlistPage';
+import CheckInPage from './pages/CheckInPage';
 import { Toaster } from 'react-hot-toast';
 
 function App() {
@@ -33,7 +37,11 @@ function App() {
                 <Route path="/confirmation" element={<ConfirmationPage />} />
                 <Route path="/login" element={<LoginPage />} />
                 <Route path="/register" element={<RegisterPage />} />
+                <Route path="/my-bookings" element={<MyBookingsPage />} />
+                <Route path="/find-booking" element={<FindBookingPage />} />
+                <Route path="/waitlist/:token" element={<ClaimWaitlistPage />} />
                 <Route path="/admin" element={<AdminDashboard />} />
+                <Route path="/check-in" element={<CheckInPage />} />
                 <Route path="/cms" element={<CMSPage />} />
               </Routes>
             </main>
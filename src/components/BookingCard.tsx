@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Calendar, Clock, MapPin, Download, Repeat, Users, FileText, QrCode, LogIn, CalendarPlus } from 'lucide-react';
+import {
+  BookingPolicy,
+  CustomerBooking,
+  downloadBookingSummary,
+  getChangeTerms,
+  isUpcomingBooking
+} from '../lib/bookings';
+import { describeRecurrence } from '../lib/recurrence';
+import { describeAddOns } from '../lib/addOns';
+import { downloadBookingCalendar } from '../lib/calendar';
+import RescheduleForm from './RescheduleForm';
+import CheckInQrCode from './CheckInQrCode';
+
+interface BookingCardProps {
+  booking: CustomerBooking;
+  policy: BookingPolicy | null;
+  onCancel: (booking: CustomerBooking) => Promise<void>;
+  onReschedule: (booking: CustomerBooking, date: string, timeSlot: string) => Promise<boolean>;
+  // Series actions are only offered where the caller can manage the series
+  onCancelSeries?: (booking: CustomerBooking) => Promise<void>;
+  onRescheduleSeries?: (booking: CustomerBooking, timeSlot: string) => Promise<boolean>;
+  onDownloadInvoice?: (booking: CustomerBooking) => Promise<void>;
+}
+
+const statusClasses: Record<CustomerBooking['status'], string> = {
+  confirmed: 'bg-green-100 text-green-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  expired: 'bg-gray-100 text-gray-800'
+};
+
+const formatFeeNotice = (fee: number, freeUntil: Date | null, label: string) => {
+  if (fee > 0) return `${label} fee: E£${fee}`;
+  if (freeUntil) return `Free ${label.toLowerCase()} until ${freeUntil.toLocaleString()}`;
+  return `Free ${label.toLowerCase()}`;
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const BookingCard: React.FC<BookingCardProps> = ({
+  booking,
+  policy,
+  onCancel,
+  onReschedule,
+  onCancelSeries,
+  onRescheduleSeries,
+  onDownloadInvoice
+}) => {
+  const [rescheduling, setRescheduling] = useState<'booking' | 'series' | null>(null);
+  const [showQrCode, setShowQrCode] = useState(false);
+  const cancelTerms = policy ? getChangeTerms(booking, policy.cancellation) : null;
+  const rescheduleTerms = policy ? getChangeTerms(booking, policy.reschedule) : null;
+  const isUpcoming = isUpcomingBooking(booking);
+  const canManageSeries = !!booking.series_id && isUpcoming && !!onCancelSeries && !!onRescheduleSeries;
+
+  const handleCancel = async () => {
+    const feeNotice = cancelTerms?.fee ? ` A cancellation fee of E£${cancelTerms.fee} applies.` : '';
+    if (confirm(`Cancel your ${booking.workspace_type} booking on ${new Date(booking.date).toLocaleDateString()}?${feeNotice}`)) {
+      await onCancel(booking);
+    }
+  };
+
+  const handleReschedule = async (date: string, timeSlot: string) => {
+    if (rescheduling === 'series') {
+      if (onRescheduleSeries && await onRescheduleSeries(booking, timeSlot)) {
+        setRescheduling(null);
+      }
+      return;
+    }
+
+    const feeNotice = rescheduleTerms?.fee ? `A reschedule fee of E£${rescheduleTerms.fee} applies. Continue?` : null;
+    if (feeNotice && !confirm(feeNotice)) {
+      return;
+    }
+    if (await onReschedule(booking, date, timeSlot)) {
+      setRescheduling(null);
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    try {
+      await downloadBookingCalendar(booking);
+    } catch (error) {
+      console.error('Error creating calendar file:', error);
+    }
+  };
+
+  const handleCancelSeries = async () => {
+    if (onCancelSeries && confirm('Cancel every upcoming booking in this series? Late cancellation fees apply per booking.')) {
+      await onCancelSeries(booking);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center space-x-2">
+            <h3 className="text-lg font-semibold text-black">{booking.workspace_type}</h3>
+            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusClasses[booking.status]}`}>
+              {booking.status}
+            </span>
+          </div>
+          <p className="text-sm text-gray-600 flex items-center">
+            <Calendar className="w-4 h-4 mr-2" />
+            {new Date(booking.date).toLocaleDateString()}
+          </p>
+          <p className="text-sm text-gray-600 flex items-center">
+            <Clock className="w-4 h-4 mr-2" />
+            {booking.time_slot} · {booking.duration}
+          </p>
+          {booking.unit_name && (
+            <p className="text-sm text-gray-600 flex items-center">
+              <MapPin className="w-4 h-4 mr-2" />
+              {booking.unit_name}
+            </p>
+          )}
+          {booking.series_id && (
+            <p className="text-sm text-gray-600 flex items-center">
+              <Repeat className="w-4 h-4 mr-2" />
+              {booking.booking_series
+                ? describeRecurrence(booking.booking_series.frequency, booking.booking_series.weekdays)
+                : 'Part of a recurring series'}
+            </p>
+          )}
+          {booking.attendee_name && (
+            <p className="text-sm text-gray-600 flex items-center">
+              <Users className="w-4 h-4 mr-2" />
+              Group seat for {booking.attendee_name}
+            </p>
+          )}
+          {(booking.checked_in_at || booking.no_show) && (
+            <p className={`text-sm flex items-center ${booking.no_show ? 'text-red-600' : 'text-green-600'}`}>
+              <LogIn className="w-4 h-4 mr-2" />
+              {booking.checked_in_at
+                ? `Checked in ${formatTime(booking.checked_in_at)}${booking.checked_out_at ? `, out ${formatTime(booking.checked_out_at)}` : ''}`
+                : 'Marked as a no-show'}
+            </p>
+          )}
+        </div>
+        <div className="md:text-right">
+          <p className="text-2xl font-bold text-yellow-600">E£{booking.total_price}</p>
+          {booking.promo_code && (
+            <p className="text-sm text-green-600">{booking.promo_code} (-E£{booking.discount_amount})</p>
+          )}
+          {booking.membership_id && (
+            <p className="text-sm text-green-600">Paid with {booking.credit_hours} hour(s) of membership credit</p>
+          )}
+          {booking.add_ons.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {describeAddOns(booking.add_ons)} (+E£{booking.add_ons_total})
+            </p>
+          )}
+          {booking.reschedule_fees > 0 && (
+            <p className="text-sm text-gray-600">Reschedule fees: E£{booking.reschedule_fees}</p>
+          )}
+          {booking.cancellation_fee > 0 && (
+            <p className="text-sm text-red-600">Cancellation fee: E£{booking.cancellation_fee}</p>
+          )}
+          <div className="flex md:justify-end space-x-3 mt-3">
+            <button
+              onClick={() => downloadBookingSummary(booking)}
+              className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Download
+            </button>
+            {isUpcoming && (
+              <button
+                onClick={handleAddToCalendar}
+                className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+              >
+                <CalendarPlus className="w-4 h-4 mr-1" />
+                Calendar
+              </button>
+            )}
+            {/* Invoices are issued on confirmation */}
+            {booking.status === 'confirmed' && onDownloadInvoice && (
+              <button
+                onClick={() => onDownloadInvoice(booking)}
+                className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+              >
+                <FileText className="w-4 h-4 mr-1" />
+                Invoice
+              </button>
+            )}
+            {booking.check_in_code && booking.status === 'confirmed' && isUpcoming && !booking.checked_out_at && (
+              <button
+                onClick={() => setShowQrCode(!showQrCode)}
+                className="text-sm text-gray-600 hover:text-gray-900 flex items-center"
+              >
+                <QrCode className="w-4 h-4 mr-1" />
+                {showQrCode ? 'Hide QR' : 'Check-in QR'}
+              </button>
+            )}
+            {rescheduleTerms?.allowed && !rescheduling && (
+              <button
+                onClick={() => setRescheduling('booking')}
+                className="text-sm text-blue-600 hover:text-blue-800"
+              >
+                Reschedule
+              </button>
+            )}
+            {cancelTerms?.allowed && (
+              <button
+                onClick={handleCancel}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          {canManageSeries && (
+            <div className="flex md:justify-end space-x-3 mt-2">
+              {!rescheduling && (
+                <button
+                  onClick={() => setRescheduling('series')}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Change series time
+                </button>
+              )}
+              <button
+                onClick={handleCancelSeries}
+                className="text-sm text-red-600 hover:text-red-800"
+              >
+                Cancel series
+              </button>
+            </div>
+          )}
+          {isUpcoming && policy && cancelTerms && rescheduleTerms && (
+            <div className="text-xs text-gray-500 mt-3 space-y-1">
+              <p>
+                {cancelTerms.allowed
+                  ? formatFeeNotice(cancelTerms.fee, cancelTerms.freeUntil, 'Cancellation')
+                  : `Cancellation closes ${policy.cancellation.cutoffHours} hours before the start time.`}
+              </p>
+              <p>
+                {rescheduleTerms.allowed
+                  ? formatFeeNotice(rescheduleTerms.fee, rescheduleTerms.freeUntil, 'Reschedule')
+                  : `Rescheduling closes ${policy.reschedule.cutoffHours} hours before the start time.`}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+      {showQrCode && booking.check_in_code && (
+        <div className="mt-4 text-center">
+          <CheckInQrCode code={booking.check_in_code} />
+        </div>
+      )}
+      {rescheduling && (
+        <RescheduleForm
+          duration={booking.duration}
+          initialDate={booking.date}
+          dateLocked={rescheduling === 'series'}
+          onSubmit={handleReschedule}
+          onCancel={() => setRescheduling(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BookingCard;
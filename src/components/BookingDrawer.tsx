@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { X, Mail, Phone, MessageCircle, Send, Edit } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { AdminBooking, getChangeErrorMessage } from '../lib/bookings';
+import { describeAddOns } from '../lib/addOns';
+import {
+  BookingPayment,
+  Payment,
+  PaymentProof,
+  fetchBookingPayment,
+  paymentStatusLabels
+} from '../lib/payments';
+import RescheduleForm from './RescheduleForm';
+import RecordPaymentForm from './RecordPaymentForm';
+import BookingTimeline from './BookingTimeline';
+
+interface BookingDrawerProps {
+  booking: AdminBooking;
+  // Latest online payment, if any
+  payment?: Payment;
+  proofs: PaymentProof[];
+  workspaceTypes: string[];
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+  onResendCode: (booking: AdminBooking) => Promise<void>;
+}
+
+const formatDateTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+// Everything about one booking for admins, next to the bookings table
+const BookingDrawer: React.FC<BookingDrawerProps> = ({
+  booking,
+  payment,
+  proofs,
+  workspaceTypes,
+  onClose,
+  onChanged,
+  onResendCode
+}) => {
+  const [balance, setBalance] = useState<BookingPayment | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+  const isActive = booking.status === 'pending' || booking.status === 'confirmed';
+
+  useEffect(() => {
+    fetchBookingPayment(booking.id)
+      .then(setBalance)
+      .catch(error => console.error('Error fetching booking balance:', error));
+  }, [booking.id, booking.updated_at]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleEdit = async (date: string, timeSlot: string, workspaceType?: string) => {
+    const { error } = await supabase.rpc('admin_edit_booking', {
+      p_booking_id: booking.id,
+      p_workspace_type: workspaceType || booking.workspace_type,
+      p_date: date,
+      p_time_slot: timeSlot
+    });
+
+    if (error) {
+      console.error('Error editing booking:', error);
+      alert(getChangeErrorMessage(error));
+      return;
+    }
+
+    setIsEditing(false);
+    await onChanged();
+  };
+
+  const handleResendCode = async () => {
+    setIsResending(true);
+    try {
+      await onResendCode(booking);
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  const details: [string, React.ReactNode][] = [
+    ['Workspace', `${booking.workspace_type}${booking.unit_name ? ` · ${booking.unit_name}` : ''}`],
+    ['Date', new Date(booking.date).toLocaleDateString()],
+    ['Time', `${booking.time_slot} · ${booking.duration}`],
+    ['Period', `${booking.starts_at.replace('T', ' ').slice(0, 16)} – ${booking.ends_at.replace('T', ' ').slice(0, 16)}`],
+    ['Status', booking.status],
+    ['Total', `E£${booking.total_price}`],
+    ['Promo', booking.promo_code ? `${booking.promo_code} (-E£${booking.discount_amount})` : '—'],
+    ['Add-ons', booking.add_ons.length > 0 ? `${describeAddOns(booking.add_ons)} (+E£${booking.add_ons_total})` : '—'],
+    ['Membership credit', booking.membership_id ? `${booking.credit_hours} hour(s)` : '—'],
+    ['Reschedules', booking.reschedule_count > 0 ? `${booking.reschedule_count} (fees E£${booking.reschedule_fees})` : '—'],
+    ['Cancelled', booking.cancelled_at ? `${formatDateTime(booking.cancelled_at)} (fee E£${booking.cancellation_fee})` : '—'],
+    ['Series', booking.series_id ? 'Part of a recurring series' : '—'],
+    ['Group seat', booking.attendee_name || '—'],
+    ['Checked in', formatDateTime(booking.checked_in_at)],
+    ['Checked out', formatDateTime(booking.checked_out_at)],
+    ['No-show', booking.no_show ? 'Yes' : 'No'],
+    ['Account', booking.user_id ? 'Signed-in customer' : 'Guest'],
+    ['Booked', formatDateTime(booking.created_at)],
+    ['Last changed', formatDateTime(booking.updated_at)]
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black bg-opacity-40" onClick={onClose} />
+      <div className="relative w-full max-w-xl h-full bg-white shadow-xl overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">{booking.customer_name}</h2>
+            <p className="text-sm text-gray-500">{booking.workspace_type} · {new Date(booking.date).toLocaleDateString()}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-6">
+          <section>
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Contact</h3>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <a href={`mailto:${booking.customer_email}`} className="flex items-center text-blue-600 hover:text-blue-800">
+                <Mail className="w-4 h-4 mr-1" />
+                {booking.customer_email}
+              </a>
+              <a href={`tel:${booking.customer_phone}`} className="flex items-center text-blue-600 hover:text-blue-800">
+                <Phone className="w-4 h-4 mr-1" />
+                {booking.customer_phone}
+              </a>
+              <a
+                href={`https://wa.me/${booking.customer_whatsapp.replace(/\D/g, '')}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center text-green-600 hover:text-green-800"
+              >
+                <MessageCircle className="w-4 h-4 mr-1" />
+                {booking.customer_whatsapp}
+              </a>
+            </div>
+          </section>
+
+          <section>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider">Booking</h3>
+              {isActive && (
+                <div className="flex space-x-3 text-sm">
+                  <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className="flex items-center text-blue-600 hover:text-blue-800"
+                  >
+                    <Edit className="w-4 h-4 mr-1" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={handleResendCode}
+                    disabled={isResending}
+                    className="flex items-center text-green-600 hover:text-green-800 disabled:opacity-50"
+                  >
+                    <Send className="w-4 h-4 mr-1" />
+                    {isResending ? 'Sending...' : 'Send new code'}
+                  </button>
+                </div>
+              )}
+            </div>
+            {isEditing && (
+              <RescheduleForm
+                duration={booking.duration}
+                initialDate={booking.date}
+                initialTimeSlot={booking.time_slot}
+                workspaceTypes={workspaceTypes}
+                initialWorkspaceType={booking.workspace_type}
+                onSubmit={handleEdit}
+                onCancel={() => setIsEditing(false)}
+              />
+            )}
+            <dl className="grid grid-cols-3 gap-x-4 gap-y-2 text-sm mt-2">
+              {details.map(([label, value]) => (
+                <React.Fragment key={label}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="col-span-2 text-gray-900">{value}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">Payment</h3>
+            <div className="text-sm space-y-1 mb-3">
+              <p>
+                {paymentStatusLabels[booking.payment_status]}
+                {payment && ` · online via ${payment.provider} (${payment.status})`}
+              </p>
+              {balance && (
+                <p className="text-gray-600">
+                  Due E£{balance.amount_due} · Paid E£{balance.amount_paid} · Balance E£{balance.balance}
+                </p>
+              )}
+            </div>
+            {isActive && (
+              <RecordPaymentForm bookingId={booking.id} proofs={proofs} onRecorded={onChanged} />
+            )}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wider mb-2">History and internal notes</h3>
+            {/* Reloads after every change to the booking */}
+            <BookingTimeline key={booking.updated_at} bookingId={booking.id} />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BookingDrawer;
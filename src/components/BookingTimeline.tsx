@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import {
+  BookingEvent,
+  addBookingNote,
+  bookingEventLabels,
+  describeActor,
+  describeChanges,
+  fetchBookingEvents
+} from '../lib/bookingEvents';
+
+interface BookingTimelineProps {
+  bookingId: string;
+}
+
+const dotClasses: Record<BookingEvent['event_type'], string> = {
+  created: 'bg-blue-500',
+  status_changed: 'bg-yellow-500',
+  price_changed: 'bg-green-500',
+  updated: 'bg-gray-400',
+  note: 'bg-purple-500'
+};
+
+// Admin view of everything that happened to a booking, oldest first
+const BookingTimeline: React.FC<BookingTimelineProps> = ({ bookingId }) => {
+  const [events, setEvents] = useState<BookingEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchBookingEvents(bookingId)
+      .then(setEvents)
+      .catch(error => console.error('Error fetching booking history:', error))
+      .finally(() => setLoading(false));
+  }, [bookingId]);
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await addBookingNote(bookingId, note);
+      setNote('');
+      setEvents(await fetchBookingEvents(bookingId));
+    } catch (error) {
+      console.error('Error adding note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add the note. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500">No history recorded for this booking yet.</p>
+      ) : (
+        <ol className="border-l border-gray-200 ml-2 space-y-4">
+          {events.map(event => (
+            <li key={event.id} className="ml-4 relative">
+              <span className={`absolute -left-[1.3rem] top-1.5 w-2.5 h-2.5 rounded-full ${dotClasses[event.event_type]}`} />
+              <p className="text-sm">
+                <span className="font-medium text-gray-900">{bookingEventLabels[event.event_type]}</span>
+                <span className="text-gray-500"> · {describeActor(event)} · {new Date(event.created_at).toLocaleString()}</span>
+              </p>
+              {event.note && <p className="text-sm text-gray-800 whitespace-pre-line">{event.note}</p>}
+              {describeChanges(event).map(line => (
+                <p key={line} className="text-xs text-gray-600 break-all">{line}</p>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleAddNote} className="flex gap-2">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add a note"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !note.trim()}
+          className="bg-gray-900 text-white px-4 py-2 rounded-md text-sm hover:bg-gray-800 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Add Note'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BookingTimeline;
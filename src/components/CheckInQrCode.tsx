@@ -0,0 +1,29 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { getCheckInUrl } from '../lib/checkIn';
+
+interface CheckInQrCodeProps {
+  code: string;
+  size?: number;
+}
+
+const CheckInQrCode: React.FC<CheckInQrCodeProps> = ({ code, size = 160 }) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    QRCode.toDataURL(getCheckInUrl(code), { width: size, margin: 1 })
+      .then(setDataUrl)
+      .catch(error => console.error('Error generating check-in QR code:', error));
+  }, [code, size]);
+
+  if (!dataUrl) return null;
+
+  return (
+    <div className="inline-flex flex-col items-center">
+      <img src={dataUrl} width={size} height={size} alt="Check-in QR code" />
+      <p className="text-xs text-gray-500 mt-1">Show this at the front desk to check in and out</p>
+    </div>
+  );
+};
+
+export default CheckInQrCode;
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Timer } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+
+interface BookingHold {
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired';
+  hold_expires_at: string | null;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(Math.floor(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const fetchHold = async (bookingId: string) => {
+  const { data, error } = await supabase.rpc('get_booking_hold', { p_booking_id: bookingId });
+  if (error) throw error;
+  return data as BookingHold | null;
+};
+
+// How long a pending booking keeps its slot, from get_booking_hold()
+const HoldCountdown: React.FC<{ bookingId: string }> = ({ bookingId }) => {
+  const [hold, setHold] = useState<BookingHold | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    fetchHold(bookingId)
+      .then(setHold)
+      .catch(error => console.error('Error fetching booking hold:', error));
+  }, [bookingId]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = hold?.hold_expires_at ? new Date(hold.hold_expires_at).getTime() - now : null;
+  const isLapsed = remaining !== null && remaining <= 0;
+
+  // Issuing a confirmation code extends the hold, so check again before
+  // telling the customer it has run out
+  useEffect(() => {
+    if (isLapsed) {
+      fetchHold(bookingId)
+        .then(setHold)
+        .catch(error => console.error('Error fetching booking hold:', error));
+    }
+  }, [isLapsed, bookingId]);
+
+  if (hold?.status === 'expired' || (hold?.status === 'pending' && isLapsed)) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-8">
+        <p className="text-red-800 font-medium">Your hold on this slot has expired</p>
+        <p className="text-red-600 text-sm mt-1">
+          The slot has been released. Please <Link to="/booking" className="underline">book again</Link> or
+          contact us if you have already paid.
+        </p>
+      </div>
+    );
+  }
+
+  if (hold?.status !== 'pending' || remaining === null) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8 flex items-center">
+      <Timer className="w-6 h-6 text-yellow-600 mr-3 flex-shrink-0" />
+      <div>
+        <p className="text-yellow-800 font-medium">
+          Your slot is held for <span className="font-mono">{formatRemaining(remaining)}</span>
+        </p>
+        <p className="text-yellow-700 text-sm">
+          Complete the payment before the timer runs out, or the slot is released to other customers.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HoldCountdown;
@@ -50,6 +50,9 @@ const Navbar: React.FC = () => {
               <div className="flex items-center space-x-2">
                 <User className="w-5 h-5 text-black" />
                 <span className="text-sm text-black">{user.name}</span>
+                <Link to="/my-bookings" className="text-black hover:text-yellow-500 text-sm">
+                  {getContent('nav_my_bookings', 'My Bookings')}
+                </Link>
                 {user.role === 'admin' && (
                   <Link to="/admin" className="text-yellow-500 hover:text-yellow-600 text-sm">
                     Admin
@@ -69,6 +72,9 @@ const Navbar: React.FC = () => {
               </div>
             ) : (
               <div className="flex space-x-2">
+                <Link to="/find-booking" className="text-black hover:text-yellow-500 px-3 py-2 text-sm">
+                  {getContent('nav_find_booking', 'Find Booking')}
+                </Link>
                 <Link to="/login" className="text-black hover:text-yellow-500 px-3 py-2 text-sm">
                   {getContent('nav_login', 'Login')}
                 </Link>
@@ -117,6 +123,9 @@ const Navbar: React.FC = () => {
                   <User className="w-5 h-5 text-black mr-2" />
                   <span className="text-black">{user.name}</span>
                 </div>
+                <Link to="/my-bookings" className="text-black hover:text-yellow-500 block px-3 py-2">
+                  {getContent('nav_my_bookings', 'My Bookings')}
+                </Link>
                 {user.role === 'admin' && (
                   <Link to="/admin" className="text-yellow-500 block px-3 py-2">
                     Admin Dashboard
@@ -136,6 +145,9 @@ const Navbar: React.FC = () => {
               </div>
             ) : (
               <div className="border-t pt-2">
+                <Link to="/find-booking" className="text-black hover:text-yellow-500 block px-3 py-2">
+                  {getContent('nav_find_booking', 'Find Booking')}
+                </Link>
                 <Link to="/login" className="text-black hover:text-yellow-500 block px-3 py-2">
                   {getContent('nav_login', 'Login')}
                 </Link>
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { PaymentMethod, paymentMethodLabels, submitPaymentProof } from '../lib/payments';
+
+interface PaymentProofFormProps {
+  bookingId: string;
+  defaultAmount?: number;
+}
+
+const TRANSFER_METHODS: PaymentMethod[] = ['vodafone_cash', 'instapay', 'bank_transfer', 'other'];
+
+// Lets customers tell us about a transfer so an admin can match it
+const PaymentProofForm: React.FC<PaymentProofFormProps> = ({ bookingId, defaultAmount }) => {
+  const [method, setMethod] = useState<PaymentMethod>('vodafone_cash');
+  const [reference, setReference] = useState('');
+  const [amount, setAmount] = useState(defaultAmount ? String(defaultAmount) : '');
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!reference.trim() && !file) {
+      setError('Add the transfer reference or a screenshot of the transfer.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await submitPaymentProof(bookingId, {
+        method,
+        reference,
+        amount: amount ? parseFloat(amount) : null,
+        file
+      });
+      setSubmitted(true);
+    } catch (err) {
+      console.error('Error submitting payment proof:', err);
+      setError(err instanceof Error ? err.message : 'Failed to send your transfer details. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+        <p className="text-green-800 text-sm">
+          Thanks! We will check your transfer and send your confirmation code.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-3">
+      <p className="font-medium text-gray-800">Already transferred? Send us the details</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        >
+          {TRANSFER_METHODS.map(m => (
+            <option key={m} value={m}>{paymentMethodLabels[m]}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount sent (E£)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+      </div>
+      <input
+        type="text"
+        value={reference}
+        onChange={(e) => setReference(e.target.value)}
+        placeholder="Transfer reference or sender number"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+      />
+      <label className="flex items-center text-sm text-gray-600 cursor-pointer">
+        <Upload className="w-4 h-4 mr-2" />
+        <span className="mr-2">Screenshot (optional):</span>
+        <input
+          type="file"
+          accept="image/png,image/jpeg,image/webp,application/pdf"
+          onChange={(e) => setFile(e.target.files?.[0] || null)}
+          className="text-sm"
+        />
+      </label>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="bg-yellow-500 text-black px-4 py-2 rounded-md font-medium hover:bg-yellow-600 transition-colors disabled:opacity-50"
+      >
+        {isSubmitting ? 'Sending...' : 'Send Transfer Details'}
+      </button>
+    </form>
+  );
+};
+
+export default PaymentProofForm;
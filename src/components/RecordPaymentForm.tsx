@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { Eye, XCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  BookingPayment,
+  PaymentMethod,
+  PaymentProof,
+  fetchBookingPayment,
+  getProofFileUrl,
+  paymentMethodLabels,
+  recordManualPayment
+} from '../lib/payments';
+
+interface RecordPaymentFormProps {
+  bookingId: string;
+  proofs: PaymentProof[];
+  onRecorded: () => Promise<void>;
+}
+
+// Admin form for payments received outside the gateway, such as wallet
+// transfers, next to the transfer details the customer sent in
+const RecordPaymentForm: React.FC<RecordPaymentFormProps> = ({ bookingId, proofs, onRecorded }) => {
+  const [balance, setBalance] = useState<BookingPayment | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('vodafone_cash');
+  const [reference, setReference] = useState('');
+  const [proofId, setProofId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchBookingPayment(bookingId)
+      .then(payment => {
+        setBalance(payment);
+        if (payment && payment.balance > 0) setAmount(String(payment.balance));
+      })
+      .catch(error => console.error('Error fetching booking balance:', error));
+  }, [bookingId]);
+
+  const handleUseProof = (proof: PaymentProof) => {
+    setProofId(proof.id);
+    setMethod(proof.method);
+    setReference(proof.reference || '');
+    if (proof.amount) setAmount(String(proof.amount));
+  };
+
+  const handleViewProof = async (proof: PaymentProof) => {
+    try {
+      window.open(await getProofFileUrl(proof.file_path!), '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error opening payment proof:', error);
+      alert('Failed to open the screenshot. Please try again.');
+    }
+  };
+
+  const handleRejectProof = async (proof: PaymentProof) => {
+    if (!confirm('Reject these transfer details? The customer will need to send them again.')) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('payment_proofs')
+      .update({ status: 'rejected' })
+      .eq('id', proof.id);
+
+    if (error) {
+      console.error('Error rejecting payment proof:', error);
+      alert('Failed to reject the transfer details. Please try again.');
+      return;
+    }
+    await onRecorded();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await recordManualPayment(bookingId, {
+        amount: parseFloat(amount),
+        method,
+        reference,
+        proofId
+      });
+      alert(result.balance > 0
+        ? `Payment recorded. E£${result.balance} is still due.`
+        : 'Payment recorded. The booking is fully paid.');
+      await onRecorded();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record payment. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      {balance && (
+        <p className="text-sm text-gray-700">
+          Due E£{balance.amount_due} · Paid E£{balance.amount_paid} ·{' '}
+          <span className={balance.balance > 0 ? 'text-red-600 font-medium' : 'text-green-600 font-medium'}>
+            Balance E£{balance.balance}
+          </span>
+        </p>
+      )}
+
+      {proofs.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-gray-700">Transfer details from the customer</p>
+          {proofs.map(proof => (
+            <div
+              key={proof.id}
+              className={`flex items-center justify-between text-sm bg-white rounded p-2 ${proofId === proof.id ? 'ring-2 ring-yellow-500' : ''}`}
+            >
+              <span>
+                {paymentMethodLabels[proof.method]}
+                {proof.amount && ` · E£${proof.amount}`}
+                {proof.reference && ` · ${proof.reference}`}
+                <span className="text-gray-500"> · {new Date(proof.created_at).toLocaleString()}</span>
+              </span>
+              <span className="flex items-center space-x-2">
+                {proof.file_path && (
+                  <button type="button" onClick={() => handleViewProof(proof)} className="text-blue-600 hover:text-blue-900" title="View screenshot">
+                    <Eye className="w-4 h-4" />
+                  </button>
+                )}
+                <button type="button" onClick={() => handleUseProof(proof)} className="text-green-600 hover:text-green-900">
+                  Use
+                </button>
+                <button type="button" onClick={() => handleRejectProof(proof)} className="text-red-600 hover:text-red-900" title="Reject">
+                  <XCircle className="w-4 h-4" />
+                </button>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Amount received"
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <select
+          value={method}
+          onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        >
+          {Object.entries(paymentMethodLabels).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          placeholder="Reference"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Record Payment'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RecordPaymentForm;
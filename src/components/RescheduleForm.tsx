@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { getDurationHours } from '../lib/bookingPeriod';
+import { ClosureDate, OpeningHours, generateTimeSlots, getClosureReason, getWeekday } from '../lib/openingHours';
+
+interface RescheduleFormProps {
+  duration: string;
+  initialDate: string;
+  initialTimeSlot?: string;
+  // Only the start time can change, e.g. when moving a whole series
+  dateLocked?: boolean;
+  // Admins can also move the booking to another workspace type
+  workspaceTypes?: string[];
+  initialWorkspaceType?: string;
+  onSubmit: (date: string, timeSlot: string, workspaceType?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const RescheduleForm: React.FC<RescheduleFormProps> = ({
+  duration,
+  initialDate,
+  initialTimeSlot,
+  dateLocked,
+  workspaceTypes,
+  initialWorkspaceType,
+  onSubmit,
+  onCancel
+}) => {
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<ClosureDate[]>([]);
+  const [date, setDate] = useState(initialDate);
+  const [timeSlot, setTimeSlot] = useState(initialTimeSlot || '');
+  const [workspaceType, setWorkspaceType] = useState(initialWorkspaceType || '');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  useEffect(() => {
+    fetchSchedule();
+  }, []);
+
+  const fetchSchedule = async () => {
+    try {
+      const [hoursResult, closuresResult] = await Promise.all([
+        supabase
+          .from('opening_hours')
+          .select('*')
+          .order('weekday', { ascending: true }),
+        supabase
+          .from('closure_dates')
+          .select('*')
+          .gte('date', new Date().toISOString().split('T')[0])
+          .order('date', { ascending: true })
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (closuresResult.error) throw closuresResult.error;
+
+      setOpeningHours(hoursResult.data || []);
+      setClosures(closuresResult.data || []);
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+    }
+  };
+
+  const closureReason = date ? getClosureReason(date, openingHours, closures) : null;
+  const timeSlots = date && !closureReason
+    ? generateTimeSlots(
+        openingHours.find(h => h.weekday === getWeekday(date)),
+        getDurationHours(duration) || 1
+      )
+    : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      await onSubmit(date, timeSlot, workspaceTypes ? workspaceType : undefined);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 mt-4 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {workspaceTypes && (
+          <select
+            value={workspaceType}
+            onChange={(e) => setWorkspaceType(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 md:col-span-2"
+          >
+            {workspaceTypes.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="date"
+          value={date}
+          min={today}
+          onChange={(e) => {
+            setDate(e.target.value);
+            setTimeSlot('');
+          }}
+          required
+          disabled={dateLocked}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100"
+        />
+        <select
+          value={timeSlot}
+          onChange={(e) => setTimeSlot(e.target.value)}
+          required
+          disabled={!!closureReason}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100"
+        >
+          <option value="">{closureReason || 'Select new time'}</option>
+          {timeSlots.map(slot => (
+            <option key={slot} value={slot}>{slot}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex space-x-2">
+        <button
+          type="submit"
+          disabled={isSubmitting || !timeSlot}
+          className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Saving...' : workspaceTypes ? 'Save Changes' : 'Confirm New Time'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default RescheduleForm;
@@ -0,0 +1,430 @@
+import React, { useEffect, useState } from 'react';
+import { Search, UserCheck } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { CustomerMatch, NewAdminBooking, findCustomers, getChangeErrorMessage } from '../lib/bookings';
+import { BookingPeriod, getBookingPeriod, getDayBounds, getDurationHours, getPeakOverlap } from '../lib/bookingPeriod';
+import { ClosureDate, OpeningHours, generateTimeSlots, getClosureReason, getWeekday } from '../lib/openingHours';
+import { BookingQuote, getBookingQuote } from '../lib/pricing';
+import { PaymentMethod, paymentMethodLabels } from '../lib/payments';
+
+interface WalkInBookingFormProps {
+  onCreated: (booking: NewAdminBooking, sendCode: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface WorkspaceCapacity {
+  name: string;
+  capacity: number;
+}
+
+const durations = [
+  { value: '1-hour', label: '1 Hour' },
+  { value: '2-hours', label: '2 Hours' },
+  { value: '4-hours', label: '4 Hours' },
+  { value: '1-day', label: '1 Day' },
+  { value: '1-week', label: '1 Week' },
+  { value: '1-month', label: '1 Month' }
+];
+
+const emptyCustomer = {
+  customerName: '',
+  customerEmail: '',
+  customerPhone: '',
+  customerWhatsapp: ''
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100';
+
+// Front desk form for bookings taken in person or by phone. They are
+// confirmed straight away, without the WhatsApp code.
+const WalkInBookingForm: React.FC<WalkInBookingFormProps> = ({ onCreated, onCancel }) => {
+  const today = new Date().toISOString().split('T')[0];
+  const [workspaces, setWorkspaces] = useState<WorkspaceCapacity[]>([]);
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<ClosureDate[]>([]);
+  const [bookedPeriods, setBookedPeriods] = useState<BookingPeriod[]>([]);
+  const [search, setSearch] = useState('');
+  const [matches, setMatches] = useState<CustomerMatch[] | null>(null);
+  const [customer, setCustomer] = useState(emptyCustomer);
+  const [booking, setBooking] = useState({
+    workspaceType: '',
+    date: today,
+    timeSlot: '',
+    duration: '1-hour',
+    promoCode: ''
+  });
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
+  const [markPaid, setMarkPaid] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [paymentReference, setPaymentReference] = useState('');
+  const [sendCode, setSendCode] = useState(true);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      try {
+        const [workspacesResult, hoursResult, closuresResult] = await Promise.all([
+          supabase.from('workspace_types').select('name, capacity').order('name', { ascending: true }),
+          supabase.from('opening_hours').select('*').order('weekday', { ascending: true }),
+          supabase.from('closure_dates').select('*').gte('date', today).order('date', { ascending: true })
+        ]);
+
+        if (workspacesResult.error) throw workspacesResult.error;
+        if (hoursResult.error) throw hoursResult.error;
+        if (closuresResult.error) throw closuresResult.error;
+
+        setWorkspaces(workspacesResult.data || []);
+        setOpeningHours(hoursResult.data || []);
+        setClosures(closuresResult.data || []);
+      } catch (error) {
+        console.error('Error fetching opening hours:', error);
+      }
+    };
+
+    fetchSchedule();
+  }, [today]);
+
+  // Same availability the public booking page shows for the selected day
+  useEffect(() => {
+    if (!booking.workspaceType || !booking.date) {
+      setBookedPeriods([]);
+      return;
+    }
+
+    const day = getDayBounds(booking.date);
+    supabase
+      .rpc('get_booked_periods', {
+        p_workspace_type: booking.workspaceType,
+        p_from: day.start,
+        p_to: day.end
+      })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching booked slots:', error);
+          setBookedPeriods([]);
+          return;
+        }
+        setBookedPeriods(
+          (data as { starts_at: string; ends_at: string }[] | null)
+            ?.map(period => ({ start: period.starts_at, end: period.ends_at })) || []
+        );
+      });
+  }, [booking.workspaceType, booking.date]);
+
+  useEffect(() => {
+    if (!booking.workspaceType) {
+      setQuote(null);
+      return;
+    }
+
+    getBookingQuote(
+      booking.workspaceType,
+      booking.duration,
+      booking.date,
+      booking.timeSlot,
+      booking.promoCode,
+      customer.customerEmail
+    )
+      .then(setQuote)
+      .catch(error => {
+        console.error('Error fetching price quote:', error);
+        setQuote(null);
+      });
+  }, [booking.workspaceType, booking.duration, booking.date, booking.timeSlot, booking.promoCode, customer.customerEmail]);
+
+  const closureReason = booking.date ? getClosureReason(booking.date, openingHours, closures) : null;
+  const timeSlots = booking.date && !closureReason
+    ? generateTimeSlots(
+        openingHours.find(h => h.weekday === getWeekday(booking.date)),
+        getDurationHours(booking.duration) || 1
+      )
+    : [];
+  const capacity = workspaces.find(w => w.name === booking.workspaceType)?.capacity || 1;
+
+  const getUnitsLeft = (slot: string) => {
+    const period = getBookingPeriod(booking.date, slot, booking.duration);
+    if (!period) return 0;
+    return Math.max(capacity - getPeakOverlap(period, bookedPeriods), 0);
+  };
+
+  const handleSearch = async () => {
+    if (!search.trim()) return;
+
+    setIsSearching(true);
+    try {
+      setMatches(await findCustomers(search));
+    } catch (error) {
+      console.error('Error searching customers:', error);
+      alert('Failed to search customers. Please try again.');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handlePickCustomer = (match: CustomerMatch) => {
+    setCustomer({
+      customerName: match.customer_name,
+      customerEmail: match.customer_email,
+      customerPhone: match.customer_phone,
+      customerWhatsapp: match.customer_whatsapp
+    });
+    setMatches(null);
+    setSearch('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (quote?.promo_error) {
+      alert(quote.promo_error);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc('create_admin_booking', {
+        p_workspace_type: booking.workspaceType,
+        p_date: booking.date,
+        p_time_slot: booking.timeSlot,
+        p_duration: booking.duration,
+        p_customer_name: customer.customerName,
+        p_customer_email: customer.customerEmail,
+        p_customer_phone: customer.customerPhone,
+        p_customer_whatsapp: customer.customerWhatsapp,
+        p_promo_code: booking.promoCode || null,
+        p_payment_method: markPaid ? paymentMethod : null,
+        p_payment_reference: markPaid ? paymentReference : null
+      });
+
+      if (error) {
+        console.error('Error creating booking:', error);
+        alert(getChangeErrorMessage(error));
+        return;
+      }
+
+      await onCreated(data as NewAdminBooking, sendCode);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 mb-6 space-y-4">
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Customer</p>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleSearch();
+              }
+            }}
+            placeholder="Find a returning customer by name, email or phone"
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={handleSearch}
+            disabled={isSearching || !search.trim()}
+            className="bg-gray-900 text-white px-4 py-2 rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50 flex items-center"
+          >
+            <Search className="w-4 h-4 mr-2" />
+            {isSearching ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+        {matches && (
+          <div className="mt-2 space-y-1">
+            {matches.length === 0 ? (
+              <p className="text-sm text-gray-500">Nobody found. Fill in the new customer's details below.</p>
+            ) : (
+              matches.map(match => (
+                <button
+                  key={match.customer_email}
+                  type="button"
+                  onClick={() => handlePickCustomer(match)}
+                  className="w-full text-left text-sm bg-white rounded p-2 hover:bg-yellow-50 flex justify-between items-center"
+                >
+                  <span>
+                    <span className="font-medium text-gray-900">{match.customer_name}</span>
+                    <span className="text-gray-500"> · {match.customer_email} · {match.customer_phone}</span>
+                  </span>
+                  <span className="text-gray-500 flex items-center">
+                    {match.has_account && <UserCheck className="w-4 h-4 mr-1 text-green-600" />}
+                    {match.booking_count} booking(s)
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            placeholder="Full name"
+            value={customer.customerName}
+            onChange={(e) => setCustomer({ ...customer, customerName: e.target.value })}
+            required
+            className={inputClassName}
+          />
+          <input
+            type="email"
+            placeholder="Email"
+            value={customer.customerEmail}
+            onChange={(e) => setCustomer({ ...customer, customerEmail: e.target.value })}
+            required
+            className={inputClassName}
+          />
+          <input
+            type="tel"
+            placeholder="Phone"
+            value={customer.customerPhone}
+            onChange={(e) => setCustomer({ ...customer, customerPhone: e.target.value })}
+            required
+            className={inputClassName}
+          />
+          <input
+            type="tel"
+            placeholder="WhatsApp"
+            value={customer.customerWhatsapp}
+            onChange={(e) => setCustomer({ ...customer, customerWhatsapp: e.target.value })}
+            required
+            className={inputClassName}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <select
+            value={booking.workspaceType}
+            onChange={(e) => setBooking({ ...booking, workspaceType: e.target.value, timeSlot: '' })}
+            required
+            className={inputClassName}
+          >
+            <option value="">Select workspace type</option>
+            {workspaces.map(workspace => (
+              <option key={workspace.name} value={workspace.name}>{workspace.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={booking.date}
+            min={today}
+            onChange={(e) => setBooking({ ...booking, date: e.target.value, timeSlot: '' })}
+            required
+            className={inputClassName}
+          />
+          <select
+            value={booking.duration}
+            onChange={(e) => setBooking({ ...booking, duration: e.target.value, timeSlot: '' })}
+            required
+            className={inputClassName}
+          >
+            {durations.map(duration => (
+              <option key={duration.value} value={duration.value}>{duration.label}</option>
+            ))}
+          </select>
+          <select
+            value={booking.timeSlot}
+            onChange={(e) => setBooking({ ...booking, timeSlot: e.target.value })}
+            required
+            disabled={!!closureReason || !booking.workspaceType}
+            className={inputClassName}
+          >
+            <option value="">{closureReason || 'Select time'}</option>
+            {timeSlots.map(slot => {
+              const unitsLeft = getUnitsLeft(slot);
+              return (
+                <option key={slot} value={slot} disabled={unitsLeft === 0}>
+                  {slot} ({unitsLeft === 0 ? 'full' : `${unitsLeft} of ${capacity} left`})
+                </option>
+              );
+            })}
+          </select>
+          <input
+            type="text"
+            placeholder="Promo code (optional)"
+            value={booking.promoCode}
+            onChange={(e) => setBooking({ ...booking, promoCode: e.target.value.toUpperCase() })}
+            className={inputClassName}
+          />
+        </div>
+
+        {quote && (
+          <p className="text-sm text-gray-700">
+            Total E£{quote.total_price}
+            {quote.discount_amount > 0 && ` (E£${quote.discount_amount} off)`}
+            {quote.promo_error && <span className="text-red-600"> · {quote.promo_error}</span>}
+          </p>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center gap-3 text-sm">
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={markPaid}
+              onChange={(e) => setMarkPaid(e.target.checked)}
+              className="mr-2"
+            />
+            Paid in full
+          </label>
+          {markPaid && (
+            <>
+              <select
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              >
+                {(Object.keys(paymentMethodLabels) as PaymentMethod[]).map(method => (
+                  <option key={method} value={method}>{paymentMethodLabels[method]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="Reference (optional)"
+                value={paymentReference}
+                onChange={(e) => setPaymentReference(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              />
+            </>
+          )}
+          <label className="flex items-center md:ml-auto">
+            <input
+              type="checkbox"
+              checked={sendCode}
+              onChange={(e) => setSendCode(e.target.checked)}
+              className="mr-2"
+            />
+            Send the code and check-in QR on WhatsApp
+          </label>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            type="submit"
+            disabled={isSubmitting || !booking.timeSlot}
+            className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Booking...' : 'Create Confirmed Booking'}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default WalkInBookingForm;
@@ -1,8 +1,8 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { useAuth } from './AuthContext';
+import { BookingAddOn } from '../lib/addOns';
 
-interface BookingData {
+export interface BookingData {
   workspaceType: string;
   date: string;
   timeSlot: string;
@@ -11,7 +11,18 @@ interface BookingData {
   customerEmail: string;
   customerPhone: string;
   customerWhatsapp: string;
+  promoCode?: string;
+  discountAmount?: number;
+  addOns?: BookingAddOn[];
   totalPrice: number;
+  // Set for recurring bookings; prices above are totals for the series
+  recurrence?: string;
+  occurrences?: number;
+  // Set for group bookings, one entry per seat
+  attendees?: string[];
+  // Set when membership credit pays for the booking
+  membershipPlan?: string;
+  creditHours?: number;
 }
 
 interface BookingContextType {
@@ -19,8 +30,33 @@ interface BookingContextType {
   setBookingData: (data: BookingData) => void;
   clearBookingData: () => void;
   confirmBooking: (confirmationCode: string) => Promise<void>;
+  sendWebhook: (bookingId: string, action: string) => Promise<void>;
 }
 
+interface VerifyOtpResult {
+  status: 'confirmed' | 'invalid' | 'expired' | 'locked' | 'already_used' | 'not_issued' | 'not_pending';
+  attempts_remaining?: number;
+}
+
+const getVerifyErrorMessage = (result: VerifyOtpResult) => {
+  switch (result.status) {
+    case 'invalid':
+      return `Invalid confirmation code. ${result.attempts_remaining} attempt(s) remaining.`;
+    case 'expired':
+      return 'This confirmation code has expired. Please contact us for a new one.';
+    case 'locked':
+      return 'Too many incorrect attempts. Please contact us for a new confirmation code.';
+    case 'already_used':
+      return 'This confirmation code has already been used.';
+    case 'not_issued':
+      return 'No confirmation code has been issued for this booking yet. Please wait for it to arrive after payment.';
+    case 'not_pending':
+      return 'This booking can no longer be confirmed.';
+    default:
+      return 'Failed to confirm booking. Please try again.';
+  }
+};
+
 const BookingContext = createContext<BookingContextType | undefined>(undefined);
 
 export const useBooking = () => {
@@ -33,179 +69,66 @@ export const useBooking = () => {
 
 export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [bookingData, setBookingData] = useState<BookingData | null>(null);
-  const { user } = useAuth();
 
   const clearBookingData = () => {
     setBookingData(null);
   };
 
-  const confirmBooking = async (confirmationCode: string) => {
-    if (!bookingData) throw new Error('No booking data available');
-    
-    try {
-      // Save booking to Supabase
-      const { data, error } = await supabase
-        .from('bookings')
-        .insert({
-          workspace_type: bookingData.workspaceType,
-          date: bookingData.date,
-          time_slot: bookingData.timeSlot,
-          duration: bookingData.duration,
-          customer_name: bookingData.customerName,
-          customer_email: bookingData.customerEmail,
-          customer_phone: bookingData.customerPhone,
-          customer_whatsapp: bookingData.customerWhatsapp,
-          total_price: bookingData.totalPrice,
-          confirmation_code: confirmationCode,
-          user_id: user?.id || null,
-          status: 'pending'
-        })
-        .select()
-        .single();
+  const finalizeBooking = async (confirmationCode: string) => {
+    // Get booking ID from session storage
+    const bookingId = sessionStorage.getItem('currentBookingId');
+    if (!bookingId) throw new Error('No booking ID found');
 
-      if (error) throw error;
+    // The code is checked and the booking confirmed in one server-side call
+    const { data, error } = await supabase.rpc('verify_booking_otp', {
+      p_booking_id: bookingId,
+      p_code: confirmationCode.trim()
+    });
 
-      // Mock WhatsApp confirmation for demo
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // The booking is now saved and will appear in admin dashboard
-      console.log('Booking saved:', data);
-      
-    } catch (error) {
+    if (error) {
       console.error('Booking confirmation failed:', error);
       throw new Error('Failed to confirm booking. Please try again.');
     }
-  };
-
-  const generateConfirmationCode = () => {
-    return Math.floor(100000 + Math.random() * 900000).toString();
-  };
 
-  const sendWhatsAppCode = async (phoneNumber: string) => {
-    // Mock WhatsApp sending - in production, integrate with WhatsApp Business API
-    const code = generateConfirmationCode();
-    console.log(`Sending WhatsApp code ${code} to ${phoneNumber}`);
-    
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    return code;
-  };
-
-  const submitBookingForConfirmation = async () => {
-    if (!bookingData) throw new Error('No booking data available');
-    
-    try {
-      // In a real implementation, you would send the WhatsApp code here
-      const confirmationCode = await sendWhatsAppCode(bookingData.customerWhatsapp);
-      
-      // Store the expected confirmation code temporarily
-      // In production, you might want to store this securely
-      sessionStorage.setItem('expectedConfirmationCode', confirmationCode);
-      
-      return confirmationCode;
-    } catch (error) {
-      console.error('Failed to send WhatsApp code:', error);
-      throw new Error('Failed to send confirmation code. Please try again.');
+    const result = data as VerifyOtpResult;
+    if (result.status !== 'confirmed') {
+      throw new Error(getVerifyErrorMessage(result));
     }
-  };
-
-  const verifyConfirmationCode = (enteredCode: string): boolean => {
-    const expectedCode = sessionStorage.getItem('expectedConfirmationCode');
-    return enteredCode === expectedCode;
-  };
 
-  const finalizeBooking = async (confirmationCode: string) => {
-    if (!bookingData) throw new Error('No booking data available');
-    
-    // Get booking ID from session storage
-    const bookingId = sessionStorage.getItem('currentBookingId');
-    if (!bookingId) throw new Error('No booking ID found');
-    
+    // Send webhook notification
     try {
-      // First, fetch the current booking state from database
-      const { data: currentBooking, error: fetchError } = await supabase
-        .from('bookings')
-        .select('*')
-        .eq('id', bookingId)
-        .maybeSingle();
-
-      if (fetchError) throw fetchError;
-      if (!currentBooking) throw new Error('Booking not found');
-
-      // Check if booking is already in a final state
-      if (currentBooking.status !== 'pending') {
-        throw new Error(`Booking is already ${currentBooking.status} and cannot be modified`);
-      }
-
-      // If booking already has a confirmation code, verify it matches
-      if (currentBooking.confirmation_code) {
-        if (currentBooking.confirmation_code !== confirmationCode) {
-          throw new Error('Invalid confirmation code');
-        }
-      } else {
-        // If no confirmation code exists, verify against session storage (for demo)
-        if (!verifyConfirmationCode(confirmationCode)) {
-          throw new Error('Invalid confirmation code');
-        }
-      }
-    
-      // Update booking status to confirmed
-      const { data, error } = await supabase
-        .from('bookings')
-        .update({
-          status: 'confirmed',
-          confirmation_code: confirmationCode,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', bookingId)
-        .select()
-        .single();
-
-      if (error) throw error;
-
-      // Send webhook notification
-      try {
-        await fetch('https://webhook.com/example', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+      await fetch('https://webhook.com/example', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'booking_confirmed_by_customer',
+          bookingId: bookingId,
+          confirmationCode: confirmationCode,
+          customerData: bookingData && {
+            name: bookingData.customerName,
+            whatsapp: bookingData.customerWhatsapp,
+            email: bookingData.customerEmail
           },
-          body: JSON.stringify({
-            action: 'booking_confirmed_by_customer',
-            bookingId: bookingId,
-            confirmationCode: confirmationCode,
-            customerData: {
-              name: currentBooking.customer_name,
-              whatsapp: currentBooking.customer_whatsapp,
-              email: currentBooking.customer_email
-            },
-            bookingDetails: {
-              workspace_type: currentBooking.workspace_type,
-              date: currentBooking.date,
-              time_slot: currentBooking.time_slot,
-              duration: currentBooking.duration,
-              total_price: currentBooking.total_price
-            },
-            timestamp: new Date().toISOString()
-          })
-        });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-        // Don't fail the confirmation if webhook fails
-      }
-
-      // Clean up the stored confirmation code
-      sessionStorage.removeItem('expectedConfirmationCode');
-      sessionStorage.removeItem('currentBookingId');
-      
-      console.log('Booking saved successfully:', data);
-      return data;
-      
-    } catch (error) {
-      console.error('Booking save failed:', error);
-      throw new Error('Failed to save booking. Please try again.');
+          bookingDetails: bookingData && {
+            workspace_type: bookingData.workspaceType,
+            date: bookingData.date,
+            time_slot: bookingData.timeSlot,
+            duration: bookingData.duration,
+            add_ons: bookingData.addOns || [],
+            attendees: bookingData.attendees || [],
+            total_price: bookingData.totalPrice
+          },
+          timestamp: new Date().toISOString()
+        })
+      });
+    } catch (webhookError) {
+      console.error('Webhook failed:', webhookError);
+      // Don't fail the confirmation if webhook fails
     }
+
+    sessionStorage.removeItem('currentBookingId');
   };
 
   const sendWebhook = async (bookingId: string, action: string) => {
@@ -233,7 +156,6 @@ export const BookingProvider: React.FC<{ children: ReactNode }> = ({ children })
       setBookingData, 
       clearBookingData, 
       confirmBooking: finalizeBooking,
-      submitBookingForConfirmation,
       sendWebhook
     }}>
       {children}
@@ -61,6 +61,11 @@ interface PricingPlan {
   features: string[];
   not_included: string[];
   is_popular: boolean;
+  // Booking credits granted by memberships on this plan
+  credit_unit: 'hour' | 'day' | 'unlimited' | null;
+  credit_amount: number | null;
+  workspace_types: string[];
+  term_days: number;
   display_order: number;
   is_active: boolean;
   created_at: string;
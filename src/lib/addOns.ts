@@ -0,0 +1,46 @@
+// Extras customers can add to a booking, priced by get_booking_quote()
+import { supabase } from './supabase';
+
+export interface AddOn {
+  id: string;
+  name: string;
+  description: string | null;
+  price: number;
+  unit: string;
+  max_quantity: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+// What clients send in bookings.add_ons
+export interface AddOnSelection {
+  id: string;
+  quantity: number;
+}
+
+// What the pricing trigger stores in bookings.add_ons
+export interface BookingAddOn extends AddOnSelection {
+  name: string;
+  unit: string;
+  unit_price: number;
+  amount: number;
+}
+
+export const fetchAddOns = async (): Promise<AddOn[]> => {
+  const { data, error } = await supabase
+    .from('add_ons')
+    .select('*')
+    .eq('is_active', true)
+    .order('display_order', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const formatAddOnPrice = (addOn: Pick<AddOn, 'price' | 'unit'>) => `E£${addOn.price}/${addOn.unit}`;
+
+// "Meeting Room x2", or just the name for a single unit
+export const formatAddOnLine = (line: Pick<BookingAddOn, 'name' | 'quantity'>) =>
+  line.quantity > 1 ? `${line.name} x${line.quantity}` : line.name;
+
+export const describeAddOns = (lines: BookingAddOn[] = []) => lines.map(formatAddOnLine).join(', ');
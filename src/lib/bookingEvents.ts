@@ -0,0 +1,92 @@
+// Audit trail of a booking, recorded by the database on every change
+import { supabase } from './supabase';
+
+export type BookingEventType = 'created' | 'status_changed' | 'price_changed' | 'updated' | 'note';
+
+export interface FieldChange {
+  before?: unknown;
+  after: unknown;
+}
+
+export interface BookingEvent {
+  id: string;
+  booking_id: string;
+  event_type: BookingEventType;
+  changes: Record<string, FieldChange>;
+  note: string | null;
+  actor_id: string | null;
+  actor_email: string | null;
+  actor_role: 'admin' | 'customer' | 'guest' | 'system';
+  created_at: string;
+}
+
+export const bookingEventLabels: Record<BookingEventType, string> = {
+  created: 'Booked',
+  status_changed: 'Status changed',
+  price_changed: 'Price changed',
+  updated: 'Edited',
+  note: 'Note'
+};
+
+const fieldLabels: Record<string, string> = {
+  status: 'Status',
+  payment_status: 'Payment',
+  workspace_type: 'Workspace',
+  unit_name: 'Unit',
+  date: 'Date',
+  time_slot: 'Time',
+  duration: 'Duration',
+  starts_at: 'Starts',
+  ends_at: 'Ends',
+  total_price: 'Total',
+  discount_amount: 'Discount',
+  promo_code: 'Promo code',
+  add_ons: 'Add-ons',
+  add_ons_total: 'Add-ons total',
+  cancellation_fee: 'Cancellation fee',
+  reschedule_fees: 'Reschedule fees',
+  reschedule_count: 'Reschedules',
+  checked_in_at: 'Checked in',
+  checked_out_at: 'Checked out',
+  no_show: 'No-show',
+  customer_name: 'Name',
+  customer_email: 'Email',
+  customer_phone: 'Phone',
+  customer_whatsapp: 'WhatsApp'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// "Status: pending → confirmed", one line per changed field
+export const describeChanges = (event: BookingEvent) =>
+  Object.entries(event.changes).map(([field, change]) => {
+    const label = fieldLabels[field] || field.replace(/_/g, ' ');
+    return event.event_type === 'created'
+      ? `${label}: ${formatValue(change.after)}`
+      : `${label}: ${formatValue(change.before)} → ${formatValue(change.after)}`;
+  });
+
+export const describeActor = (event: BookingEvent) => {
+  if (event.actor_role === 'system') return 'System';
+  if (event.actor_role === 'guest') return 'Guest';
+  return event.actor_email || (event.actor_role === 'admin' ? 'Admin' : 'Customer');
+};
+
+export const fetchBookingEvents = async (bookingId: string): Promise<BookingEvent[]> => {
+  const { data, error } = await supabase
+    .from('booking_events')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+export const addBookingNote = async (bookingId: string, note: string) => {
+  const { error } = await supabase.rpc('add_booking_note', { p_booking_id: bookingId, p_note: note });
+  if (error) throw error;
+};
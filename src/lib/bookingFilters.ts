@@ -0,0 +1,145 @@
+import { supabase } from './supabase';
+import { AdminBooking } from './bookings';
+import { PaymentStatus } from './payments';
+
+export const BOOKINGS_PAGE_SIZE = 25;
+
+export type BookingSortColumn = 'created_at' | 'customer_name' | 'workspace_type' | 'date' | 'total_price' | 'status';
+
+// 'outstanding' matches isUnpaidConfirmed(): confirmed bookings that still owe money
+export type PaymentFilter = PaymentStatus | 'outstanding' | '';
+
+// The admin bookings list, as kept in the dashboard's URL
+export interface BookingFilters {
+  status: AdminBooking['status'] | '';
+  from: string;
+  to: string;
+  workspace: string;
+  customer: string;
+  payment: PaymentFilter;
+  search: string;
+  sort: BookingSortColumn;
+  ascending: boolean;
+  page: number;
+}
+
+export const defaultBookingFilters: BookingFilters = {
+  status: '',
+  from: '',
+  to: '',
+  workspace: '',
+  customer: '',
+  payment: '',
+  search: '',
+  sort: 'created_at',
+  ascending: false,
+  page: 1
+};
+
+const SORT_COLUMNS: BookingSortColumn[] = ['created_at', 'customer_name', 'workspace_type', 'date', 'total_price', 'status'];
+
+const OUTSTANDING_STATUSES: PaymentStatus[] = ['unpaid', 'authorized', 'partially_paid'];
+
+export const parseBookingFilters = (params: URLSearchParams): BookingFilters => {
+  const sort = params.get('sort') as BookingSortColumn | null;
+  const page = parseInt(params.get('page') || '', 10);
+
+  return {
+    status: (params.get('status') || '') as BookingFilters['status'],
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    workspace: params.get('workspace') || '',
+    customer: params.get('customer') || '',
+    payment: (params.get('payment') || '') as PaymentFilter,
+    search: params.get('q') || '',
+    sort: sort && SORT_COLUMNS.includes(sort) ? sort : defaultBookingFilters.sort,
+    ascending: params.get('order') === 'asc',
+    page: page > 0 ? page : 1
+  };
+};
+
+// Only what differs from the defaults, so a plain /admin stays plain
+export const toBookingSearchParams = (filters: BookingFilters) => {
+  const params = new URLSearchParams();
+  if (filters.status) params.set('status', filters.status);
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.workspace) params.set('workspace', filters.workspace);
+  if (filters.customer) params.set('customer', filters.customer);
+  if (filters.payment) params.set('payment', filters.payment);
+  if (filters.search) params.set('q', filters.search);
+  if (filters.sort !== defaultBookingFilters.sort) params.set('sort', filters.sort);
+  if (filters.ascending) params.set('order', 'asc');
+  if (filters.page > 1) params.set('page', String(filters.page));
+  return params;
+};
+
+export const hasBookingFilters = (filters: BookingFilters) =>
+  !!(filters.status || filters.from || filters.to || filters.workspace || filters.customer || filters.payment || filters.search);
+
+// Same format as the codes issue_booking_otp() sends
+const CONFIRMATION_CODE = /^\d{6}$/;
+
+// Codes are only stored hashed, so the database matches them exactly
+const findBookingsByCode = async (code: string) => {
+  const { data, error } = await supabase.rpc('find_bookings_by_code', { p_code: code });
+  if (error) throw error;
+  return (data || []) as string[];
+};
+
+// One page of bookings, filtered and sorted by the database. Falls back to
+// the first page when the requested one no longer exists.
+export const fetchAdminBookings = async (
+  filters: BookingFilters
+): Promise<{ bookings: AdminBooking[]; count: number; page: number }> => {
+  let query = supabase.from('bookings').select('*', { count: 'exact' });
+
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.from) query = query.gte('date', filters.from);
+  if (filters.to) query = query.lte('date', filters.to);
+  if (filters.workspace) query = query.eq('workspace_type', filters.workspace);
+  if (filters.customer) query = query.ilike('customer_email', filters.customer);
+
+  if (filters.payment === 'outstanding') {
+    query = query.eq('status', 'confirmed').gt('total_price', 0).in('payment_status', OUTSTANDING_STATUSES);
+  } else if (filters.payment) {
+    query = query.eq('payment_status', filters.payment);
+  }
+
+  // Commas, brackets and wildcards would break out of the or() filter
+  const search = filters.search.replace(/[,()*%\\]/g, ' ').trim();
+  if (search) {
+    const codeMatches = CONFIRMATION_CODE.test(search) ? await findBookingsByCode(search) : [];
+    query = query.or(
+      ['customer_name', 'customer_email', 'customer_phone', 'customer_whatsapp']
+        .map(column => `${column}.ilike.*${search}*`)
+        .concat(codeMatches.length > 0 ? [`id.in.(${codeMatches.join(',')})`] : [])
+        .join(',')
+    );
+  }
+
+  const start = (filters.page - 1) * BOOKINGS_PAGE_SIZE;
+  const { data, error, count } = await query
+    .order(filters.sort, { ascending: filters.ascending })
+    .order('id', { ascending: true })
+    .range(start, start + BOOKINGS_PAGE_SIZE - 1);
+
+  // PostgREST rejects ranges past the last row
+  if (error?.code === 'PGRST103' && filters.page > 1) {
+    return fetchAdminBookings({ ...filters, page: 1 });
+  }
+  if (error) throw error;
+  return { bookings: (data || []) as AdminBooking[], count: count || 0, page: filters.page };
+};
+
+export const countOutstandingBookings = async () => {
+  const { count, error } = await supabase
+    .from('bookings')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'confirmed')
+    .gt('total_price', 0)
+    .in('payment_status', OUTSTANDING_STATUSES);
+
+  if (error) throw error;
+  return count || 0;
+};
@@ -0,0 +1,85 @@
+// Mirrors set_booking_period() in the database so the slot picker counts
+// availability the same way the booking capacity trigger does.
+// Timestamps are local wall-clock strings like "2025-07-21T10:00:00".
+
+export interface BookingPeriod {
+  start: string;
+  end: string;
+}
+
+const HOUR_DURATIONS: Record<string, number> = {
+  '1-hour': 1,
+  '2-hours': 2,
+  '4-hours': 4
+};
+
+const DAY_DURATIONS: Record<string, number> = {
+  '1-day': 1,
+  '1-week': 7
+};
+
+// Length of hour-based durations, null for day/week/month bookings
+export const getDurationHours = (duration: string): number | null =>
+  HOUR_DURATIONS[duration] || null;
+
+const formatTimestamp = (date: Date) => date.toISOString().slice(0, 19);
+
+// Parses "9:00 AM" style slots into minutes after midnight
+export const parseTimeSlot = (timeSlot: string): number | null => {
+  const match = timeSlot.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10) % 12;
+  if (match[3].toUpperCase() === 'PM') hours += 12;
+
+  return hours * 60 + parseInt(match[2], 10);
+};
+
+export const getBookingPeriod = (date: string, timeSlot: string, duration: string): BookingPeriod | null => {
+  const minutes = parseTimeSlot(timeSlot);
+  if (!date || minutes === null) return null;
+
+  // Dates are handled in UTC purely as a calendar; no time zone conversion happens
+  const day = new Date(`${date}T00:00:00Z`);
+  const start = new Date(day.getTime() + minutes * 60 * 1000);
+  const end = new Date(day);
+
+  if (HOUR_DURATIONS[duration]) {
+    end.setTime(start.getTime() + HOUR_DURATIONS[duration] * 60 * 60 * 1000);
+  } else if (DAY_DURATIONS[duration]) {
+    end.setUTCDate(end.getUTCDate() + DAY_DURATIONS[duration]);
+  } else if (duration === '1-month') {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  } else {
+    return null;
+  }
+
+  return { start: formatTimestamp(start), end: formatTimestamp(end) };
+};
+
+export const getDayBounds = (date: string): BookingPeriod => {
+  const day = new Date(`${date}T00:00:00Z`);
+  const nextDay = new Date(day);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+
+  return { start: formatTimestamp(day), end: formatTimestamp(nextDay) };
+};
+
+export const periodsOverlap = (a: BookingPeriod, b: BookingPeriod) =>
+  a.start < b.end && b.start < a.end;
+
+// Highest number of booked periods running at the same time within `period`.
+// The peak is always reached at the period start or at an overlapping start.
+export const getPeakOverlap = (period: BookingPeriod, booked: BookingPeriod[]) => {
+  const overlapping = booked.filter(b => periodsOverlap(period, b));
+  const points = [period.start, ...overlapping.map(b => b.start).filter(start => start > period.start)];
+
+  return points.reduce((peak, point) => {
+    const count = overlapping.filter(b => b.start <= point && b.end > point).length;
+    return Math.max(peak, count);
+  }, 0);
+};
+
+// Current wall-clock time in the browser, formatted like starts_at/ends_at
+export const getLocalTimestamp = (date = new Date()) =>
+  formatTimestamp(new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000));
@@ -0,0 +1,224 @@
+import { supabase } from './supabase';
+import { getLocalTimestamp } from './bookingPeriod';
+import { BookingSeries } from './recurrence';
+import { BookingAddOn, describeAddOns } from './addOns';
+import type { PaymentStatus } from './payments';
+
+// A booking as customers see it, from their own rows or get_guest_booking()
+export interface CustomerBooking {
+  id: string;
+  workspace_type: string;
+  date: string;
+  time_slot: string;
+  duration: string;
+  unit_name: string | null;
+  starts_at: string;
+  ends_at: string;
+  total_price: number;
+  discount_amount: number;
+  promo_code: string | null;
+  add_ons: BookingAddOn[];
+  add_ons_total: number;
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired';
+  customer_name: string;
+  cancelled_at: string | null;
+  cancellation_fee: number;
+  reschedule_count: number;
+  reschedule_fees: number;
+  series_id: string | null;
+  group_id: string | null;
+  attendee_name: string | null;
+  checked_in_at: string | null;
+  checked_out_at: string | null;
+  no_show: boolean;
+  // Guests only get it once the booking is confirmed
+  check_in_code: string | null;
+  membership_id: string | null;
+  credit_hours: number;
+  // Embedded for signed-in customers; guests only get the id
+  booking_series?: BookingSeries | null;
+  created_at: string;
+}
+
+// Admins load whole rows, including the customer's contact details
+export interface AdminBooking extends CustomerBooking {
+  customer_email: string;
+  customer_phone: string;
+  customer_whatsapp: string;
+  payment_status: PaymentStatus;
+  check_in_code: string;
+  user_id: string | null;
+  updated_at: string;
+}
+
+// create_admin_booking() returns the new code once; the row only keeps its hash
+export interface NewAdminBooking extends AdminBooking {
+  confirmation_code: string;
+}
+
+export type BookingChange = 'cancellation' | 'reschedule';
+
+export interface ChangePolicy {
+  cutoffHours: number;
+  freeHours: number;
+  feePercent: number;
+}
+
+export type BookingPolicy = Record<BookingChange, ChangePolicy>;
+
+// Defaults match check_booking_changeable() when a setting is missing
+const DEFAULT_POLICY: BookingPolicy = {
+  cancellation: { cutoffHours: 2, freeHours: 24, feePercent: 0 },
+  reschedule: { cutoffHours: 2, freeHours: 24, feePercent: 0 }
+};
+
+// Reads the cancellation/reschedule settings the database enforces
+export const fetchBookingPolicy = async (): Promise<BookingPolicy> => {
+  const keys = (['cancellation', 'reschedule'] as BookingChange[]).flatMap(change => [
+    `${change}_cutoff_hours`,
+    `${change}_free_hours`,
+    `${change}_fee_percent`
+  ]);
+
+  const { data, error } = await supabase
+    .from('site_settings')
+    .select('key, value')
+    .in('key', keys);
+
+  if (error) throw error;
+
+  const values: Record<string, number> = {};
+  data?.forEach(setting => {
+    if (/^\d+(\.\d+)?$/.test(setting.value)) {
+      values[setting.key] = parseFloat(setting.value);
+    }
+  });
+
+  const read = (change: BookingChange): ChangePolicy => ({
+    cutoffHours: values[`${change}_cutoff_hours`] ?? DEFAULT_POLICY[change].cutoffHours,
+    freeHours: values[`${change}_free_hours`] ?? DEFAULT_POLICY[change].freeHours,
+    feePercent: values[`${change}_fee_percent`] ?? DEFAULT_POLICY[change].feePercent
+  });
+
+  return { cancellation: read('cancellation'), reschedule: read('reschedule') };
+};
+
+export const isActiveBooking = (booking: CustomerBooking) =>
+  booking.status === 'pending' || booking.status === 'confirmed';
+
+export const isUpcomingBooking = (booking: CustomerBooking) =>
+  isActiveBooking(booking) && booking.ends_at > getLocalTimestamp();
+
+const hoursUntilStart = (booking: CustomerBooking) =>
+  (new Date(booking.starts_at).getTime() - Date.now()) / (60 * 60 * 1000);
+
+export interface ChangeTerms {
+  allowed: boolean;
+  fee: number;
+  // When the change stops being free; null for unpaid (pending) bookings
+  freeUntil: Date | null;
+}
+
+// Mirrors check_booking_changeable() so customers see the fee up front
+export const getChangeTerms = (booking: CustomerBooking, policy: ChangePolicy): ChangeTerms => {
+  const hoursLeft = hoursUntilStart(booking);
+  const start = new Date(booking.starts_at).getTime();
+  const allowed = isActiveBooking(booking) && hoursLeft >= policy.cutoffHours;
+  const isFree = booking.status === 'pending' || hoursLeft >= policy.freeHours;
+
+  return {
+    allowed,
+    fee: allowed && !isFree ? Math.round(booking.total_price * policy.feePercent) / 100 : 0,
+    freeUntil: booking.status === 'pending' ? null : new Date(start - policy.freeHours * 60 * 60 * 1000)
+  };
+};
+
+// Someone who booked before, as returned by find_customers()
+export interface CustomerMatch {
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  customer_whatsapp: string;
+  has_account: boolean;
+  booking_count: number;
+  last_booked_on: string;
+}
+
+export const findCustomers = async (search: string): Promise<CustomerMatch[]> => {
+  const { data, error } = await supabase.rpc('find_customers', { p_search: search });
+  if (error) throw error;
+  return data || [];
+};
+
+// Error text for a failed cancel/reschedule call
+export const getChangeErrorMessage = (error: { code?: string; message?: string }) =>
+  error.code === '23P01'
+    ? 'Sorry, this workspace is fully booked for the selected time. Please choose another time slot.'
+    : error.message || 'Failed to update booking. Please try again.';
+
+// Plain-text summary customers can keep for their records
+export const downloadBookingSummary = (booking: CustomerBooking) => {
+  const lines = [
+    'Desk4U Booking',
+    '',
+    `Name: ${booking.customer_name}`,
+    booking.attendee_name ? `Attendee: ${booking.attendee_name}` : null,
+    `Workspace: ${booking.workspace_type}${booking.unit_name ? ` (${booking.unit_name})` : ''}`,
+    `Date: ${new Date(booking.date).toLocaleDateString()}`,
+    `Time: ${booking.time_slot}`,
+    `Duration: ${booking.duration}`,
+    `Status: ${booking.status}`,
+    booking.promo_code ? `Promo ${booking.promo_code}: -E£${booking.discount_amount}` : null,
+    booking.membership_id ? `Membership credit: ${booking.credit_hours} hour(s)` : null,
+    booking.add_ons.length > 0 ? `Add-ons: ${describeAddOns(booking.add_ons)} (E£${booking.add_ons_total})` : null,
+    `Total: E£${booking.total_price}`,
+    booking.reschedule_fees > 0 ? `Reschedule fees: E£${booking.reschedule_fees}` : null,
+    booking.cancellation_fee > 0 ? `Cancellation fee: E£${booking.cancellation_fee}` : null
+  ].filter(line => line !== null);
+
+  const blob = new Blob([lines.join('\n')], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `desk4u-booking-${booking.id}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toCsvCell = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  // Spreadsheets run cells starting with these as formulas
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Spreadsheet export of the bookings selected in the admin table
+export const downloadBookingsCsv = (bookings: AdminBooking[]) => {
+  const rows = [
+    ['Customer', 'Email', 'Phone', 'WhatsApp', 'Workspace', 'Unit', 'Date', 'Time', 'Duration',
+      'Status', 'Payment', 'Total (E£)', 'Booked at'],
+    ...bookings.map(booking => [
+      booking.customer_name,
+      booking.customer_email,
+      booking.customer_phone,
+      booking.customer_whatsapp,
+      booking.workspace_type,
+      booking.unit_name,
+      booking.date,
+      booking.time_slot,
+      booking.duration,
+      booking.status,
+      booking.payment_status,
+      booking.total_price,
+      booking.created_at
+    ])
+  ];
+
+  const blob = new Blob([rows.map(row => row.map(toCsvCell).join(',')).join('\n')], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `desk4u-bookings-${new Date().toISOString().split('T')[0]}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,66 @@
+// Calendar exports: single-booking .ics files built here, and links to the
+// feeds served by the `calendar-feed` edge function
+import { supabase } from './supabase';
+import { CustomerBooking } from './bookings';
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// "2025-07-21T10:00:00" -> "20250721T100000"
+const formatLocal = (timestamp: string) => timestamp.replace(/[-:]/g, '').slice(0, 15);
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const fetchSiteTimezone = async () => {
+  const { data } = await supabase
+    .from('site_settings')
+    .select('value')
+    .eq('key', 'site_timezone')
+    .maybeSingle();
+  return data?.value || 'UTC';
+};
+
+// Same event as in the feeds, so importing it and subscribing don't duplicate
+export const downloadBookingCalendar = async (booking: CustomerBooking) => {
+  const timeZone = await fetchSiteTimezone();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Desk4U//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@desk4u`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART;TZID=${timeZone}:${formatLocal(booking.starts_at)}`,
+    `DTEND;TZID=${timeZone}:${formatLocal(booking.ends_at)}`,
+    `SUMMARY:${escapeText(`Desk4U: ${booking.workspace_type}`)}`,
+    `DESCRIPTION:${escapeText(`Duration: ${booking.duration}`)}`,
+    ...(booking.unit_name ? [`LOCATION:${escapeText(booking.unit_name)}`] : []),
+    `STATUS:${booking.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  const blob = new Blob([lines.join('\r\n') + '\r\n'], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `desk4u-booking-${booking.id}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// The signed-in customer's feed, or a workspace type's feed for admins.
+// Resetting stops the old link from working.
+export const getCalendarFeedUrl = async (workspaceType: string | null = null, reset = false) => {
+  const { data: token, error } = await supabase.rpc('get_calendar_feed', {
+    p_workspace_type: workspaceType,
+    p_reset: reset
+  });
+  if (error) throw error;
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+};
+
+// Opens the subscribe dialog of the calendar app instead of downloading once
+export const toWebcalUrl = (feedUrl: string) => feedUrl.replace(/^https?:\/\//, 'webcal://');
@@ -0,0 +1,47 @@
+// QR check-in: each confirmed booking carries a check_in_code that staff
+// scan at the door
+import { supabase } from './supabase';
+import { CustomerBooking } from './bookings';
+
+export type CheckInAction = 'checked_in' | 'checked_out' | 'already_checked_out';
+
+export interface CheckInResult {
+  action: CheckInAction;
+  booking: CustomerBooking;
+}
+
+// Per workspace type, from get_attendance_summary()
+export interface AttendanceSummary {
+  workspace_type: string;
+  bookings: number;
+  checked_in: number;
+  no_shows: number;
+  booked_hours: number;
+  used_hours: number;
+}
+
+// The QR code holds a link to the staff screen, so a phone camera works too
+export const getCheckInUrl = (code: string) =>
+  `${window.location.origin}/check-in?code=${encodeURIComponent(code)}`;
+
+// Accepts a scanned link or a code typed in by hand
+export const parseCheckInCode = (value: string) => {
+  const trimmed = value.trim();
+  try {
+    return new URL(trimmed).searchParams.get('code') || trimmed;
+  } catch {
+    return trimmed;
+  }
+};
+
+export const scanCheckIn = async (code: string): Promise<CheckInResult> => {
+  const { data, error } = await supabase.rpc('scan_check_in', { p_code: parseCheckInCode(code) });
+  if (error) throw error;
+  return data as CheckInResult;
+};
+
+export const fetchAttendanceSummary = async (from: string, to: string): Promise<AttendanceSummary[]> => {
+  const { data, error } = await supabase.rpc('get_attendance_summary', { p_from: from, p_to: to });
+  if (error) throw error;
+  return (data || []) as AttendanceSummary[];
+};
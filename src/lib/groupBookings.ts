@@ -0,0 +1,31 @@
+// Group bookings: one seat per attendee, created together by create_group_booking()
+
+export interface GroupSeatRequest {
+  workspace_type: string;
+  attendee_name: string;
+}
+
+// One seat as returned by create_group_booking(): either booked or with the
+// reason it could not be
+export interface GroupSeat extends GroupSeatRequest {
+  unit_name?: string | null;
+  total_price?: number;
+  discount_amount?: number;
+  error?: string;
+}
+
+export interface GroupResult {
+  status: 'available' | 'unavailable' | 'created';
+  group_id: string | null;
+  booking_id: string | null;
+  seats: GroupSeat[];
+}
+
+// Limits enforced by create_group_booking()
+export const MIN_GROUP_SEATS = 2;
+export const MAX_GROUP_SEATS = 20;
+
+export const getFailedSeats = (seats: GroupSeat[] = []) => seats.filter(seat => seat.error);
+
+export const getGroupTotal = (seats: GroupSeat[] = []) =>
+  seats.reduce((sum, seat) => sum + (seat.total_price || 0), 0);
@@ -0,0 +1,124 @@
+// Invoices issued by the database when a booking is confirmed
+import { supabase } from './supabase';
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id: string;
+  number: number;
+  invoice_number: string;
+  booking_id: string;
+  issued_at: string;
+  customer_name: string;
+  customer_email: string;
+  company: {
+    name: string | null;
+    address: string | null;
+    email: string | null;
+    phone: string | null;
+    tax_id: string | null;
+  };
+  lines: InvoiceLine[];
+  subtotal: number;
+  discount_amount: number;
+  promo_code: string | null;
+  tax_rate: number;
+  tax_amount: number;
+  total: number;
+}
+
+// Invoice of a signed-in customer's own booking, or any booking for admins
+export const fetchInvoice = async (bookingId: string): Promise<Invoice | null> => {
+  const { data, error } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('booking_id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const formatMoney = (amount: number) => `E£${Number(amount).toFixed(2)}`;
+
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  // Loaded on demand so the PDF library stays out of the main bundle
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF();
+  const left = 20;
+  const right = 190;
+  let y = 25;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(invoice.company.name || 'Desk4U', left, y);
+  doc.text('INVOICE', right, y, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  const companyLines = [
+    ...(invoice.company.address?.split('\n') || []),
+    invoice.company.email,
+    invoice.company.phone,
+    invoice.company.tax_id ? `Tax ID: ${invoice.company.tax_id}` : null
+  ].filter((line): line is string => !!line);
+  companyLines.forEach((line, index) => doc.text(line, left, y + 8 + index * 5));
+
+  doc.text(`Invoice no.: ${invoice.invoice_number}`, right, y + 8, { align: 'right' });
+  doc.text(`Issued: ${new Date(invoice.issued_at).toLocaleDateString()}`, right, y + 13, { align: 'right' });
+  doc.text(`Booking: ${invoice.booking_id.slice(0, 8).toUpperCase()}`, right, y + 18, { align: 'right' });
+
+  y += 16 + Math.max(companyLines.length, 3) * 5;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill to', left, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(invoice.customer_name, left, y + 5);
+  doc.text(invoice.customer_email, left, y + 10);
+
+  y += 24;
+  doc.setFont('helvetica', 'bold');
+  doc.text('Description', left, y);
+  doc.text('Qty', 130, y, { align: 'right' });
+  doc.text('Unit price', 160, y, { align: 'right' });
+  doc.text('Amount', right, y, { align: 'right' });
+  doc.line(left, y + 2, right, y + 2);
+  doc.setFont('helvetica', 'normal');
+
+  y += 8;
+  invoice.lines.forEach(line => {
+    const description: string[] = doc.splitTextToSize(line.description, 95);
+    doc.text(description, left, y);
+    doc.text(String(line.quantity), 130, y, { align: 'right' });
+    doc.text(formatMoney(line.unit_price), 160, y, { align: 'right' });
+    doc.text(formatMoney(line.amount), right, y, { align: 'right' });
+    y += description.length * 5 + 2;
+  });
+
+  doc.line(left, y, right, y);
+  y += 7;
+
+  const totals: [string, string][] = [
+    ['Subtotal', formatMoney(invoice.subtotal)],
+    ...(invoice.discount_amount > 0
+      ? [[`Discount${invoice.promo_code ? ` (${invoice.promo_code})` : ''}`, `-${formatMoney(invoice.discount_amount)}`] as [string, string]]
+      : []),
+    [`VAT ${invoice.tax_rate}% (included)`, formatMoney(invoice.tax_amount)]
+  ];
+  totals.forEach(([label, value]) => {
+    doc.text(label, 160, y, { align: 'right' });
+    doc.text(value, right, y, { align: 'right' });
+    y += 6;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text('Total', 160, y + 2, { align: 'right' });
+  doc.text(formatMoney(invoice.total), right, y + 2, { align: 'right' });
+
+  doc.save(`${invoice.invoice_number}.pdf`);
+};
@@ -0,0 +1,78 @@
+// Memberships granted from pricing plans, and the credit rules the
+// charge_bookings_membership trigger applies to bookings
+import { supabase } from './supabase';
+
+export type CreditUnit = 'hour' | 'day' | 'unlimited';
+
+export interface Membership {
+  id: string;
+  user_id: string;
+  customer_email: string;
+  plan_id: string | null;
+  plan_name: string;
+  credit_unit: CreditUnit;
+  // Null for unlimited plans
+  credit_hours: number | null;
+  used_hours: number;
+  workspace_types: string[];
+  starts_on: string;
+  ends_on: string;
+  status: 'active' | 'cancelled';
+  created_at: string;
+}
+
+// Mirrors booking_credit_hours(); a day of credit is 8 hours
+const CREDIT_HOURS: Record<string, number> = {
+  '1-hour': 1,
+  '2-hours': 2,
+  '4-hours': 4,
+  '1-day': 8,
+  '1-week': 56,
+  '1-month': 240
+};
+
+export const getCreditHours = (duration: string) => CREDIT_HOURS[duration] || 0;
+
+export const getRemainingHours = (membership: Membership) =>
+  membership.credit_hours === null ? null : Math.max(membership.credit_hours - membership.used_hours, 0);
+
+export const formatCredit = (membership: Membership, hours = getRemainingHours(membership)) => {
+  if (hours === null) return 'Unlimited';
+  return membership.credit_unit === 'day'
+    ? `${Math.round((hours / 8) * 100) / 100} day(s)`
+    : `${hours} hour(s)`;
+};
+
+// Active memberships of a customer that have not ended yet
+export const fetchMemberships = async (userId: string): Promise<Membership[]> => {
+  const { data, error } = await supabase
+    .from('memberships')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'active')
+    .gte('ends_on', new Date().toISOString().split('T')[0])
+    .order('ends_on', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Why a membership cannot pay for a booking, or null when it can
+export const getMembershipProblem = (
+  membership: Membership,
+  workspaceType: string,
+  date: string,
+  duration: string
+) => {
+  if (date && (date < membership.starts_on || date > membership.ends_on)) {
+    return `Your membership runs from ${new Date(membership.starts_on).toLocaleDateString()} to ${new Date(membership.ends_on).toLocaleDateString()}`;
+  }
+  if (workspaceType && membership.workspace_types.length > 0 && !membership.workspace_types.includes(workspaceType)) {
+    return `Your membership does not include ${workspaceType}`;
+  }
+  const remaining = getRemainingHours(membership);
+  if (duration && remaining !== null && remaining < getCreditHours(duration)) {
+    return `Not enough credit left (${formatCredit(membership)})`;
+  }
+  return null;
+};
@@ -0,0 +1,61 @@
+// Opening hours and closures as stored in Supabase, plus the helpers the
+// booking page uses to turn them into bookable slots.
+
+export interface OpeningHours {
+  weekday: number;
+  opens_at: string;
+  closes_at: string;
+  is_closed: boolean;
+}
+
+export interface ClosureDate {
+  id: string;
+  date: string;
+  closure_type: 'holiday' | 'blackout';
+  reason: string | null;
+}
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "06:00:00" -> 360
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+// 360 -> "6:00 AM", the format stored in bookings.time_slot
+export const formatTimeSlot = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return `${displayHours}:${String(minutes % 60).padStart(2, '0')} ${suffix}`;
+};
+
+export const getWeekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Hourly start times from opening until the last start that still ends by closing
+export const generateTimeSlots = (hours: OpeningHours | undefined, lengthHours = 1) => {
+  if (!hours || hours.is_closed) return [];
+
+  const slots: string[] = [];
+  const closes = timeToMinutes(hours.closes_at);
+  for (let minutes = timeToMinutes(hours.opens_at); minutes + lengthHours * 60 <= closes; minutes += 60) {
+    slots.push(formatTimeSlot(minutes));
+  }
+  return slots;
+};
+
+// Why the space is closed on a date, or null when it is open
+export const getClosureReason = (date: string, openingHours: OpeningHours[], closures: ClosureDate[]) => {
+  const closure = closures.find(c => c.date === date);
+  if (closure) {
+    return closure.reason || (closure.closure_type === 'holiday' ? 'Holiday' : 'Closed');
+  }
+
+  const hours = openingHours.find(h => h.weekday === getWeekday(date));
+  if (hours?.is_closed) {
+    return `Closed on ${WEEKDAY_NAMES[hours.weekday]}s`;
+  }
+
+  return null;
+};
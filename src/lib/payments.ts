@@ -0,0 +1,160 @@
+// Online payments, through the `payments` edge function and its provider,
+// and transfers that admins reconcile by hand
+import { supabase } from './supabase';
+
+export type PaymentStatus = 'unpaid' | 'authorized' | 'partially_paid' | 'paid' | 'partially_refunded' | 'refunded';
+
+export type PaymentMethod = 'vodafone_cash' | 'instapay' | 'bank_transfer' | 'cash' | 'card' | 'other';
+
+export interface PaymentIntent {
+  payment_id: string;
+  provider: string;
+  amount: number;
+  checkout_url: string;
+}
+
+// From get_booking_payment()
+export interface BookingPayment {
+  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired';
+  payment_status: PaymentStatus;
+  check_in_code: string | null;
+  latest_payment_status: string | null;
+  amount_due: number;
+  amount_paid: number;
+  balance: number;
+  proofs_submitted: number;
+}
+
+export interface Payment {
+  id: string;
+  booking_id: string;
+  provider: string;
+  method: PaymentMethod | null;
+  reference: string | null;
+  amount: number;
+  refunded_amount: number;
+  status: 'created' | 'authorized' | 'succeeded' | 'failed' | 'partially_refunded' | 'refunded';
+  created_at: string;
+}
+
+// A transfer screenshot or reference sent in by the customer
+export interface PaymentProof {
+  id: string;
+  booking_id: string;
+  method: PaymentMethod;
+  reference: string | null;
+  amount: number | null;
+  file_path: string | null;
+  status: 'submitted' | 'accepted' | 'rejected';
+  created_at: string;
+}
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  authorized: 'Authorized',
+  partially_paid: 'Partly paid',
+  paid: 'Paid',
+  partially_refunded: 'Partly refunded',
+  refunded: 'Refunded'
+};
+
+export const paymentMethodLabels: Record<PaymentMethod, string> = {
+  vodafone_cash: 'Vodafone Cash',
+  instapay: 'InstaPay',
+  bank_transfer: 'Bank transfer',
+  cash: 'Cash',
+  card: 'Card',
+  other: 'Other'
+};
+
+// Confirmed bookings that still owe money, flagged for admins
+export const isUnpaidConfirmed = (booking: { status: string; payment_status: PaymentStatus; total_price: number }) =>
+  booking.status === 'confirmed' &&
+  booking.total_price > 0 &&
+  ['unpaid', 'authorized', 'partially_paid'].includes(booking.payment_status);
+
+const invokePayments = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('payments', { body });
+  if (error) {
+    // The function answers errors with { error } and a 4xx status
+    const details = await error.context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+export const createPaymentIntent = (bookingId: string) =>
+  invokePayments<PaymentIntent>({ action: 'create_intent', booking_id: bookingId });
+
+// Stands in for the gateway's checkout when the mock provider is active
+export const completeMockPayment = (paymentId: string, succeeded: boolean) =>
+  invokePayments({ action: 'mock_complete', payment_id: paymentId, succeeded });
+
+export const capturePayment = (paymentId: string) =>
+  invokePayments({ action: 'capture', payment_id: paymentId });
+
+export const refundPayment = (paymentId: string, amount: number) =>
+  invokePayments({ action: 'refund', payment_id: paymentId, amount });
+
+export const fetchBookingPayment = async (bookingId: string) => {
+  const { data, error } = await supabase.rpc('get_booking_payment', { p_booking_id: bookingId });
+  if (error) throw error;
+  return data as BookingPayment | null;
+};
+
+// The confirmation code of a booking confirmed by paying online, for whoever
+// holds the payment id. Only the first call gets it; the database keeps just
+// its hash.
+export const claimPaidBookingCode = async (bookingId: string, paymentId: string) => {
+  const { data, error } = await supabase.rpc('claim_paid_booking_code', {
+    p_booking_id: bookingId,
+    p_payment_id: paymentId
+  });
+  if (error) throw error;
+  return data as string | null;
+};
+
+export const submitPaymentProof = async (
+  bookingId: string,
+  proof: { method: PaymentMethod; reference: string; amount: number | null; file: File | null }
+) => {
+  let filePath: string | null = null;
+
+  if (proof.file) {
+    // submit_payment_proof() only accepts files in the booking's folder
+    filePath = `${bookingId}/${crypto.randomUUID()}-${proof.file.name}`;
+    const { error: uploadError } = await supabase.storage.from('payment-proofs').upload(filePath, proof.file);
+    if (uploadError) throw uploadError;
+  }
+
+  const { error } = await supabase.rpc('submit_payment_proof', {
+    p_booking_id: bookingId,
+    p_method: proof.method,
+    p_reference: proof.reference,
+    p_amount: proof.amount,
+    p_file_path: filePath
+  });
+  if (error) throw error;
+};
+
+export const recordManualPayment = async (
+  bookingId: string,
+  payment: { amount: number; method: PaymentMethod; reference: string; proofId: string | null }
+) => {
+  const { data, error } = await supabase.rpc('record_manual_payment', {
+    p_booking_id: bookingId,
+    p_amount: payment.amount,
+    p_method: payment.method,
+    p_reference: payment.reference,
+    p_proof_id: payment.proofId
+  });
+  if (error) throw error;
+  return data as { payment_id: string; payment_status: PaymentStatus; balance: number };
+};
+
+// Proof files are private, so admins view them through a short-lived link
+export const getProofFileUrl = async (filePath: string) => {
+  const { data, error } = await supabase.storage.from('payment-proofs').createSignedUrl(filePath, 300);
+  if (error) throw error;
+  return data.signedUrl;
+};
@@ -0,0 +1,50 @@
+import { supabase } from './supabase';
+import { AddOnSelection, BookingAddOn } from './addOns';
+
+export interface PriceAdjustment {
+  name: string;
+  multiplier: number;
+}
+
+export interface BookingQuote {
+  base_price: number;
+  adjustments: PriceAdjustment[];
+  subtotal: number;
+  promo_code: string | null;
+  promo_error: string | null;
+  discount_amount: number;
+  add_ons: BookingAddOn[];
+  add_ons_total: number;
+  add_ons_error: string | null;
+  total_price: number;
+}
+
+// Asks the database for the same quote its apply_bookings_price trigger writes
+// to bookings.total_price, so the displayed price always matches the saved one
+export const getBookingQuote = async (
+  workspaceType: string,
+  duration: string,
+  date?: string,
+  timeSlot?: string,
+  promoCode?: string,
+  customerEmail?: string,
+  addOns?: AddOnSelection[]
+): Promise<BookingQuote> => {
+  const { data, error } = await supabase.rpc('get_booking_quote', {
+    p_workspace_type: workspaceType,
+    p_duration: duration,
+    p_date: date || null,
+    p_time_slot: timeSlot || null,
+    p_promo_code: promoCode || null,
+    p_customer_email: customerEmail || null,
+    p_add_ons: addOns || null
+  });
+
+  if (error) throw error;
+  return data as BookingQuote;
+};
+
+export const formatMultiplier = (multiplier: number) => {
+  const percent = Math.round((multiplier - 1) * 100);
+  return percent >= 0 ? `+${percent}%` : `${percent}%`;
+};
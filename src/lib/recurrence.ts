@@ -0,0 +1,44 @@
+// Recurring booking schedules, expanded into dates by create_booking_series()
+import { WEEKDAY_NAMES } from './openingHours';
+
+export type RecurrenceFrequency = 'daily' | 'weekly';
+
+export interface BookingSeries {
+  id: string;
+  frequency: RecurrenceFrequency;
+  weekdays: number[];
+  time_slot: string;
+}
+
+// One date of a series as returned by create_booking_series() and
+// reschedule_booking_series(): either priced or with the reason it failed
+export interface SeriesOccurrence {
+  date: string;
+  total_price?: number;
+  discount_amount?: number;
+  error?: string;
+}
+
+export interface SeriesResult {
+  status: 'available' | 'conflicts' | 'created' | 'rescheduled';
+  series_id?: string | null;
+  booking_id?: string | null;
+  occurrences?: SeriesOccurrence[];
+}
+
+// Limits enforced by create_booking_series()
+export const MAX_OCCURRENCES = 52;
+
+export const describeRecurrence = (frequency: RecurrenceFrequency, weekdays: number[]) => {
+  if (frequency === 'daily') return 'Every day we are open';
+  const days = [...weekdays].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day].slice(0, 3));
+  return `Weekly on ${days.join(', ')}`;
+};
+
+export const getSeriesConflicts = (occurrences: SeriesOccurrence[] = []) =>
+  occurrences.filter(occurrence => occurrence.error);
+
+export const formatSeriesConflicts = (occurrences: SeriesOccurrence[] = []) =>
+  getSeriesConflicts(occurrences)
+    .map(occurrence => `${new Date(occurrence.date).toLocaleDateString()}: ${occurrence.error}`)
+    .join('\n');
@@ -1,4 +1,6 @@
 import { createClient } from '@supabase/supabase-js'
+import type { AddOnSelection, BookingAddOn } from './addOns'
+import type { PaymentStatus } from './payments'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -15,13 +17,36 @@ export type Database = {
           date: string
           time_slot: string
           duration: string
+          starts_at: string
+          ends_at: string
+          unit_name: string | null
+          promo_code: string | null
+          discount_amount: number
+          add_ons: BookingAddOn[]
+          add_ons_total: number
+          cancelled_at: string | null
+          cancellation_fee: number
+          reschedule_count: number
+          reschedule_fees: number
+          series_id: string | null
+          hold_expires_at: string | null
+          group_id: string | null
+          attendee_name: string | null
+          checked_in_at: string | null
+          checked_out_at: string | null
+          no_show: boolean
+          check_in_code: string
+          membership_id: string | null
+          credit_hours: number
+          payment_status: PaymentStatus
           customer_name: string
           customer_email: string
           customer_phone: string
           customer_whatsapp: string
           total_price: number
-          status: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          status: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired'
           confirmation_code: string | null
+          confirmation_code_hash: string | null
           user_id: string | null
           created_at: string
           updated_at: string
@@ -32,13 +57,36 @@ export type Database = {
           date: string
           time_slot: string
           duration: string
+          starts_at?: string
+          ends_at?: string
+          unit_name?: string | null
+          promo_code?: string | null
+          discount_amount?: number
+          add_ons?: AddOnSelection[]
+          add_ons_total?: number
+          cancelled_at?: string | null
+          cancellation_fee?: number
+          reschedule_count?: number
+          reschedule_fees?: number
+          series_id?: string | null
+          hold_expires_at?: string | null
+          group_id?: string | null
+          attendee_name?: string | null
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          no_show?: boolean
+          check_in_code?: string
+          membership_id?: string | null
+          credit_hours?: number
+          payment_status?: PaymentStatus
           customer_name: string
           customer_email: string
           customer_phone: string
           customer_whatsapp: string
           total_price: number
-          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired'
           confirmation_code?: string | null
+          confirmation_code_hash?: string | null
           user_id?: string | null
           created_at?: string
           updated_at?: string
@@ -49,13 +97,36 @@ export type Database = {
           date?: string
           time_slot?: string
           duration?: string
+          starts_at?: string
+          ends_at?: string
+          unit_name?: string | null
+          promo_code?: string | null
+          discount_amount?: number
+          add_ons?: AddOnSelection[]
+          add_ons_total?: number
+          cancelled_at?: string | null
+          cancellation_fee?: number
+          reschedule_count?: number
+          reschedule_fees?: number
+          series_id?: string | null
+          hold_expires_at?: string | null
+          group_id?: string | null
+          attendee_name?: string | null
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          no_show?: boolean
+          check_in_code?: string
+          membership_id?: string | null
+          credit_hours?: number
+          payment_status?: PaymentStatus
           customer_name?: string
           customer_email?: string
           customer_phone?: string
           customer_whatsapp?: string
           total_price?: number
-          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled'
+          status?: 'pending' | 'confirmed' | 'rejected' | 'cancelled' | 'expired'
           confirmation_code?: string | null
+          confirmation_code_hash?: string | null
           user_id?: string | null
           created_at?: string
           updated_at?: string
@@ -71,6 +142,13 @@ export type Database = {
           image_url: string | null
           features: string[]
           is_active: boolean
+          capacity: number
+          unit_label: string
+          unit_names: string[]
+          hourly_rate: number | null
+          daily_rate: number | null
+          weekly_rate: number | null
+          monthly_rate: number | null
           created_at: string
           updated_at: string
         }
@@ -83,6 +161,13 @@ export type Database = {
           image_url?: string | null
           features?: string[]
           is_active?: boolean
+          capacity?: number
+          unit_label?: string
+          unit_names?: string[]
+          hourly_rate?: number | null
+          daily_rate?: number | null
+          weekly_rate?: number | null
+          monthly_rate?: number | null
           created_at?: string
           updated_at?: string
         }
@@ -95,6 +180,13 @@ export type Database = {
           image_url?: string | null
           features?: string[]
           is_active?: boolean
+          capacity?: number
+          unit_label?: string
+          unit_names?: string[]
+          hourly_rate?: number | null
+          daily_rate?: number | null
+          weekly_rate?: number | null
+          monthly_rate?: number | null
           created_at?: string
           updated_at?: string
         }
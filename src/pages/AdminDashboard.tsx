@@ -1,9 +1,9 @@
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { useBooking } from '../contexts/BookingContext';
-import { Navigate } from 'react-router-dom';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
 import { 
   Calendar, 
   Users, 
@@ -15,10 +15,73 @@ import {
   Trash2,
   Phone,
   Mail,
-  MessageCircle
+  MessageCircle,
+  Plus,
+  Eye,
+  EyeOff,
+  Repeat,
+  Send,
+  UserCheck,
+  FileText,
+  RotateCcw,
+  Wallet,
+  QrCode,
+  PanelRightOpen,
+  Search,
+  ChevronUp,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Download
 } from 'lucide-react';
+import { AdminBooking, NewAdminBooking, downloadBookingsCsv, getChangeErrorMessage } from '../lib/bookings';
+import { describeAddOns } from '../lib/addOns';
+import { SeriesResult, formatSeriesConflicts } from '../lib/recurrence';
+import { Membership, formatCredit } from '../lib/memberships';
+import { downloadInvoicePdf, fetchInvoice } from '../lib/invoices';
+import { AttendanceSummary, fetchAttendanceSummary, getCheckInUrl } from '../lib/checkIn';
+import { getCalendarFeedUrl } from '../lib/calendar';
+import {
+  BOOKINGS_PAGE_SIZE,
+  BookingFilters,
+  BookingSortColumn,
+  countOutstandingBookings,
+  defaultBookingFilters,
+  fetchAdminBookings,
+  hasBookingFilters,
+  parseBookingFilters,
+  toBookingSearchParams
+} from '../lib/bookingFilters';
+import {
+  Payment,
+  PaymentProof,
+  PaymentStatus,
+  capturePayment,
+  isUnpaidConfirmed,
+  paymentStatusLabels,
+  refundPayment
+} from '../lib/payments';
+import RescheduleForm from '../components/RescheduleForm';
+import RecordPaymentForm from '../components/RecordPaymentForm';
+import BookingDrawer from '../components/BookingDrawer';
+import WalkInBookingForm from '../components/WalkInBookingForm';
 
-interface Booking {
+interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discount_type: 'percentage' | 'fixed';
+  discount_value: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  max_uses: number | null;
+  max_uses_per_customer: number | null;
+  workspace_types: string[];
+  is_active: boolean;
+  created_at: string;
+}
+
+interface WaitlistEntry {
   id: string;
   workspace_type: string;
   date: string;
@@ -26,21 +89,76 @@ interface Booking {
   duration: string;
   customer_name: string;
   customer_email: string;
-  customer_phone: string;
   customer_whatsapp: string;
-  total_price: number;
-  status: 'pending' | 'confirmed' | 'rejected' | 'cancelled';
-  confirmation_code: string | null;
-  user_id: string | null;
+  status: 'waiting' | 'offered' | 'claimed' | 'expired' | 'removed';
+  claim_token: string | null;
+  offer_expires_at: string | null;
+  notified_at: string | null;
   created_at: string;
-  updated_at: string;
 }
 
+// Pricing plans that grant booking credits
+interface CreditPlan {
+  id: string;
+  name: string;
+  credit_unit: string;
+  credit_amount: number | null;
+  term_days: number;
+}
+
+// Outcome of a bulk action, shown once instead of an alert per booking
+interface BulkSummary {
+  action: string;
+  succeeded: number;
+  failures: { booking: AdminBooking; message: string }[];
+}
+
+const emptyGrant = {
+  email: '',
+  plan_id: '',
+  starts_on: ''
+};
+
+const emptyPromo = {
+  code: '',
+  description: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  valid_from: '',
+  valid_until: '',
+  max_uses: '',
+  max_uses_per_customer: '',
+  workspace_types: [] as string[]
+};
+
+// Attendance defaults to the last 30 days
+const getLastMonthRange = () => {
+  const to = new Date();
+  const from = new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  return { from: from.toISOString().split('T')[0], to: to.toISOString().split('T')[0] };
+};
+
 const AdminDashboard: React.FC = () => {
   const { user } = useAuth();
   const { sendWebhook } = useBooking();
   const [activeTab, setActiveTab] = useState('bookings');
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [bookings, setBookings] = useState<AdminBooking[]>([]);
+  // Latest online payment per booking it was made from
+  const [payments, setPayments] = useState<Record<string, Payment>>({});
+  // Transfer details customers sent in that nobody has checked yet
+  const [proofs, setProofs] = useState<Record<string, PaymentProof[]>>({});
+  const [recordingPaymentFor, setRecordingPaymentFor] = useState<string | null>(null);
+  const [detailsFor, setDetailsFor] = useState<string | null>(null);
+  const [showWalkInForm, setShowWalkInForm] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseBookingFilters(searchParams);
+  const [searchText, setSearchText] = useState(filters.search);
+  const [bookingCount, setBookingCount] = useState(0);
+  const [unpaidConfirmedCount, setUnpaidConfirmedCount] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkSummary, setBulkSummary] = useState<BulkSummary | null>(null);
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [feedWorkspace, setFeedWorkspace] = useState('');
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState({
     totalBookings: 0,
@@ -48,39 +166,112 @@ const AdminDashboard: React.FC = () => {
     monthlyRevenue: 0,
     pendingBookings: 0
   });
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [redemptions, setRedemptions] = useState<Record<string, number>>({});
+  const [workspaceNames, setWorkspaceNames] = useState<string[]>([]);
+  const [showPromoForm, setShowPromoForm] = useState(false);
+  const [newPromo, setNewPromo] = useState(emptyPromo);
+  const [editingBooking, setEditingBooking] = useState<{ id: string; scope: 'booking' | 'series' } | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [creditPlans, setCreditPlans] = useState<CreditPlan[]>([]);
+  const [newGrant, setNewGrant] = useState(emptyGrant);
+  const [attendance, setAttendance] = useState<AttendanceSummary[]>([]);
+  const [attendanceRange, setAttendanceRange] = useState(getLastMonthRange);
 
-  if (!user || user.role !== 'admin') {
-    return <Navigate to="/login" replace />;
-  }
+  // Keyed on the URL, so the list reloads whenever the filters in it change
+  const fetchBookings = useCallback(async (current: BookingFilters = parseBookingFilters(searchParams)) => {
+    try {
+      // Release pending bookings whose hold has run out
+      const { error: expireError } = await supabase.rpc('expire_pending_bookings');
+      if (expireError) throw expireError;
 
-  useEffect(() => {
-    fetchBookings();
-    fetchStats();
-  }, []);
+      // Flag bookings that ended without anyone checking in
+      const { error: noShowError } = await supabase.rpc('mark_no_shows');
+      if (noShowError) throw noShowError;
 
-  const fetchBookings = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('bookings')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const [result, outstanding] = await Promise.all([
+        fetchAdminBookings(current),
+        countOutstandingBookings()
+      ]);
 
-      if (error) throw error;
-      setBookings(data || []);
+      // The requested page is gone, e.g. after the last booking on it was filtered out
+      if (result.page !== current.page) {
+        setSearchParams(toBookingSearchParams({ ...current, page: result.page }), { replace: true });
+      }
+
+      const bookingIds = result.bookings.map(b => b.id);
+      const [
+        { data: paymentsData, error: paymentsError },
+        { data: proofsData, error: proofsError }
+      ] = await Promise.all([
+        // Online payments only; manual ones are reconciled in the payment form
+        supabase
+          .from('payments')
+          .select('*')
+          .in('booking_id', bookingIds)
+          .neq('status', 'created')
+          .neq('provider', 'manual')
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('payment_proofs')
+          .select('*')
+          .in('booking_id', bookingIds)
+          .eq('status', 'submitted')
+          .order('created_at', { ascending: true })
+      ]);
+
+      if (paymentsError) throw paymentsError;
+      if (proofsError) throw proofsError;
+      setBookings(result.bookings);
+      setBookingCount(result.count);
+      setUnpaidConfirmedCount(outstanding);
+      setPayments(Object.fromEntries((paymentsData || []).map(p => [p.booking_id, p])));
+      setProofs((proofsData || []).reduce<Record<string, PaymentProof[]>>((byBooking, proof) => ({
+        ...byBooking,
+        [proof.booking_id]: [...(byBooking[proof.booking_id] || []), proof]
+      }), {}));
     } catch (error) {
       console.error('Error fetching bookings:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [searchParams, setSearchParams]);
+
+  // These run before the admin check below, so they skip everyone else
+  // themselves
+  useEffect(() => {
+    if (user?.role === 'admin') fetchBookings();
+  }, [user?.role, fetchBookings]);
+
+  useEffect(() => {
+    if (user?.role !== 'admin') return;
+    fetchStats();
+    fetchPromoCodes();
+    fetchWaitlist();
+    fetchMemberships();
+    fetchAttendance(getLastMonthRange());
+  }, [user?.role]);
+
+  if (!user || user.role !== 'admin') {
+    return <Navigate to="/login" replace />;
+  }
 
   const fetchStats = async () => {
     try {
-      const { data: bookingsData, error } = await supabase
-        .from('bookings')
-        .select('status, total_price, created_at');
+      const today = new Date().toISOString().split('T')[0];
+      const [{ data: bookingsData, error }, { data: membersData, error: membersError }] = await Promise.all([
+        supabase.from('bookings').select('status, total_price, created_at'),
+        supabase
+          .from('memberships')
+          .select('user_id')
+          .eq('status', 'active')
+          .lte('starts_on', today)
+          .gte('ends_on', today)
+      ]);
 
       if (error) throw error;
+      if (membersError) throw membersError;
 
       const totalBookings = bookingsData?.length || 0;
       const pendingBookings = bookingsData?.filter(b => b.status === 'pending').length || 0;
@@ -90,7 +281,7 @@ const AdminDashboard: React.FC = () => {
 
       setStats({
         totalBookings,
-        activeMembers: Math.floor(totalBookings * 0.7), // Mock calculation
+        activeMembers: new Set(membersData?.map(m => m.user_id)).size,
         monthlyRevenue,
         pendingBookings
       });
@@ -99,49 +290,330 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
-  const handleConfirmBooking = async (bookingId: string) => {
+  const fetchPromoCodes = async () => {
     try {
-      // Generate confirmation code
-      const confirmationCode = Math.floor(100000 + Math.random() * 900000).toString();
+      const [codesResult, redeemedResult, workspacesResult] = await Promise.all([
+        supabase.from('promo_codes').select('*').order('created_at', { ascending: false }),
+        supabase
+          .from('bookings')
+          .select('promo_code')
+          .not('promo_code', 'is', null)
+          .in('status', ['pending', 'confirmed']),
+        supabase.from('workspace_types').select('name').eq('is_active', true)
+      ]);
 
-      // Get booking data for webhook
-      const { data: bookingData, error: fetchError } = await supabase
-        .from('bookings')
+      if (codesResult.error) throw codesResult.error;
+      if (redeemedResult.error) throw redeemedResult.error;
+      if (workspacesResult.error) throw workspacesResult.error;
+
+      const counts: Record<string, number> = {};
+      redeemedResult.data?.forEach(b => {
+        counts[b.promo_code] = (counts[b.promo_code] || 0) + 1;
+      });
+
+      setPromoCodes(codesResult.data || []);
+      setRedemptions(counts);
+      setWorkspaceNames(workspacesResult.data?.map(w => w.name) || []);
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+    }
+  };
+
+  const fetchWaitlist = async () => {
+    try {
+      // Passes lapsed offers on before reading the queue
+      const { error: expireError } = await supabase.rpc('expire_waitlist_offers');
+      if (expireError) throw expireError;
+
+      const { data, error } = await supabase
+        .from('waitlist_entries')
         .select('*')
-        .eq('id', bookingId)
-        .single();
+        .in('status', ['waiting', 'offered'])
+        .order('date', { ascending: true })
+        .order('created_at', { ascending: true });
 
-      if (fetchError) throw fetchError;
+      if (error) throw error;
+      setWaitlist(data || []);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    }
+  };
 
-      // Send webhook notification with confirmation code
-      try {
-        await fetch('https://webhook.com/example', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+  const handleSendClaimLink = async (entry: WaitlistEntry) => {
+    const claimLink = `${window.location.origin}/waitlist/${entry.claim_token}`;
+    try {
+      await fetch('https://webhook.com/example', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'send_waitlist_offer',
+          claimLink,
+          expiresAt: entry.offer_expires_at,
+          customerData: {
+            name: entry.customer_name,
+            whatsapp: entry.customer_whatsapp,
+            email: entry.customer_email
           },
-          body: JSON.stringify({
-            action: 'send_confirmation_code',
-            bookingId: bookingId,
-            confirmationCode: confirmationCode,
-            customerData: {
-              name: bookingData.customer_name,
-              whatsapp: bookingData.customer_whatsapp,
-              email: bookingData.customer_email
-            },
-            bookingDetails: {
-              workspace_type: bookingData.workspace_type,
-              date: bookingData.date,
-              time_slot: bookingData.time_slot,
-              total_price: bookingData.total_price
-            },
-            timestamp: new Date().toISOString()
-          })
+          bookingDetails: {
+            workspace_type: entry.workspace_type,
+            date: entry.date,
+            time_slot: entry.time_slot,
+            duration: entry.duration
+          },
+          timestamp: new Date().toISOString()
+        })
+      });
+
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ notified_at: new Date().toISOString() })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+
+      await fetchWaitlist();
+      alert(`Claim link sent to ${entry.customer_name}: ${claimLink}`);
+    } catch (error) {
+      console.error('Error sending claim link:', error);
+      alert('Failed to send claim link. Please try again.');
+    }
+  };
+
+  const handleRemoveWaitlistEntry = async (entry: WaitlistEntry) => {
+    if (!confirm(`Remove ${entry.customer_name} from the waitlist?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('waitlist_entries')
+        .update({ status: 'removed' })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      await fetchWaitlist();
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error);
+      alert('Failed to remove waitlist entry. Please try again.');
+    }
+  };
+
+  const fetchAttendance = async (range: { from: string; to: string }) => {
+    setAttendanceRange(range);
+    try {
+      setAttendance(await fetchAttendanceSummary(range.from, range.to));
+    } catch (error) {
+      console.error('Error fetching attendance:', error);
+    }
+  };
+
+  const fetchMemberships = async () => {
+    try {
+      const [membershipsResult, plansResult] = await Promise.all([
+        supabase.from('memberships').select('*').order('created_at', { ascending: false }),
+        supabase
+          .from('pricing_plans')
+          .select('id, name, credit_unit, credit_amount, term_days')
+          .not('credit_unit', 'is', null)
+          .order('display_order', { ascending: true })
+      ]);
+
+      if (membershipsResult.error) throw membershipsResult.error;
+      if (plansResult.error) throw plansResult.error;
+
+      setMemberships(membershipsResult.data || []);
+      setCreditPlans(plansResult.data || []);
+    } catch (error) {
+      console.error('Error fetching memberships:', error);
+    }
+  };
+
+  const handleGrantMembership = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase.rpc('grant_membership', {
+        p_email: newGrant.email,
+        p_plan_id: newGrant.plan_id,
+        p_starts_on: newGrant.starts_on || null
+      });
+
+      if (error) throw error;
+
+      setNewGrant(emptyGrant);
+      await Promise.all([fetchMemberships(), fetchStats()]);
+    } catch (error) {
+      console.error('Error granting membership:', error);
+      alert(error instanceof Error ? error.message : 'Failed to grant membership. Please try again.');
+    }
+  };
+
+  const handleCancelMembership = async (membership: Membership) => {
+    if (!confirm(`Cancel ${membership.customer_email}'s ${membership.plan_name} membership? Unused credit is lost.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('memberships')
+        .update({ status: 'cancelled' })
+        .eq('id', membership.id);
+
+      if (error) throw error;
+      await Promise.all([fetchMemberships(), fetchStats()]);
+    } catch (error) {
+      console.error('Error cancelling membership:', error);
+      alert('Failed to cancel membership. Please try again.');
+    }
+  };
+
+  // Any change of filter or sort starts again from the first page
+  const updateFilters = (changes: Partial<BookingFilters>) => {
+    const next = { ...filters, page: 1, ...changes };
+    setSearchParams(toBookingSearchParams(next), { replace: true });
+    setSearchText(next.search);
+    setSelectedIds([]);
+  };
+
+  const handleSort = (column: BookingSortColumn) => {
+    updateFilters({
+      sort: column,
+      ascending: filters.sort === column ? !filters.ascending : column !== 'created_at'
+    });
+  };
+
+  const renderSortableHeader = (column: BookingSortColumn, label: string) => (
+    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+      <button onClick={() => handleSort(column)} className="flex items-center uppercase tracking-wider hover:text-gray-700">
+        {label}
+        {filters.sort === column && (
+          filters.ascending ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />
+        )}
+      </button>
+    </th>
+  );
+
+  // Waiting and offered entries per day, for the depth summary
+  const waitlistDepth = Object.entries(
+    waitlist.reduce<Record<string, { waiting: number; offered: number }>>((days, entry) => {
+      const day = days[entry.date] || { waiting: 0, offered: 0 };
+      day[entry.status === 'offered' ? 'offered' : 'waiting'] += 1;
+      return { ...days, [entry.date]: day };
+    }, {})
+  );
+
+  const handleCreatePromo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase
+        .from('promo_codes')
+        .insert({
+          code: newPromo.code.trim().toUpperCase(),
+          description: newPromo.description || null,
+          discount_type: newPromo.discount_type,
+          discount_value: parseFloat(newPromo.discount_value),
+          valid_from: newPromo.valid_from ? new Date(newPromo.valid_from).toISOString() : null,
+          valid_until: newPromo.valid_until ? new Date(newPromo.valid_until).toISOString() : null,
+          max_uses: newPromo.max_uses ? parseInt(newPromo.max_uses) : null,
+          max_uses_per_customer: newPromo.max_uses_per_customer ? parseInt(newPromo.max_uses_per_customer) : null,
+          workspace_types: newPromo.workspace_types
         });
-      } catch (webhookError) {
-        console.error('Webhook failed:', webhookError);
-        // Don't fail the confirmation if webhook fails
-      }
+
+      if (error) throw error;
+
+      setNewPromo(emptyPromo);
+      setShowPromoForm(false);
+      await fetchPromoCodes();
+    } catch (error) {
+      console.error('Error creating promo code:', error);
+      alert('Failed to create promo code. Check that the code is unique and percentages are at most 100.');
+    }
+  };
+
+  const togglePromoActive = async (promo: PromoCode) => {
+    try {
+      const { error } = await supabase
+        .from('promo_codes')
+        .update({ is_active: !promo.is_active })
+        .eq('id', promo.id);
+
+      if (error) throw error;
+      await fetchPromoCodes();
+    } catch (error) {
+      console.error('Error updating promo code:', error);
+      alert('Failed to update promo code. Please try again.');
+    }
+  };
+
+  const toggleNewPromoWorkspace = (name: string) => {
+    setNewPromo(prev => ({
+      ...prev,
+      workspace_types: prev.workspace_types.includes(name)
+        ? prev.workspace_types.filter(w => w !== name)
+        : [...prev.workspace_types, name]
+    }));
+  };
+
+  const formatDiscount = (promo: PromoCode) =>
+    promo.discount_type === 'percentage' ? `${promo.discount_value}% off` : `E£${promo.discount_value} off`;
+
+  const formatValidity = (promo: PromoCode) => {
+    if (!promo.valid_from && !promo.valid_until) return 'Always';
+    const from = promo.valid_from ? new Date(promo.valid_from).toLocaleDateString() : 'now';
+    const until = promo.valid_until ? new Date(promo.valid_until).toLocaleDateString() : 'no end';
+    return `${from} – ${until}`;
+  };
+
+  // Sends a code to the customer through the messaging webhook
+  const sendConfirmationCode = async (booking: AdminBooking, confirmationCode: string) => {
+    try {
+      await fetch('https://webhook.com/example', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'send_confirmation_code',
+          bookingId: booking.id,
+          confirmationCode: confirmationCode,
+          customerData: {
+            name: booking.customer_name,
+            whatsapp: booking.customer_whatsapp,
+            email: booking.customer_email
+          },
+          bookingDetails: {
+            workspace_type: booking.workspace_type,
+            date: booking.date,
+            time_slot: booking.time_slot,
+            add_ons: booking.add_ons,
+            total_price: booking.total_price,
+            // Rendered as a QR code in the message, scanned at the front desk
+            check_in_url: getCheckInUrl(booking.check_in_code)
+          },
+          timestamp: new Date().toISOString()
+        })
+      });
+    } catch (webhookError) {
+      console.error('Webhook failed:', webhookError);
+      // Don't fail the confirmation if webhook fails
+    }
+  };
+
+  // Issue a confirmation code server-side (only its hash is stored) and send it
+  const issueConfirmationCode = async (booking: AdminBooking) => {
+    const { data: confirmationCode, error } = await supabase
+      .rpc('issue_booking_otp', { p_booking_id: booking.id });
+
+    if (error) throw error;
+
+    await sendConfirmationCode(booking, confirmationCode);
+    return confirmationCode as string;
+  };
+
+  const handleConfirmBooking = async (booking: AdminBooking) => {
+    try {
+      const confirmationCode = await issueConfirmationCode(booking);
       
       // Refresh bookings
       await fetchBookings();
@@ -154,24 +626,67 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  // Pending bookings get a fresh one-time code; confirmed ones a new booking
+  // code, since only a hash of the old one is stored
+  const handleResendCode = async (booking: AdminBooking) => {
+    try {
+      let code: string;
+      if (booking.status === 'pending') {
+        code = await issueConfirmationCode(booking);
+      } else if (booking.status === 'confirmed') {
+        const { data, error } = await supabase
+          .rpc('reissue_confirmation_code', { p_booking_id: booking.id });
+        if (error) throw error;
+        code = data as string;
+        await sendConfirmationCode(booking, code);
+      } else {
+        alert('This booking has no confirmation code to send.');
+        return;
+      }
+
+      await fetchBookings();
+      alert(`A new confirmation code ${code} will be sent to ${booking.customer_name}.`);
+    } catch (error) {
+      console.error('Error resending confirmation code:', error);
+      alert(getChangeErrorMessage(error as { message?: string }));
+    }
+  };
+
+  const handleWalkInCreated = async (booking: NewAdminBooking, sendCode: boolean) => {
+    if (sendCode) {
+      await sendConfirmationCode(booking, booking.confirmation_code);
+    }
+
+    setShowWalkInForm(false);
+    await fetchBookings();
+    await fetchStats();
+
+    alert(`Booking confirmed for ${booking.customer_name}. Confirmation code: ${booking.confirmation_code}`);
+  };
+
+  const rejectBooking = async (bookingId: string) => {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ status: 'rejected' })
+      .eq('id', bookingId);
+
+    if (error) throw error;
+
+    // Send webhook notification
+    if (sendWebhook) {
+      await sendWebhook(bookingId, 'reject');
+    }
+  };
+
   const handleRejectBooking = async (bookingId: string) => {
     if (confirm('Are you sure you want to reject this booking?')) {
       try {
-        const { error } = await supabase
-          .from('bookings')
-          .update({ status: 'rejected' })
-          .eq('id', bookingId);
-
-        if (error) throw error;
-
-        // Send webhook notification
-        if (sendWebhook) {
-          await sendWebhook(bookingId, 'reject');
-        }
+        await rejectBooking(bookingId);
         
         // Refresh bookings
         await fetchBookings();
         await fetchStats();
+        await fetchWaitlist();
         
         alert('Booking rejected successfully!');
       } catch (error) {
@@ -181,6 +696,241 @@ const AdminDashboard: React.FC = () => {
     }
   };
 
+  const handleCancelBooking = async (booking: AdminBooking) => {
+    if (!confirm(`Cancel ${booking.customer_name}'s booking on ${new Date(booking.date).toLocaleDateString()}?`)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('cancel_booking', { p_booking_id: booking.id });
+    if (error) {
+      console.error('Error cancelling booking:', error);
+      alert(getChangeErrorMessage(error));
+      return;
+    }
+
+    await fetchBookings();
+    await fetchStats();
+    await fetchWaitlist();
+    alert('Booking cancelled.');
+  };
+
+  const selectedBookings = bookings.filter(b => selectedIds.includes(b.id));
+
+  const toggleSelected = (bookingId: string) => {
+    setSelectedIds(ids => ids.includes(bookingId) ? ids.filter(id => id !== bookingId) : [...ids, bookingId]);
+  };
+
+  // One booking at a time, so each capacity check and webhook sees the
+  // previous change. Failed bookings stay selected to try again.
+  const runBulkAction = async (action: string, run: (booking: AdminBooking) => Promise<void>) => {
+    setIsBulkRunning(true);
+    const failures: BulkSummary['failures'] = [];
+
+    for (const booking of selectedBookings) {
+      try {
+        await run(booking);
+      } catch (error) {
+        console.error(`Error in bulk ${action.toLowerCase()}:`, error);
+        failures.push({ booking, message: getChangeErrorMessage(error as { code?: string; message?: string }) });
+      }
+    }
+
+    setBulkSummary({ action, succeeded: selectedBookings.length - failures.length, failures });
+    setSelectedIds(failures.map(failure => failure.booking.id));
+    setIsBulkRunning(false);
+
+    await fetchBookings();
+    await fetchStats();
+    await fetchWaitlist();
+  };
+
+  const handleBulkConfirm = () =>
+    runBulkAction('Confirm', async booking => {
+      if (booking.status !== 'pending') throw new Error(`Booking is already ${booking.status}`);
+      await issueConfirmationCode(booking);
+    });
+
+  const handleBulkReject = () => {
+    if (!confirm(`Reject ${selectedBookings.length} booking(s)?`)) return;
+
+    runBulkAction('Reject', async booking => {
+      if (booking.status !== 'pending') throw new Error(`Booking is already ${booking.status}`);
+      await rejectBooking(booking.id);
+    });
+  };
+
+  const handleBulkCancel = () => {
+    if (!confirm(`Cancel ${selectedBookings.length} booking(s)? Admin cancellations are free, whatever the cancellation policy.`)) return;
+
+    runBulkAction('Cancel', async booking => {
+      const { error } = await supabase.rpc('cancel_booking', { p_booking_id: booking.id });
+      if (error) throw error;
+    });
+  };
+
+  const handleBulkMessage = () => {
+    const message = prompt(`Message to send to ${selectedBookings.length} customer(s) on WhatsApp and email:`);
+    if (!message?.trim()) return;
+
+    runBulkAction('Message', async booking => {
+      const response = await fetch('https://webhook.com/example', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'send_message',
+          bookingId: booking.id,
+          message: message.trim(),
+          customerData: {
+            name: booking.customer_name,
+            whatsapp: booking.customer_whatsapp,
+            email: booking.customer_email
+          },
+          timestamp: new Date().toISOString()
+        })
+      });
+      if (!response.ok) throw new Error(`The messaging webhook answered ${response.status}`);
+    });
+  };
+
+  const handleToggleCheckIn = async (booking: AdminBooking) => {
+    const { error } = await supabase.rpc('set_attendee_check_in', {
+      p_booking_id: booking.id,
+      p_checked_in: !booking.checked_in_at
+    });
+
+    if (error) {
+      console.error('Error updating check-in:', error);
+      alert(error.message || 'Failed to update check-in. Please try again.');
+      return;
+    }
+
+    await fetchBookings();
+  };
+
+  // Staff subscribe to a workspace type's bookings in their own calendar
+  const handleCopyCalendarFeed = async (reset: boolean) => {
+    if (!feedWorkspace) return;
+    if (reset && !confirm(`Reset the ${feedWorkspace} calendar link? Calendars subscribed to the old link will stop updating.`)) {
+      return;
+    }
+
+    try {
+      const url = await getCalendarFeedUrl(feedWorkspace, reset);
+      await navigator.clipboard.writeText(url);
+      alert(`Calendar link for ${feedWorkspace} copied. Keep it private: anyone with it can see these bookings.`);
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+      alert('Failed to get the calendar link. Please try again.');
+    }
+  };
+
+  const handleCapturePayment = async (payment: Payment) => {
+    if (!confirm(`Capture the authorized payment of E£${payment.amount}?`)) {
+      return;
+    }
+
+    try {
+      await capturePayment(payment.id);
+      await fetchBookings();
+    } catch (error) {
+      console.error('Error capturing payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to capture payment. Please try again.');
+    }
+  };
+
+  const handleRefundPayment = async (payment: Payment) => {
+    const refundable = payment.amount - payment.refunded_amount;
+    const input = prompt(`Amount to refund (up to E£${refundable}):`, String(refundable));
+    if (input === null) {
+      return;
+    }
+
+    const amount = parseFloat(input);
+    if (!(amount > 0 && amount <= refundable)) {
+      alert(`Enter an amount between 0 and ${refundable}.`);
+      return;
+    }
+
+    try {
+      await refundPayment(payment.id, amount);
+      await fetchBookings();
+      alert(`Refunded E£${amount} through ${payment.provider}.`);
+    } catch (error) {
+      console.error('Error refunding payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to refund payment. Please try again.');
+    }
+  };
+
+  const handleDownloadInvoice = async (booking: AdminBooking) => {
+    try {
+      const invoice = await fetchInvoice(booking.id);
+      if (!invoice) {
+        alert('No invoice has been issued for this booking.');
+        return;
+      }
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      alert('Failed to download the invoice. Please try again.');
+    }
+  };
+
+  const handleCancelSeries = async (booking: AdminBooking) => {
+    if (!confirm(`Cancel every upcoming booking in ${booking.customer_name}'s series?`)) {
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('cancel_booking_series', { p_series_id: booking.series_id });
+    if (error) {
+      console.error('Error cancelling booking series:', error);
+      alert(getChangeErrorMessage(error));
+      return;
+    }
+
+    setEditingBooking(null);
+    await fetchBookings();
+    await fetchStats();
+    alert(`Cancelled ${(data as { cancelled: number }).cancelled} booking(s) in the series.`);
+  };
+
+  const handleRescheduleBooking = async (booking: AdminBooking, date: string, timeSlot: string) => {
+    if (editingBooking?.scope === 'series') {
+      const { data, error } = await supabase.rpc('reschedule_booking_series', {
+        p_series_id: booking.series_id,
+        p_time_slot: timeSlot
+      });
+
+      if (error) {
+        console.error('Error rescheduling booking series:', error);
+        alert(getChangeErrorMessage(error));
+        return;
+      }
+
+      const result = data as SeriesResult;
+      if (result.status === 'conflicts') {
+        alert(`The series could not be moved to ${timeSlot}:\n${formatSeriesConflicts(result.occurrences)}`);
+        return;
+      }
+    } else {
+      const { error } = await supabase.rpc('reschedule_booking', {
+        p_booking_id: booking.id,
+        p_date: date,
+        p_time_slot: timeSlot
+      });
+
+      if (error) {
+        console.error('Error rescheduling booking:', error);
+        alert(getChangeErrorMessage(error));
+        return;
+      }
+    }
+
+    setEditingBooking(null);
+    await fetchBookings();
+  };
+
   const statsCards = [
     {
       title: 'Total Bookings',
@@ -212,6 +962,9 @@ const AdminDashboard: React.FC = () => {
     }
   ];
 
+  // Looked up on every render so the drawer shows the refetched booking
+  const detailsBooking = bookings.find(b => b.id === detailsFor);
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -223,6 +976,13 @@ const AdminDashboard: React.FC = () => {
               <p className="text-gray-600">Manage your coworking space</p>
             </div>
             <div className="flex items-center space-x-4">
+              <Link
+                to="/check-in"
+                className="bg-yellow-500 text-black px-4 py-2 rounded-md text-sm font-medium hover:bg-yellow-600 transition-colors flex items-center"
+              >
+                <QrCode className="w-4 h-4 mr-2" />
+                Check-in
+              </Link>
               <span className="text-sm text-gray-500">Welcome back, {user.name}</span>
             </div>
           </div>
@@ -282,6 +1042,36 @@ const AdminDashboard: React.FC = () => {
               >
                 Analytics
               </button>
+              <button
+                onClick={() => setActiveTab('promos')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'promos'
+                    ? 'border-yellow-500 text-yellow-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Promo Codes
+              </button>
+              <button
+                onClick={() => setActiveTab('waitlist')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'waitlist'
+                    ? 'border-yellow-500 text-yellow-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Waitlist{waitlist.length > 0 ? ` (${waitlist.length})` : ''}
+              </button>
+              <button
+                onClick={() => setActiveTab('members')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'members'
+                    ? 'border-yellow-500 text-yellow-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Members
+              </button>
             </nav>
           </div>
 
@@ -289,38 +1079,263 @@ const AdminDashboard: React.FC = () => {
           <div className="p-6">
             {activeTab === 'bookings' && (
               <div>
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Recent Bookings</h3>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Recent Bookings</h3>
+                  <div className="flex items-center space-x-3">
+                    {unpaidConfirmedCount > 0 && (
+                      <button
+                        onClick={() => updateFilters({ payment: filters.payment === 'outstanding' ? '' : 'outstanding' })}
+                        className={`text-sm px-3 py-1 rounded-full ${
+                          filters.payment === 'outstanding' ? 'bg-red-600 text-white' : 'bg-red-100 text-red-800 hover:bg-red-200'
+                        }`}
+                      >
+                        {filters.payment === 'outstanding' ? 'Show all bookings' : `${unpaidConfirmedCount} confirmed unpaid`}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setShowWalkInForm(!showWalkInForm)}
+                      className="bg-yellow-500 text-black px-4 py-2 rounded-md text-sm font-medium hover:bg-yellow-600 transition-colors flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      New Booking
+                    </button>
+                  </div>
+                </div>
+                {showWalkInForm && (
+                  <WalkInBookingForm
+                    onCreated={handleWalkInCreated}
+                    onCancel={() => setShowWalkInForm(false)}
+                  />
+                )}
+                <div className="flex items-center space-x-2 mb-4 text-sm">
+                  <span className="text-gray-600">Calendar feed:</span>
+                  <select
+                    value={feedWorkspace}
+                    onChange={(e) => setFeedWorkspace(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    <option value="">Select workspace type</option>
+                    {workspaceNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleCopyCalendarFeed(false)}
+                    disabled={!feedWorkspace}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Copy link
+                  </button>
+                  <button
+                    onClick={() => handleCopyCalendarFeed(true)}
+                    disabled={!feedWorkspace}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Reset
+                  </button>
+                </div>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    updateFilters({ search: searchText.trim() });
+                  }}
+                  className="grid grid-cols-1 md:grid-cols-6 gap-2 mb-4 text-sm"
+                >
+                  <div className="relative md:col-span-2">
+                    <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                    <input
+                      type="text"
+                      value={searchText}
+                      onChange={(e) => setSearchText(e.target.value)}
+                      onBlur={() => searchText.trim() !== filters.search && updateFilters({ search: searchText.trim() })}
+                      placeholder="Search name, email, phone or code"
+                      className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                  </div>
+                  <select
+                    value={filters.status}
+                    onChange={(e) => updateFilters({ status: e.target.value as BookingFilters['status'] })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    <option value="">Any status</option>
+                    {['pending', 'confirmed', 'rejected', 'cancelled', 'expired'].map(status => (
+                      <option key={status} value={status}>{status}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.payment}
+                    onChange={(e) => updateFilters({ payment: e.target.value as BookingFilters['payment'] })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    <option value="">Any payment</option>
+                    <option value="outstanding">Confirmed, still owing</option>
+                    {(Object.keys(paymentStatusLabels) as PaymentStatus[]).map(status => (
+                      <option key={status} value={status}>{paymentStatusLabels[status]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={filters.workspace}
+                    onChange={(e) => updateFilters({ workspace: e.target.value })}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                  >
+                    <option value="">Any workspace</option>
+                    {workspaceNames.map(name => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                  <div className="flex items-center space-x-1">
+                    <input
+                      type="date"
+                      value={filters.from}
+                      onChange={(e) => updateFilters({ from: e.target.value })}
+                      title="From date"
+                      className="w-full px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                    <input
+                      type="date"
+                      value={filters.to}
+                      onChange={(e) => updateFilters({ to: e.target.value })}
+                      title="To date"
+                      className="w-full px-2 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                  </div>
+                </form>
+                {(hasBookingFilters(filters) || filters.sort !== 'created_at') && (
+                  <div className="flex items-center space-x-3 mb-4 text-sm">
+                    {filters.customer && (
+                      <span className="bg-yellow-100 text-yellow-800 px-3 py-1 rounded-full flex items-center">
+                        Customer: {filters.customer}
+                        <button
+                          onClick={() => updateFilters({ customer: '' })}
+                          className="ml-2 hover:text-yellow-900"
+                          title="Show every customer"
+                        >
+                          <XCircle className="w-3 h-3" />
+                        </button>
+                      </span>
+                    )}
+                    <button
+                      onClick={() => updateFilters({ ...defaultBookingFilters })}
+                      className="text-gray-600 hover:text-gray-900 underline"
+                    >
+                      Clear filters and sorting
+                    </button>
+                  </div>
+                )}
+                {bulkSummary && (
+                  <div className={`rounded-lg p-4 mb-4 border ${
+                    bulkSummary.failures.length > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'
+                  }`}>
+                    <div className="flex justify-between items-start">
+                      <p className="text-sm font-medium text-gray-900">
+                        {bulkSummary.action}: {bulkSummary.succeeded} succeeded
+                        {bulkSummary.failures.length > 0 && `, ${bulkSummary.failures.length} failed and still selected`}
+                      </p>
+                      <button
+                        onClick={() => setBulkSummary(null)}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Dismiss"
+                      >
+                        <XCircle className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {bulkSummary.failures.length > 0 && (
+                      <ul className="mt-2 text-sm text-gray-700 space-y-1">
+                        {bulkSummary.failures.map(({ booking, message }) => (
+                          <li key={booking.id}>
+                            {booking.customer_name}, {new Date(booking.date).toLocaleDateString()} {booking.time_slot}:{' '}
+                            <span className="text-red-600">{message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
                 {loading ? (
                   <div className="flex justify-center py-8">
                     <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-yellow-500"></div>
                   </div>
                 ) : bookings.length === 0 ? (
                   <div className="text-center py-8">
-                    <p className="text-gray-500">No bookings found.</p>
+                    <p className="text-gray-500">
+                      {hasBookingFilters(filters) ? 'No bookings match these filters.' : 'No bookings found.'}
+                    </p>
                   </div>
                 ) : (
+                <>
+                {selectedBookings.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3 bg-gray-900 text-white rounded-lg px-4 py-3 mb-4 text-sm">
+                    <span className="font-medium">{selectedBookings.length} selected</span>
+                    <button
+                      onClick={handleBulkConfirm}
+                      disabled={isBulkRunning}
+                      className="flex items-center hover:text-green-300 disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Confirm
+                    </button>
+                    <button
+                      onClick={handleBulkReject}
+                      disabled={isBulkRunning}
+                      className="flex items-center hover:text-red-300 disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4 mr-1" />
+                      Reject
+                    </button>
+                    <button
+                      onClick={handleBulkCancel}
+                      disabled={isBulkRunning}
+                      className="flex items-center hover:text-red-300 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleBulkMessage}
+                      disabled={isBulkRunning}
+                      className="flex items-center hover:text-yellow-300 disabled:opacity-50"
+                    >
+                      <MessageCircle className="w-4 h-4 mr-1" />
+                      Message
+                    </button>
+                    <button
+                      onClick={() => downloadBookingsCsv(selectedBookings)}
+                      disabled={isBulkRunning}
+                      className="flex items-center hover:text-yellow-300 disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      Export CSV
+                    </button>
+                    {isBulkRunning && <span className="text-gray-300">Working...</span>}
+                    <button
+                      onClick={() => setSelectedIds([])}
+                      disabled={isBulkRunning}
+                      className="ml-auto text-gray-300 hover:text-white disabled:opacity-50"
+                    >
+                      Clear selection
+                    </button>
+                  </div>
+                )}
                 <div className="overflow-x-auto">
                   <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50">
                       <tr>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Customer
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Workspace
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Date & Time
+                        <th className="pl-6 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedBookings.length === bookings.length}
+                            onChange={(e) => setSelectedIds(e.target.checked ? bookings.map(b => b.id) : [])}
+                            title="Select every booking on this page"
+                          />
                         </th>
+                        {renderSortableHeader('customer_name', 'Customer')}
+                        {renderSortableHeader('workspace_type', 'Workspace')}
+                        {renderSortableHeader('date', 'Date & Time')}
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Duration
                         </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Price
-                        </th>
-                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                          Status
-                        </th>
+                        {renderSortableHeader('total_price', 'Price')}
+                        {renderSortableHeader('status', 'Status')}
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Actions
                         </th>
@@ -328,16 +1343,33 @@ const AdminDashboard: React.FC = () => {
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                       {bookings.map((booking) => (
-                        <tr key={booking.id}>
+                        <React.Fragment key={booking.id}>
+                        <tr className={selectedIds.includes(booking.id) ? 'bg-yellow-50' : undefined}>
+                          <td className="pl-6 py-4">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.includes(booking.id)}
+                              onChange={() => toggleSelected(booking.id)}
+                            />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="flex items-center">
                               <div className="ml-4">
-                                <div className="text-sm font-medium text-gray-900">
+                                <button
+                                  onClick={() => setDetailsFor(booking.id)}
+                                  className="text-sm font-medium text-gray-900 hover:text-yellow-600"
+                                >
                                   {booking.customer_name}
-                                </div>
+                                </button>
                                 <div className="text-sm text-gray-500 flex items-center space-x-2">
                                   <Mail className="w-3 h-3" />
-                                  <span>{booking.customer_email}</span>
+                                  <button
+                                    onClick={() => updateFilters({ customer: booking.customer_email })}
+                                    className="hover:text-gray-900"
+                                    title="Show this customer's bookings"
+                                  >
+                                    {booking.customer_email}
+                                  </button>
                                 </div>
                                 <div className="text-sm text-gray-500 flex items-center space-x-2">
                                   <Phone className="w-3 h-3" />
@@ -352,16 +1384,57 @@ const AdminDashboard: React.FC = () => {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">{booking.workspace_type}</div>
+                            {booking.unit_name && (
+                              <div className="text-sm text-gray-500">{booking.unit_name}</div>
+                            )}
+                            {booking.attendee_name && (
+                              <div className="text-xs text-gray-500 flex items-center">
+                                <Users className="w-3 h-3 mr-1" />
+                                {booking.attendee_name}
+                              </div>
+                            )}
+                            {booking.checked_in_at && (
+                              <div className="text-xs text-green-600">
+                                Checked in {new Date(booking.checked_in_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {booking.checked_out_at &&
+                                  `, out ${new Date(booking.checked_out_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                              </div>
+                            )}
+                            {booking.no_show && (
+                              <div className="text-xs text-red-600">No-show</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">{new Date(booking.date).toLocaleDateString()}</div>
                             <div className="text-sm text-gray-500">{booking.time_slot}</div>
+                            {booking.series_id && (
+                              <div className="text-xs text-gray-500 flex items-center">
+                                <Repeat className="w-3 h-3 mr-1" />
+                                Series
+                              </div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">{booking.duration}</div>
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-900">${booking.total_price}</div>
+                            {booking.promo_code && (
+                              <div className="text-sm text-green-600">
+                                {booking.promo_code} (-${booking.discount_amount})
+                              </div>
+                            )}
+                            {booking.add_ons.length > 0 && (
+                              <div className="text-sm text-gray-500">
+                                {describeAddOns(booking.add_ons)} (+${booking.add_ons_total})
+                              </div>
+                            )}
+                            {booking.reschedule_fees > 0 && (
+                              <div className="text-sm text-gray-500">Reschedule fees: ${booking.reschedule_fees}</div>
+                            )}
+                            {booking.cancellation_fee > 0 && (
+                              <div className="text-sm text-red-600">Cancellation fee: ${booking.cancellation_fee}</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
@@ -369,16 +1442,67 @@ const AdminDashboard: React.FC = () => {
                                 ? 'bg-green-100 text-green-800'
                                 : booking.status === 'pending'
                                 ? 'bg-yellow-100 text-yellow-800'
+                                : booking.status === 'expired'
+                                ? 'bg-gray-100 text-gray-800'
                                 : 'bg-red-100 text-red-800'
                             }`}>
                               {booking.status}
                             </span>
+                            {(booking.payment_status !== 'unpaid' || isUnpaidConfirmed(booking)) && (
+                              <div className={`text-xs mt-1 ${
+                                booking.payment_status === 'paid'
+                                  ? 'text-green-600'
+                                  : isUnpaidConfirmed(booking)
+                                  ? 'text-red-600 font-semibold'
+                                  : 'text-gray-500'
+                              }`}>
+                                {paymentStatusLabels[booking.payment_status]}
+                                {payments[booking.id] && ` via ${payments[booking.id].provider}`}
+                              </div>
+                            )}
+                            {proofs[booking.id] && (
+                              <div className="text-xs text-yellow-700 mt-1">Transfer details sent</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                            <button
+                              onClick={() => setDetailsFor(booking.id)}
+                              className="text-gray-400 hover:text-gray-600"
+                              title="Details, history and notes"
+                            >
+                              <PanelRightOpen className="w-4 h-4" />
+                            </button>
+                            {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                              <button
+                                onClick={() => setRecordingPaymentFor(recordingPaymentFor === booking.id ? null : booking.id)}
+                                className="text-green-600 hover:text-green-900"
+                                title="Record payment"
+                              >
+                                <Wallet className="w-4 h-4" />
+                              </button>
+                            )}
+                            {payments[booking.id]?.status === 'authorized' && (
+                              <button
+                                onClick={() => handleCapturePayment(payments[booking.id])}
+                                className="text-green-600 hover:text-green-900"
+                                title="Capture payment"
+                              >
+                                <DollarSign className="w-4 h-4" />
+                              </button>
+                            )}
+                            {['succeeded', 'partially_refunded'].includes(payments[booking.id]?.status) && (
+                              <button
+                                onClick={() => handleRefundPayment(payments[booking.id])}
+                                className="text-red-600 hover:text-red-900"
+                                title="Refund payment"
+                              >
+                                <RotateCcw className="w-4 h-4" />
+                              </button>
+                            )}
                             {booking.status === 'pending' && (
                               <>
                                 <button
-                                  onClick={() => handleConfirmBooking(booking.id)}
+                                  onClick={() => handleConfirmBooking(booking)}
                                   className="text-green-600 hover:text-green-900"
                                 >
                                   <CheckCircle className="w-4 h-4" />
@@ -391,18 +1515,130 @@ const AdminDashboard: React.FC = () => {
                                 </button>
                               </>
                             )}
-                            <button className="text-blue-600 hover:text-blue-900">
-                              <Edit className="w-4 h-4" />
-                            </button>
-                            <button className="text-red-600 hover:text-red-900">
-                              <Trash2 className="w-4 h-4" />
-                            </button>
+                            {booking.status === 'confirmed' && (
+                              <button
+                                onClick={() => handleToggleCheckIn(booking)}
+                                className={booking.checked_in_at ? 'text-green-600 hover:text-green-900' : 'text-gray-400 hover:text-gray-600'}
+                                title={booking.checked_in_at ? 'Undo check-in' : 'Check in'}
+                              >
+                                <UserCheck className="w-4 h-4" />
+                              </button>
+                            )}
+                            {booking.status === 'confirmed' && (
+                              <button
+                                onClick={() => handleDownloadInvoice(booking)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Download invoice"
+                              >
+                                <FileText className="w-4 h-4" />
+                              </button>
+                            )}
+                            {(booking.status === 'pending' || booking.status === 'confirmed') && (
+                              <>
+                                <button
+                                  onClick={() => setEditingBooking(
+                                    editingBooking?.id === booking.id ? null : { id: booking.id, scope: 'booking' }
+                                  )}
+                                  className="text-blue-600 hover:text-blue-900"
+                                >
+                                  <Edit className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleCancelBooking(booking)}
+                                  className="text-red-600 hover:text-red-900"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </>
+                            )}
                           </td>
                         </tr>
+                        {recordingPaymentFor === booking.id && (
+                          <tr>
+                            <td colSpan={8} className="px-6 pb-4">
+                              <RecordPaymentForm
+                                bookingId={booking.id}
+                                proofs={proofs[booking.id] || []}
+                                onRecorded={async () => {
+                                  setRecordingPaymentFor(null);
+                                  await fetchBookings();
+                                }}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                        {editingBooking?.id === booking.id && (
+                          <tr>
+                            <td colSpan={8} className="px-6 pb-4">
+                              {booking.series_id && (
+                                <div className="flex items-center space-x-4 text-sm text-gray-700">
+                                  <label className="flex items-center">
+                                    <input
+                                      type="radio"
+                                      checked={editingBooking.scope === 'booking'}
+                                      onChange={() => setEditingBooking({ id: booking.id, scope: 'booking' })}
+                                      className="mr-1"
+                                    />
+                                    This booking
+                                  </label>
+                                  <label className="flex items-center">
+                                    <input
+                                      type="radio"
+                                      checked={editingBooking.scope === 'series'}
+                                      onChange={() => setEditingBooking({ id: booking.id, scope: 'series' })}
+                                      className="mr-1"
+                                    />
+                                    Whole series (time only)
+                                  </label>
+                                  <button
+                                    onClick={() => handleCancelSeries(booking)}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    Cancel whole series
+                                  </button>
+                                </div>
+                              )}
+                              <RescheduleForm
+                                key={editingBooking.scope}
+                                duration={booking.duration}
+                                initialDate={booking.date}
+                                dateLocked={editingBooking.scope === 'series'}
+                                onSubmit={(date, timeSlot) => handleRescheduleBooking(booking, date, timeSlot)}
+                                onCancel={() => setEditingBooking(null)}
+                              />
+                            </td>
+                          </tr>
+                        )}
+                        </React.Fragment>
                       ))}
                     </tbody>
                   </table>
                 </div>
+                <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+                  <span>
+                    Showing {(filters.page - 1) * BOOKINGS_PAGE_SIZE + 1}–{(filters.page - 1) * BOOKINGS_PAGE_SIZE + bookings.length} of {bookingCount}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => updateFilters({ page: filters.page - 1 })}
+                      disabled={filters.page <= 1}
+                      className="flex items-center px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ChevronLeft className="w-4 h-4 mr-1" />
+                      Previous
+                    </button>
+                    <span>Page {filters.page} of {Math.max(Math.ceil(bookingCount / BOOKINGS_PAGE_SIZE), 1)}</span>
+                    <button
+                      onClick={() => updateFilters({ page: filters.page + 1 })}
+                      disabled={filters.page * BOOKINGS_PAGE_SIZE >= bookingCount}
+                      className="flex items-center px-3 py-1 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4 ml-1" />
+                    </button>
+                  </div>
+                </div>
+                </>
                 )}
               </div>
             )}
@@ -416,13 +1652,495 @@ const AdminDashboard: React.FC = () => {
 
             {activeTab === 'analytics' && (
               <div>
-                <h3 className="text-lg font-medium text-gray-900 mb-4">Analytics & Reports</h3>
-                <p className="text-gray-600">Advanced analytics features coming soon...</p>
+                <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Attendance</h3>
+                  <div className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="date"
+                      value={attendanceRange.from}
+                      onChange={(e) => fetchAttendance({ ...attendanceRange, from: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                    <span className="text-gray-500">to</span>
+                    <input
+                      type="date"
+                      value={attendanceRange.to}
+                      onChange={(e) => fetchAttendance({ ...attendanceRange, to: e.target.value })}
+                      className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                  </div>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">
+                  Confirmed bookings that have ended. Used hours run from check-in to check-out, or to the end of the booking if nobody checked out.
+                </p>
+                {attendance.length === 0 ? (
+                  <p className="text-gray-600">No ended bookings in this period.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Workspace</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bookings</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Showed up</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No-shows</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Hours used / booked</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {attendance.map((row) => (
+                          <tr key={row.workspace_type}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.workspace_type}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{row.bookings}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {row.checked_in} ({Math.round((row.checked_in / row.bookings) * 100)}%)
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-red-600">{row.no_shows}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {row.used_hours} / {row.booked_hours}
+                              {row.booked_hours > 0 && ` (${Math.round((row.used_hours / row.booked_hours) * 100)}%)`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'promos' && (
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-medium text-gray-900">Promo Codes</h3>
+                  <button
+                    onClick={() => setShowPromoForm(!showPromoForm)}
+                    className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center"
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Code
+                  </button>
+                </div>
+
+                {showPromoForm && (
+                  <form onSubmit={handleCreatePromo} className="bg-gray-50 rounded-lg p-6 mb-6 space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <input
+                        type="text"
+                        placeholder="Code (e.g., SUMMER25)"
+                        value={newPromo.code}
+                        onChange={(e) => setNewPromo({ ...newPromo, code: e.target.value.toUpperCase() })}
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 uppercase"
+                      />
+                      <select
+                        value={newPromo.discount_type}
+                        onChange={(e) => setNewPromo({ ...newPromo, discount_type: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                      >
+                        <option value="percentage">Percentage off</option>
+                        <option value="fixed">Fixed amount off (E£)</option>
+                      </select>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0.01"
+                        max={newPromo.discount_type === 'percentage' ? 100 : undefined}
+                        placeholder="Discount value"
+                        value={newPromo.discount_value}
+                        onChange={(e) => setNewPromo({ ...newPromo, discount_value: e.target.value })}
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                      />
+                    </div>
+                    <input
+                      type="text"
+                      placeholder="Description (optional)"
+                      value={newPromo.description}
+                      onChange={(e) => setNewPromo({ ...newPromo, description: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-sm text-gray-600 mb-1">Valid from</label>
+                        <input
+                          type="datetime-local"
+                          value={newPromo.valid_from}
+                          onChange={(e) => setNewPromo({ ...newPromo, valid_from: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm text-gray-600 mb-1">Valid until</label>
+                        <input
+                          type="datetime-local"
+                          value={newPromo.valid_until}
+                          onChange={(e) => setNewPromo({ ...newPromo, valid_until: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm text-gray-600 mb-1">Total uses</label>
+                        <input
+                          type="number"
+                          min="1"
+                          placeholder="Unlimited"
+                          value={newPromo.max_uses}
+                          onChange={(e) => setNewPromo({ ...newPromo, max_uses: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm text-gray-600 mb-1">Uses per customer</label>
+                        <input
+                          type="number"
+                          min="1"
+                          placeholder="Unlimited"
+                          value={newPromo.max_uses_per_customer}
+                          onChange={(e) => setNewPromo({ ...newPromo, max_uses_per_customer: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-3 items-center">
+                      <span className="text-sm text-gray-600">Applies to:</span>
+                      {workspaceNames.map(name => (
+                        <label key={name} className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={newPromo.workspace_types.includes(name)}
+                            onChange={() => toggleNewPromoWorkspace(name)}
+                            className="mr-1"
+                          />
+                          {name}
+                        </label>
+                      ))}
+                      <span className="text-xs text-gray-500">(none selected = all workspaces)</span>
+                    </div>
+                    <div className="flex space-x-2">
+                      <button
+                        type="submit"
+                        className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors"
+                      >
+                        Create Code
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowPromoForm(false)}
+                        className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                {promoCodes.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No promo codes yet.</p>
+                  </div>
+                ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Code
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Discount
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Valid
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Applies To
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Redemptions
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Active
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {promoCodes.map((promo) => (
+                        <tr key={promo.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{promo.code}</div>
+                            {promo.description && (
+                              <div className="text-sm text-gray-500">{promo.description}</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatDiscount(promo)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatValidity(promo)}
+                          </td>
+                          <td className="px-6 py-4 text-sm text-gray-900">
+                            {promo.workspace_types.length > 0 ? promo.workspace_types.join(', ') : 'All workspaces'}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {redemptions[promo.code] || 0}{promo.max_uses ? ` / ${promo.max_uses}` : ''}
+                            </div>
+                            {promo.max_uses_per_customer && (
+                              <div className="text-sm text-gray-500">{promo.max_uses_per_customer} per customer</div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            <button
+                              onClick={() => togglePromoActive(promo)}
+                              className={promo.is_active ? 'text-green-600 hover:text-green-900' : 'text-gray-400 hover:text-gray-600'}
+                              title={promo.is_active ? 'Disable code' : 'Enable code'}
+                            >
+                              {promo.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'waitlist' && (
+              <div className="space-y-8">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Waitlist Depth by Day</h3>
+                  {waitlistDepth.length === 0 ? (
+                    <div className="text-center py-8">
+                      <p className="text-gray-500">Nobody is waiting for a slot.</p>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                      {waitlistDepth.map(([date, depth]) => (
+                        <div key={date} className="bg-gray-50 rounded-lg p-4">
+                          <p className="text-sm text-gray-600">{new Date(date).toLocaleDateString()}</p>
+                          <p className="text-2xl font-semibold text-gray-900">{depth.waiting + depth.offered}</p>
+                          {depth.offered > 0 && (
+                            <p className="text-xs text-yellow-600">{depth.offered} offered</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {waitlist.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Customer
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Slot
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {waitlist.map((entry) => (
+                        <tr key={entry.id}>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm font-medium text-gray-900">{entry.customer_name}</div>
+                            <div className="text-sm text-gray-500">{entry.customer_email}</div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{entry.workspace_type}</div>
+                            <div className="text-sm text-gray-500">
+                              {new Date(entry.date).toLocaleDateString()} · {entry.time_slot} · {entry.duration}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              entry.status === 'offered' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {entry.status}
+                            </span>
+                            {entry.status === 'offered' && entry.offer_expires_at && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                Until {new Date(entry.offer_expires_at).toLocaleTimeString()}
+                                {entry.notified_at ? ' · link sent' : ' · link not sent'}
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                            {entry.status === 'offered' && (
+                              <button
+                                onClick={() => handleSendClaimLink(entry)}
+                                className="text-green-600 hover:text-green-900"
+                                title="Send claim link"
+                              >
+                                <Send className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRemoveWaitlistEntry(entry)}
+                              className="text-red-600 hover:text-red-900"
+                              title="Remove from waitlist"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                )}
+              </div>
+            )}
+
+            {activeTab === 'members' && (
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Memberships</h3>
+
+                <form onSubmit={handleGrantMembership} className="bg-gray-50 rounded-lg p-6 mb-6 space-y-4">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <input
+                      type="email"
+                      placeholder="Customer account email"
+                      value={newGrant.email}
+                      onChange={(e) => setNewGrant({ ...newGrant, email: e.target.value })}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                    <select
+                      value={newGrant.plan_id}
+                      onChange={(e) => setNewGrant({ ...newGrant, plan_id: e.target.value })}
+                      required
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    >
+                      <option value="">Select a plan</option>
+                      {creditPlans.map(plan => (
+                        <option key={plan.id} value={plan.id}>
+                          {plan.name} ({plan.credit_unit === 'unlimited'
+                            ? 'unlimited'
+                            : `${plan.credit_amount} ${plan.credit_unit}(s)`} / {plan.term_days} days)
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="date"
+                      title="Starts on (defaults to today)"
+                      value={newGrant.starts_on}
+                      onChange={(e) => setNewGrant({ ...newGrant, starts_on: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                    />
+                  </div>
+                  {creditPlans.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      No pricing plan grants booking credits yet. Set a credit unit on a plan in the CMS.
+                    </p>
+                  )}
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Grant Membership
+                    </button>
+                  </div>
+                </form>
+
+                {memberships.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-gray-500">No memberships granted yet.</p>
+                  </div>
+                ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Member
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Plan
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Credit Left
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Status
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {memberships.map((membership) => (
+                        <tr key={membership.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {membership.customer_email}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{membership.plan_name}</div>
+                            <div className="text-sm text-gray-500">
+                              {new Date(membership.starts_on).toLocaleDateString()} – {new Date(membership.ends_on).toLocaleDateString()}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {formatCredit(membership)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              membership.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                            }`}>
+                              {membership.status}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                            {membership.status === 'active' && (
+                              <button
+                                onClick={() => handleCancelMembership(membership)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Cancel membership"
+                              >
+                                <XCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
+
+      {detailsBooking && (
+        <BookingDrawer
+          booking={detailsBooking}
+          payment={payments[detailsBooking.id]}
+          proofs={proofs[detailsBooking.id] || []}
+          workspaceTypes={workspaceNames}
+          onClose={() => setDetailsFor(null)}
+          onChanged={async () => {
+            await fetchBookings();
+            await fetchStats();
+          }}
+          onResendCode={handleResendCode}
+        />
+      )}
     </div>
   );
 };
@@ -1,9 +1,17 @@
 import React, { useState } from 'react';
 import { useEffect } from 'react';
-import { Calendar, Clock, User, Phone, Mail, MessageCircle } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
-import { useBooking } from '../contexts/BookingContext';
+import { Calendar, Clock, User, Phone, Mail, MessageCircle, Tag, Repeat, PackagePlus, Users, X, BadgeCheck } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { BookingData, useBooking } from '../contexts/BookingContext';
+import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
+import { BookingPeriod, getBookingPeriod, getDayBounds, getDurationHours, getPeakOverlap } from '../lib/bookingPeriod';
+import { BookingQuote, formatMultiplier, getBookingQuote } from '../lib/pricing';
+import { AddOn, AddOnSelection, fetchAddOns, formatAddOnLine, formatAddOnPrice } from '../lib/addOns';
+import { ClosureDate, OpeningHours, WEEKDAY_NAMES, generateTimeSlots, getClosureReason, getWeekday } from '../lib/openingHours';
+import { MAX_OCCURRENCES, RecurrenceFrequency, SeriesResult, describeRecurrence, getSeriesConflicts } from '../lib/recurrence';
+import { GroupResult, GroupSeatRequest, MAX_GROUP_SEATS, MIN_GROUP_SEATS, getFailedSeats, getGroupTotal } from '../lib/groupBookings';
+import { Membership, fetchMemberships, formatCredit, getCreditHours, getMembershipProblem } from '../lib/memberships';
 import { useContent } from '../hooks/useContent';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
@@ -16,41 +24,130 @@ interface WorkspaceType {
   price_unit: string;
   features: string[];
   is_active: boolean;
+  capacity: number;
+  unit_label: string;
 }
 
 const BookingPage: React.FC = () => {
   const navigate = useNavigate();
   const { setBookingData } = useBooking();
+  const { user } = useAuth();
   const { getContent, loading: contentLoading } = useContent();
   const [workspaceTypes, setWorkspaceTypes] = useState<WorkspaceType[]>([]);
   const [loading, setLoading] = useState(true);
-  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [bookedPeriods, setBookedPeriods] = useState<BookingPeriod[]>([]);
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<ClosureDate[]>([]);
   const [checkingAvailability, setCheckingAvailability] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState('');
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [selectedAddOns, setSelectedAddOns] = useState<AddOnSelection[]>([]);
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: 'weekly' as RecurrenceFrequency,
+    weekdays: [] as number[],
+    endType: 'count' as 'count' | 'until',
+    occurrences: '4',
+    until: ''
+  });
+  const [seriesCheck, setSeriesCheck] = useState<SeriesResult | null>(null);
+  const [checkingSeries, setCheckingSeries] = useState(false);
+  const [skipConflicts, setSkipConflicts] = useState(false);
+  const [group, setGroup] = useState({
+    enabled: false,
+    seats: [] as GroupSeatRequest[]
+  });
+  const [groupCheck, setGroupCheck] = useState<GroupResult | null>(null);
+  const [checkingGroup, setCheckingGroup] = useState(false);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [membershipId, setMembershipId] = useState('');
+  const [waitlistSlot, setWaitlistSlot] = useState('');
+  const [waitlistMessage, setWaitlistMessage] = useState('');
+  const [waitlistError, setWaitlistError] = useState('');
   
+  const today = new Date().toISOString().split('T')[0];
+
   const [formData, setFormData] = useState({
     workspaceType: '',
     date: '',
     timeSlot: '',
     duration: '',
-    customerName: '',
-    customerEmail: '',
+    customerName: user?.name || '',
+    customerEmail: user?.email || '',
     customerPhone: '',
     customerWhatsapp: ''
   });
 
   useEffect(() => {
     fetchWorkspaceTypes();
+    fetchSchedule();
+    fetchAddOns()
+      .then(setAddOns)
+      .catch(error => console.error('Error fetching add-ons:', error));
   }, []);
 
+  useEffect(() => {
+    if (user) {
+      fetchMemberships(user.id)
+        .then(setMemberships)
+        .catch(error => console.error('Error fetching memberships:', error));
+    }
+  }, [user]);
+
   // Fetch booked slots when workspace type or date changes
   useEffect(() => {
     if (formData.workspaceType && formData.date) {
       fetchBookedSlots();
     } else {
-      setBookedSlots([]);
+      setBookedPeriods([]);
     }
   }, [formData.workspaceType, formData.date]);
 
+  // Re-quote whenever anything that affects the price changes
+  useEffect(() => {
+    if (!formData.workspaceType || !formData.duration) {
+      setQuote(null);
+      return;
+    }
+
+    getBookingQuote(
+      formData.workspaceType,
+      formData.duration,
+      formData.date,
+      formData.timeSlot,
+      appliedPromoCode,
+      formData.customerEmail,
+      selectedAddOns
+    )
+      .then(setQuote)
+      .catch(error => {
+        console.error('Error fetching price quote:', error);
+        setQuote(null);
+      });
+  }, [
+    formData.workspaceType,
+    formData.duration,
+    formData.date,
+    formData.timeSlot,
+    formData.customerEmail,
+    appliedPromoCode,
+    selectedAddOns
+  ]);
+
+  // A series availability check is only valid for the schedule it was run for
+  useEffect(() => {
+    setSeriesCheck(null);
+    setSkipConflicts(false);
+  }, [formData.workspaceType, formData.duration, formData.date, formData.timeSlot, appliedPromoCode, recurrence]);
+
+  // Likewise for a group seat check
+  useEffect(() => {
+    setGroupCheck(null);
+  }, [formData.duration, formData.date, formData.timeSlot, appliedPromoCode, group]);
+
   const fetchWorkspaceTypes = async () => {
     try {
       const { data, error } = await supabase
@@ -68,42 +165,133 @@ const BookingPage: React.FC = () => {
     }
   };
 
+  const fetchSchedule = async () => {
+    try {
+      const [hoursResult, closuresResult] = await Promise.all([
+        supabase
+          .from('opening_hours')
+          .select('*')
+          .order('weekday', { ascending: true }),
+        supabase
+          .from('closure_dates')
+          .select('*')
+          .gte('date', new Date().toISOString().split('T')[0])
+          .order('date', { ascending: true })
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (closuresResult.error) throw closuresResult.error;
+
+      setOpeningHours(hoursResult.data || []);
+      setClosures(closuresResult.data || []);
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+    }
+  };
+
   const fetchBookedSlots = async () => {
     setCheckingAvailability(true);
     try {
+      // Any booking overlapping the selected day, including multi-day ones that started earlier
+      const day = getDayBounds(formData.date);
       const { data, error } = await supabase
-        .from('bookings')
-        .select('time_slot')
-        .eq('workspace_type', formData.workspaceType)
-        .eq('date', formData.date)
-        .in('status', ['pending', 'confirmed']);
+        .rpc('get_booked_periods', {
+          p_workspace_type: formData.workspaceType,
+          p_from: day.start,
+          p_to: day.end
+        });
 
       if (error) throw error;
 
-      const slots = data?.map(booking => booking.time_slot) || [];
-      setBookedSlots(slots);
+      const periods = (data as { starts_at: string; ends_at: string }[] | null)
+        ?.map(booking => ({ start: booking.starts_at, end: booking.ends_at })) || [];
+      setBookedPeriods(periods);
     } catch (error) {
       console.error('Error fetching booked slots:', error);
-      setBookedSlots([]);
+      setBookedPeriods([]);
     } finally {
       setCheckingAvailability(false);
     }
   };
 
-  const timeSlots = [
-    '9:00 AM', '10:00 AM', '11:00 AM', '12:00 PM',
-    '1:00 PM', '2:00 PM', '3:00 PM', '4:00 PM', '5:00 PM'
-  ];
+  // Slots follow the opening hours of the selected day; hourly durations
+  // must also end by closing time
+  const closureReason = formData.date ? getClosureReason(formData.date, openingHours, closures) : null;
+  const timeSlots = formData.date && !closureReason
+    ? generateTimeSlots(
+        openingHours.find(h => h.weekday === getWeekday(formData.date)),
+        getDurationHours(formData.duration) || 1
+      )
+    : [];
 
   const durations = [
-    { value: '1-hour', label: '1 Hour', multiplier: 1 },
-    { value: '2-hours', label: '2 Hours', multiplier: 2 },
-    { value: '4-hours', label: '4 Hours', multiplier: 4 },
-    { value: '1-day', label: '1 Day', multiplier: 1 },
-    { value: '1-week', label: '1 Week', multiplier: 7 },
-    { value: '1-month', label: '1 Month', multiplier: 30 }
+    { value: '1-hour', label: '1 Hour' },
+    { value: '2-hours', label: '2 Hours' },
+    { value: '4-hours', label: '4 Hours' },
+    { value: '1-day', label: '1 Day' },
+    { value: '1-week', label: '1 Week' },
+    { value: '1-month', label: '1 Month' }
   ];
 
+  const selectedWorkspace = workspaceTypes.find(w => w.name === formData.workspaceType);
+  const capacity = selectedWorkspace?.capacity || 1;
+
+  // Units still free for the whole selected duration starting at this slot
+  // (one hour is assumed until a duration is chosen)
+  const getUnitsLeft = (slot: string) => {
+    const period = getBookingPeriod(formData.date, slot, formData.duration || '1-hour');
+    if (!period) return 0;
+    return Math.max(capacity - getPeakOverlap(period, bookedPeriods), 0);
+  };
+
+  const formatUnitsLeft = (unitsLeft: number) => {
+    const label = selectedWorkspace?.unit_label || 'space';
+    return `${unitsLeft} of ${capacity} ${capacity === 1 ? label : `${label}s`} left`;
+  };
+
+  const bookedSlots = timeSlots.filter(slot => getUnitsLeft(slot) === 0);
+
+  const handleJoinWaitlist = async () => {
+    setWaitlistMessage('');
+    setWaitlistError('');
+
+    if (!formData.customerName || !formData.customerEmail || !formData.customerPhone || !formData.customerWhatsapp) {
+      setWaitlistError('Fill in your contact information below so we can reach you when the slot frees up.');
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('join_waitlist', {
+        p_workspace_type: formData.workspaceType,
+        p_date: formData.date,
+        p_time_slot: waitlistSlot,
+        p_duration: formData.duration || '1-hour',
+        p_customer_name: formData.customerName,
+        p_customer_email: formData.customerEmail,
+        p_customer_phone: formData.customerPhone,
+        p_customer_whatsapp: formData.customerWhatsapp
+      });
+
+      if (error) {
+        if (error.code === 'P0001') {
+          setWaitlistError(error.message);
+          return;
+        }
+        throw error;
+      }
+
+      const result = data as { status: 'joined' | 'already_joined'; position: number };
+      setWaitlistMessage(
+        `${result.status === 'joined' ? "You're on the waitlist" : "You're already on the waitlist"} for ${waitlistSlot} ` +
+        `(position ${result.position}). We'll send you a link to claim the slot if it frees up.`
+      );
+      setWaitlistSlot('');
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      setWaitlistError('Failed to join the waitlist. Please try again.');
+    }
+  };
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     
@@ -122,11 +310,237 @@ const BookingPage: React.FC = () => {
     }
   };
 
-   const saveBookingToDatabase = async (bookingData: any) => {
+  const toggleAddOn = (addOn: AddOn) => {
+    setSelectedAddOns(prev =>
+      prev.some(selected => selected.id === addOn.id)
+        ? prev.filter(selected => selected.id !== addOn.id)
+        : [...prev, { id: addOn.id, quantity: 1 }]
+    );
+  };
+
+  const setAddOnQuantity = (addOn: AddOn, quantity: number) => {
+    setSelectedAddOns(prev => prev.map(selected =>
+      selected.id === addOn.id
+        ? { ...selected, quantity: Math.min(Math.max(quantity || 1, 1), addOn.max_quantity) }
+        : selected
+    ));
+  };
+
+  const toggleRecurrence = () => {
+    // Series are booked without add-ons
+    setSelectedAddOns([]);
+    setRecurrence(prev => ({
+      ...prev,
+      enabled: !prev.enabled,
+      // Start weekly series on the weekday of the chosen date
+      weekdays: prev.weekdays.length === 0 && formData.date ? [getWeekday(formData.date)] : prev.weekdays
+    }));
+  };
+
+  const toggleGroup = () => {
+    // Groups are booked without add-ons
+    setSelectedAddOns([]);
+    setGroup(prev => ({
+      enabled: !prev.enabled,
+      // Start with the customer and one guest in the chosen workspace
+      seats: prev.seats.length > 0 ? prev.seats : [
+        { workspace_type: formData.workspaceType, attendee_name: formData.customerName },
+        { workspace_type: formData.workspaceType, attendee_name: '' }
+      ]
+    }));
+  };
+
+  const updateGroupSeat = (index: number, changes: Partial<GroupSeatRequest>) => {
+    setGroup(prev => ({
+      ...prev,
+      seats: prev.seats.map((seat, i) => (i === index ? { ...seat, ...changes } : seat))
+    }));
+  };
+
+  const addGroupSeat = () => {
+    setGroup(prev => ({
+      ...prev,
+      seats: [...prev.seats, { workspace_type: formData.workspaceType, attendee_name: '' }]
+    }));
+  };
+
+  const removeGroupSeat = (index: number) => {
+    setGroup(prev => ({ ...prev, seats: prev.seats.filter((_, i) => i !== index) }));
+  };
+
+  const toggleRecurrenceWeekday = (weekday: number) => {
+    setRecurrence(prev => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(weekday)
+        ? prev.weekdays.filter(d => d !== weekday)
+        : [...prev.weekdays, weekday]
+    }));
+  };
+
+  // Runs create_booking_series(); a dry run only checks every occurrence
+  const callCreateSeries = async (dryRun: boolean) => {
+    const { data, error } = await supabase.rpc('create_booking_series', {
+      p_workspace_type: formData.workspaceType,
+      p_date: formData.date,
+      p_time_slot: formData.timeSlot,
+      p_duration: formData.duration,
+      p_customer_name: formData.customerName,
+      p_customer_email: formData.customerEmail,
+      p_customer_phone: formData.customerPhone,
+      p_customer_whatsapp: formData.customerWhatsapp,
+      p_promo_code: appliedPromoCode || null,
+      p_frequency: recurrence.frequency,
+      p_weekdays: recurrence.frequency === 'weekly' ? recurrence.weekdays : [],
+      p_until: recurrence.endType === 'until' ? recurrence.until || null : null,
+      p_occurrences: recurrence.endType === 'count' ? parseInt(recurrence.occurrences) || null : null,
+      p_dry_run: dryRun,
+      p_skip_conflicts: skipConflicts
+    });
+
+    if (error) {
+      // Schedule rules raised by the function, e.g. no weekday chosen
+      if (error.code === 'P0001') {
+        setSubmitError(error.message);
+        return null;
+      }
+      throw error;
+    }
+
+    setSeriesCheck(data as SeriesResult);
+    return data as SeriesResult;
+  };
+
+  const handleCheckSeries = async () => {
+    setSubmitError('');
+    if (!formData.workspaceType || !formData.date || !formData.timeSlot || !formData.duration) {
+      setSubmitError('Choose a workspace, date, time and duration before checking the series.');
+      return;
+    }
+
+    setCheckingSeries(true);
     try {
-      const { data, error } = await supabase
+      await callCreateSeries(true);
+    } catch (error) {
+      console.error('Error checking series availability:', error);
+      setSubmitError('Failed to check availability. Please try again.');
+    } finally {
+      setCheckingSeries(false);
+    }
+  };
+
+  // Runs create_group_booking(); a dry run only checks every seat
+  const callCreateGroup = async (dryRun: boolean) => {
+    const { data, error } = await supabase.rpc('create_group_booking', {
+      p_date: formData.date,
+      p_time_slot: formData.timeSlot,
+      p_duration: formData.duration,
+      p_customer_name: formData.customerName,
+      p_customer_email: formData.customerEmail,
+      p_customer_phone: formData.customerPhone,
+      p_customer_whatsapp: formData.customerWhatsapp,
+      p_promo_code: appliedPromoCode || null,
+      p_seats: group.seats.map(seat => ({
+        workspace_type: seat.workspace_type || formData.workspaceType,
+        attendee_name: seat.attendee_name
+      })),
+      p_dry_run: dryRun
+    });
+
+    if (error) {
+      // Group rules raised by the function, e.g. a missing attendee name
+      if (error.code === 'P0001') {
+        setSubmitError(error.message);
+        return null;
+      }
+      throw error;
+    }
+
+    setGroupCheck(data as GroupResult);
+    return data as GroupResult;
+  };
+
+  const handleCheckGroup = async () => {
+    setSubmitError('');
+    if (!formData.date || !formData.timeSlot || !formData.duration) {
+      setSubmitError('Choose a date, time and duration before checking the seats.');
+      return;
+    }
+
+    setCheckingGroup(true);
+    try {
+      await callCreateGroup(true);
+    } catch (error) {
+      console.error('Error checking group availability:', error);
+      setSubmitError('Failed to check availability. Please try again.');
+    } finally {
+      setCheckingGroup(false);
+    }
+  };
+
+  const saveGroupToDatabase = async (bookingData: BookingData) => {
+    try {
+      const result = await callCreateGroup(false);
+      if (!result) return;
+
+      if (result.status !== 'created' || !result.booking_id) {
+        setSubmitError('Some seats are not available for this time. Change their workspace or choose another time.');
+        fetchBookedSlots();
+        return;
+      }
+
+      setBookingData({
+        ...bookingData,
+        discountAmount: result.seats.reduce((sum, seat) => sum + (seat.discount_amount || 0), 0),
+        totalPrice: getGroupTotal(result.seats),
+        attendees: result.seats.map(seat => `${seat.attendee_name} (${seat.workspace_type})`)
+      });
+
+      // The lead booking carries the confirmation code for the whole group
+      sessionStorage.setItem('currentBookingId', result.booking_id);
+      navigate('/confirmation');
+    } catch (error) {
+      console.error('Error saving group booking:', error);
+      alert('Failed to save booking. Please try again.');
+    }
+  };
+
+  const saveSeriesToDatabase = async (bookingData: BookingData) => {
+    try {
+      const result = await callCreateSeries(false);
+      if (!result) return;
+
+      if (result.status !== 'created' || !result.booking_id) {
+        setSubmitError('Some dates in this series are unavailable. Choose another time or book only the available dates.');
+        return;
+      }
+
+      const booked = (result.occurrences || []).filter(occurrence => !occurrence.error);
+      setBookingData({
+        ...bookingData,
+        discountAmount: booked.reduce((sum, occurrence) => sum + (occurrence.discount_amount || 0), 0),
+        totalPrice: booked.reduce((sum, occurrence) => sum + (occurrence.total_price || 0), 0),
+        recurrence: describeRecurrence(recurrence.frequency, recurrence.weekdays),
+        occurrences: booked.length
+      });
+
+      // The first occurrence carries the confirmation code for the whole series
+      sessionStorage.setItem('currentBookingId', result.booking_id);
+      navigate('/confirmation');
+    } catch (error) {
+      console.error('Error saving booking series:', error);
+      alert('Failed to save booking. Please try again.');
+    }
+  };
+
+   const saveBookingToDatabase = async (bookingData: BookingData) => {
+    try {
+      // Guests cannot read bookings back, so the id is generated here rather
+      // than returned from the insert
+      const bookingId = crypto.randomUUID();
+      const { error } = await supabase
         .from('bookings')
         .insert({
+          id: bookingId,
           workspace_type: bookingData.workspaceType,
           date: bookingData.date,
           time_slot: bookingData.timeSlot,
@@ -135,16 +549,36 @@ const BookingPage: React.FC = () => {
           customer_email: bookingData.customerEmail,
           customer_phone: bookingData.customerPhone,
           customer_whatsapp: bookingData.customerWhatsapp,
-          total_price: bookingData.totalPrice,
+          promo_code: bookingData.promoCode || null,
+          // Priced by the database trigger, like the promo code
+          add_ons: selectedAddOns,
+          // Checked and charged by the charge_bookings_membership trigger
+          membership_id: membership?.id || null,
+          // Links the booking to the customer's account for My Bookings
+          user_id: user?.id || null,
           status: 'pending'
-        })
-        .select()
-        .single();
+        });
 
-      if (error) throw error;
+      if (error) {
+        // Raised by the bookings_no_overlap exclusion constraint
+        if (error.code === '23P01') {
+          setSubmitError('Sorry, this workspace is fully booked for the selected time. Please choose another time slot.');
+          setFormData(prev => ({ ...prev, timeSlot: '' }));
+          fetchBookedSlots();
+          return;
+        }
+        // Booking rules raised by database triggers, e.g. outside opening hours
+        if (error.code === 'P0001') {
+          setSubmitError(error.message);
+          return;
+        }
+        throw error;
+      }
+
+      setBookingData(bookingData);
 
       // Store booking ID for later reference
-      sessionStorage.setItem('currentBookingId', data.id);
+      sessionStorage.setItem('currentBookingId', bookingId);
       
       // Navigate to confirmation page
       navigate('/confirmation');
@@ -155,29 +589,53 @@ const BookingPage: React.FC = () => {
     }
   };
   
-  const calculatePrice = () => {
-    const workspace = workspaceTypes.find(w => w.name === formData.workspaceType);
-    const duration = durations.find(d => d.value === formData.duration);
-    
-    if (!workspace || !duration) return 0;
-    
-    return workspace.price * duration.multiplier;
-  };
+  // Credit only pays for single bookings, like add-ons and promo codes
+  const membership = !group.enabled && !recurrence.enabled
+    ? memberships.find(m => m.id === membershipId) || null
+    : null;
+  const membershipProblem = membership
+    ? getMembershipProblem(membership, formData.workspaceType, formData.date, formData.duration)
+    : null;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    const totalPrice = calculatePrice();
+    setSubmitError('');
+
+    if (membershipProblem) {
+      setSubmitError(membershipProblem);
+      return;
+    }
+
+    if (quote?.promo_error && !membership) {
+      setSubmitError(quote.promo_error);
+      return;
+    }
+
+    if (quote?.add_ons_error) {
+      setSubmitError(quote.add_ons_error);
+      return;
+    }
     
     const bookingData = {
       ...formData,
-      totalPrice
+      promoCode: membership ? undefined : appliedPromoCode,
+      // Same quote the database trigger applies to the saved booking
+      discountAmount: membership ? 0 : quote?.discount_amount || 0,
+      addOns: quote?.add_ons || [],
+      // Membership credit covers everything but the add-ons
+      totalPrice: membership ? quote?.add_ons_total || 0 : quote?.total_price || 0,
+      membershipPlan: membership?.plan_name,
+      creditHours: membership ? getCreditHours(formData.duration) : undefined
     };
     
-    setBookingData(bookingData);
-    
     // Save booking to database immediately
-    saveBookingToDatabase(bookingData);
+    if (group.enabled) {
+      saveGroupToDatabase(bookingData);
+    } else if (recurrence.enabled) {
+      saveSeriesToDatabase(bookingData);
+    } else {
+      saveBookingToDatabase(bookingData);
+    }
   };
 
 
@@ -257,6 +715,9 @@ const BookingPage: React.FC = () => {
                                 <h4 className="font-semibold text-black text-lg">{workspace.name}</h4>
                                 <p className="text-gray-600 text-sm">{workspace.description}</p>
                                 <div className="text-yellow-600 font-bold text-xl">E£{workspace.price}/{workspace.price_unit}</div>
+                                <p className="text-xs text-gray-500">
+                                  {workspace.capacity} {workspace.capacity === 1 ? workspace.unit_label : `${workspace.unit_label}s`} available
+                                </p>
                                 {workspace.features && workspace.features.length > 0 && (
                                   <ul className="text-xs text-gray-500 space-y-1">
                                     {workspace.features.slice(0, 3).map((feature, idx) => (
@@ -287,9 +748,19 @@ const BookingPage: React.FC = () => {
                         value={formData.date}
                         onChange={handleChange}
                         required
-                        min={new Date().toISOString().split('T')[0]}
+                        min={today}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
                       />
+                      {closureReason && (
+                        <p className="text-sm text-red-500 mt-1">
+                          We're closed on this date ({closureReason}). Please choose a different date.
+                        </p>
+                      )}
+                      {closures.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Upcoming closures: {closures.slice(0, 3).map(c => new Date(c.date).toLocaleDateString()).join(', ')}
+                        </p>
+                      )}
                     </div>
 
                     <div>
@@ -302,7 +773,7 @@ const BookingPage: React.FC = () => {
                         value={formData.timeSlot}
                         onChange={handleChange}
                         required
-                        disabled={!formData.workspaceType || !formData.date || checkingAvailability}
+                        disabled={!formData.workspaceType || !formData.date || !!closureReason || checkingAvailability}
                         className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
                       >
                         <option value="">
@@ -316,7 +787,9 @@ const BookingPage: React.FC = () => {
                         {timeSlots
                           .filter(slot => !bookedSlots.includes(slot))
                           .map((slot) => (
-                            <option key={slot} value={slot}>{slot}</option>
+                            <option key={slot} value={slot}>
+                              {slot} ({formatUnitsLeft(getUnitsLeft(slot))})
+                            </option>
                           ))}
                       </select>
                       {formData.workspaceType && formData.date && bookedSlots.length > 0 && (
@@ -324,7 +797,33 @@ const BookingPage: React.FC = () => {
                           Unavailable slots: {bookedSlots.join(', ')}
                         </p>
                       )}
-                      {formData.workspaceType && formData.date && bookedSlots.length === timeSlots.length && (
+                      {formData.workspaceType && formData.date && bookedSlots.length > 0 && (
+                        <div className="mt-2">
+                          <div className="flex space-x-2">
+                            <select
+                              value={waitlistSlot}
+                              onChange={(e) => setWaitlistSlot(e.target.value)}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                            >
+                              <option value="">Join the waitlist for a full slot</option>
+                              {bookedSlots.map(slot => (
+                                <option key={slot} value={slot}>{slot}</option>
+                              ))}
+                            </select>
+                            <button
+                              type="button"
+                              onClick={handleJoinWaitlist}
+                              disabled={!waitlistSlot}
+                              className="px-4 py-2 bg-black text-white rounded-md text-sm hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              Join Waitlist
+                            </button>
+                          </div>
+                          {waitlistError && <p className="text-sm text-red-600 mt-1">{waitlistError}</p>}
+                          {waitlistMessage && <p className="text-sm text-green-600 mt-1">{waitlistMessage}</p>}
+                        </div>
+                      )}
+                      {formData.workspaceType && formData.date && !closureReason && bookedSlots.length === timeSlots.length && (
                         <p className="text-sm text-red-500 mt-1">
                           No available slots for this date. Please choose a different date.
                         </p>
@@ -356,6 +855,295 @@ const BookingPage: React.FC = () => {
                   </div>
                 </AnimatedSection>
 
+                {/* Recurrence */}
+                <AnimatedSection animation="slideUp" delay={700} duration={600}>
+                  <div>
+                    <h3 className="text-xl font-semibold text-black mb-4 flex items-center">
+                      <Repeat className="w-5 h-5 mr-2" />
+                      Repeat Booking
+                    </h3>
+                    {!user ? (
+                      <p className="text-sm text-gray-600">
+                        <Link to="/login" className="text-yellow-600 hover:text-yellow-700 font-medium">Sign in</Link>
+                        {' '}to book the same workspace on a regular schedule.
+                      </p>
+                    ) : (
+                      <div className="space-y-4">
+                        <label className="flex items-center text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={recurrence.enabled}
+                            onChange={toggleRecurrence}
+                            disabled={group.enabled}
+                            className="mr-2"
+                          />
+                          Repeat this booking
+                          {group.enabled && <span className="text-gray-500 ml-1">(not available for group bookings)</span>}
+                        </label>
+
+                        {recurrence.enabled && (
+                          <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+                                <select
+                                  value={recurrence.frequency}
+                                  onChange={(e) => setRecurrence(prev => ({ ...prev, frequency: e.target.value as RecurrenceFrequency }))}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                >
+                                  <option value="weekly">Weekly on chosen days</option>
+                                  <option value="daily">Every day we are open</option>
+                                </select>
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-2">Ends</label>
+                                <div className="flex space-x-2">
+                                  <select
+                                    value={recurrence.endType}
+                                    onChange={(e) => setRecurrence(prev => ({ ...prev, endType: e.target.value as 'count' | 'until' }))}
+                                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  >
+                                    <option value="count">After</option>
+                                    <option value="until">On</option>
+                                  </select>
+                                  {recurrence.endType === 'count' ? (
+                                    <input
+                                      type="number"
+                                      min="1"
+                                      max={MAX_OCCURRENCES}
+                                      value={recurrence.occurrences}
+                                      onChange={(e) => setRecurrence(prev => ({ ...prev, occurrences: e.target.value }))}
+                                      required
+                                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                    />
+                                  ) : (
+                                    <input
+                                      type="date"
+                                      min={formData.date || today}
+                                      value={recurrence.until}
+                                      onChange={(e) => setRecurrence(prev => ({ ...prev, until: e.target.value }))}
+                                      required
+                                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                    />
+                                  )}
+                                </div>
+                                {recurrence.endType === 'count' && (
+                                  <p className="text-xs text-gray-500 mt-1">occurrences (up to {MAX_OCCURRENCES})</p>
+                                )}
+                              </div>
+                            </div>
+
+                            {recurrence.frequency === 'weekly' && (
+                              <div className="flex flex-wrap gap-3">
+                                {WEEKDAY_NAMES.map((name, weekday) => (
+                                  <label key={name} className="flex items-center text-sm text-gray-700">
+                                    <input
+                                      type="checkbox"
+                                      checked={recurrence.weekdays.includes(weekday)}
+                                      onChange={() => toggleRecurrenceWeekday(weekday)}
+                                      className="mr-1"
+                                    />
+                                    {name.slice(0, 3)}
+                                  </label>
+                                ))}
+                              </div>
+                            )}
+
+                            <button
+                              type="button"
+                              onClick={handleCheckSeries}
+                              disabled={checkingSeries}
+                              className="px-4 py-2 bg-black text-white rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {checkingSeries ? 'Checking...' : 'Check Availability'}
+                            </button>
+
+                            {seriesCheck?.occurrences && (
+                              <div className="space-y-2">
+                                <ul className="text-sm divide-y divide-gray-200 max-h-64 overflow-y-auto">
+                                  {seriesCheck.occurrences.map(occurrence => (
+                                    <li key={occurrence.date} className="flex justify-between py-1">
+                                      <span className="text-gray-700">{new Date(occurrence.date).toLocaleDateString()}</span>
+                                      {occurrence.error ? (
+                                        <span className="text-red-600">{occurrence.error}</span>
+                                      ) : (
+                                        <span className="text-gray-900">E£{occurrence.total_price}</span>
+                                      )}
+                                    </li>
+                                  ))}
+                                </ul>
+                                <p className="text-sm font-medium text-gray-900">
+                                  {seriesCheck.occurrences.length - getSeriesConflicts(seriesCheck.occurrences).length} of {seriesCheck.occurrences.length} dates available · Series total E£
+                                  {seriesCheck.occurrences.reduce((sum, occurrence) => sum + (occurrence.total_price || 0), 0)}
+                                </p>
+                                {getSeriesConflicts(seriesCheck.occurrences).length > 0 && (
+                                  <label className="flex items-center text-sm text-gray-700">
+                                    <input
+                                      type="checkbox"
+                                      checked={skipConflicts}
+                                      onChange={(e) => setSkipConflicts(e.target.checked)}
+                                      className="mr-2"
+                                    />
+                                    Book only the available dates
+                                  </label>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </AnimatedSection>
+
+                {/* Group Booking */}
+                <AnimatedSection animation="slideUp" delay={720} duration={600}>
+                  <div>
+                    <h3 className="text-xl font-semibold text-black mb-4 flex items-center">
+                      <Users className="w-5 h-5 mr-2" />
+                      Group Booking
+                    </h3>
+                    <label className="flex items-center text-sm text-gray-700 mb-4">
+                      <input
+                        type="checkbox"
+                        checked={group.enabled}
+                        onChange={toggleGroup}
+                        disabled={recurrence.enabled}
+                        className="mr-2"
+                      />
+                      Book seats for several people with one confirmation
+                      {recurrence.enabled && <span className="text-gray-500 ml-1">(not available for repeat bookings)</span>}
+                    </label>
+
+                    {group.enabled && (
+                      <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                        {group.seats.map((seat, index) => {
+                          const checked = groupCheck?.seats[index];
+                          return (
+                            <div key={index}>
+                              <div className="flex space-x-2">
+                                <input
+                                  type="text"
+                                  value={seat.attendee_name}
+                                  onChange={(e) => updateGroupSeat(index, { attendee_name: e.target.value })}
+                                  placeholder={`Attendee ${index + 1} name`}
+                                  required
+                                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                />
+                                <select
+                                  value={seat.workspace_type || formData.workspaceType}
+                                  onChange={(e) => updateGroupSeat(index, { workspace_type: e.target.value })}
+                                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                >
+                                  {workspaceTypes.map(type => (
+                                    <option key={type.id} value={type.name}>{type.name}</option>
+                                  ))}
+                                </select>
+                                <button
+                                  type="button"
+                                  onClick={() => removeGroupSeat(index)}
+                                  disabled={group.seats.length <= MIN_GROUP_SEATS}
+                                  className="px-2 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:cursor-not-allowed"
+                                  title="Remove seat"
+                                >
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                              {checked?.error && <p className="text-sm text-red-600 mt-1">{checked.error}</p>}
+                              {checked && !checked.error && (
+                                <p className="text-sm text-gray-600 mt-1">
+                                  {checked.unit_name ? `${checked.unit_name} · ` : ''}E£{checked.total_price}
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+
+                        <div className="flex space-x-2">
+                          <button
+                            type="button"
+                            onClick={addGroupSeat}
+                            disabled={group.seats.length >= MAX_GROUP_SEATS}
+                            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Add Seat
+                          </button>
+                          <button
+                            type="button"
+                            onClick={handleCheckGroup}
+                            disabled={checkingGroup}
+                            className="px-4 py-2 bg-black text-white rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {checkingGroup ? 'Checking...' : 'Check Seats'}
+                          </button>
+                        </div>
+
+                        {groupCheck && (
+                          <p className="text-sm font-medium text-gray-900">
+                            {groupCheck.seats.length - getFailedSeats(groupCheck.seats).length} of {groupCheck.seats.length} seats available · Group total E£{getGroupTotal(groupCheck.seats)}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Every seat is booked for the same date and time. Promo codes apply to each seat.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </AnimatedSection>
+
+                {/* Add-Ons */}
+                {addOns.length > 0 && (
+                  <AnimatedSection animation="slideUp" delay={750} duration={600}>
+                    <div>
+                      <h3 className="text-xl font-semibold text-black mb-4 flex items-center">
+                        <PackagePlus className="w-5 h-5 mr-2" />
+                        Add-Ons
+                      </h3>
+                      {recurrence.enabled || group.enabled ? (
+                        <p className="text-sm text-gray-600">Add-ons can only be added to single bookings.</p>
+                      ) : (
+                        <div className="space-y-3">
+                          {addOns.map(addOn => {
+                            const selected = selectedAddOns.find(item => item.id === addOn.id);
+                            return (
+                              <div key={addOn.id} className="flex items-start justify-between bg-gray-50 rounded-lg p-4">
+                                <label className="flex items-start text-sm text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={!!selected}
+                                    onChange={() => toggleAddOn(addOn)}
+                                    className="mr-3 mt-1"
+                                  />
+                                  <span>
+                                    <span className="font-medium text-gray-900">{addOn.name}</span>
+                                    <span className="text-yellow-600 ml-2">{formatAddOnPrice(addOn)}</span>
+                                    {addOn.description && (
+                                      <span className="block text-gray-500">{addOn.description}</span>
+                                    )}
+                                  </span>
+                                </label>
+                                {selected && addOn.max_quantity > 1 && (
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    max={addOn.max_quantity}
+                                    value={selected.quantity}
+                                    onChange={(e) => setAddOnQuantity(addOn, parseInt(e.target.value))}
+                                    className="w-20 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                )}
+                              </div>
+                            );
+                          })}
+                          {quote?.add_ons_error && (
+                            <p className="text-sm text-red-600">{quote.add_ons_error}</p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </AnimatedSection>
+                )}
+
                 {/* Customer Information */}
                 <AnimatedSection animation="slideUp" delay={800} duration={600}>
                   <div>
@@ -426,15 +1214,128 @@ const BookingPage: React.FC = () => {
                   </div>
                 </AnimatedSection>
 
+                {/* Membership Credit */}
+                {memberships.length > 0 && !group.enabled && !recurrence.enabled && (
+                  <AnimatedSection animation="slideUp" delay={850} duration={600}>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        <BadgeCheck className="w-4 h-4 inline mr-2" />
+                        Pay With Membership Credit
+                      </label>
+                      <select
+                        value={membershipId}
+                        onChange={(e) => setMembershipId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300"
+                      >
+                        <option value="">Pay for this booking</option>
+                        {memberships.map(m => (
+                          <option key={m.id} value={m.id}>
+                            {m.plan_name} ({formatCredit(m)} left)
+                          </option>
+                        ))}
+                      </select>
+                      {membershipProblem && (
+                        <p className="text-sm text-red-600 mt-1">{membershipProblem}</p>
+                      )}
+                      {membership && !membershipProblem && formData.duration && (
+                        <p className="text-sm text-green-600 mt-1">
+                          Uses {formatCredit(membership, getCreditHours(formData.duration))} of credit. Promo codes do not apply.
+                        </p>
+                      )}
+                    </div>
+                  </AnimatedSection>
+                )}
+
+                {/* Promo Code */}
+                <AnimatedSection animation="slideUp" delay={900} duration={600}>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      <Tag className="w-4 h-4 inline mr-2" />
+                      Promo Code (optional)
+                    </label>
+                    <div className="flex space-x-2">
+                      <input
+                        type="text"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        placeholder="Enter promo code"
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 transition-all duration-300 uppercase"
+                      />
+                      {appliedPromoCode ? (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setAppliedPromoCode('');
+                            setPromoInput('');
+                          }}
+                          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                        >
+                          Remove
+                        </button>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setAppliedPromoCode(promoInput.trim())}
+                          disabled={!promoInput.trim()}
+                          className="px-4 py-2 bg-black text-white rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Apply
+                        </button>
+                      )}
+                    </div>
+                    {appliedPromoCode && quote?.promo_error && (
+                      <p className="text-sm text-red-600 mt-1">{quote.promo_error}</p>
+                    )}
+                    {appliedPromoCode && quote && !quote.promo_error && (
+                      <p className="text-sm text-green-600 mt-1">Promo code {quote.promo_code} applied.</p>
+                    )}
+                  </div>
+                </AnimatedSection>
+
                 {/* Price Summary */}
-                {formData.workspaceType && formData.duration && (
+                {formData.workspaceType && formData.duration && quote && !group.enabled && (
                   <AnimatedSection animation="slideUp" delay={1000} duration={600}>
                     <div className="bg-gray-50 p-6 rounded-lg">
                       <h3 className="text-lg font-semibold text-black mb-2">Price Summary</h3>
-                      <div className="flex justify-between items-center">
+                      <div className="space-y-1 mb-2">
+                        <div className="flex justify-between text-sm">
+                          <span className="text-gray-600">Base price:</span>
+                          <span className="text-gray-900">E£{quote.base_price}</span>
+                        </div>
+                        {quote.adjustments.map((adjustment) => (
+                          <div key={adjustment.name} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{adjustment.name}:</span>
+                            <span className="text-gray-900">{formatMultiplier(adjustment.multiplier)}</span>
+                          </div>
+                        ))}
+                        {quote.discount_amount > 0 && !membership && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">Promo {quote.promo_code}:</span>
+                            <span className="text-green-600">-E£{quote.discount_amount}</span>
+                          </div>
+                        )}
+                        {membership && (
+                          <div className="flex justify-between text-sm">
+                            <span className="text-gray-600">{membership.plan_name} credit:</span>
+                            <span className="text-green-600">-E£{quote.subtotal}</span>
+                          </div>
+                        )}
+                        {quote.add_ons.map((line) => (
+                          <div key={line.id} className="flex justify-between text-sm">
+                            <span className="text-gray-600">{formatAddOnLine(line)}:</span>
+                            <span className="text-gray-900">+E£{line.amount}</span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="flex justify-between items-center border-t pt-2">
                         <span className="text-gray-600">Total Cost:</span>
-                        <span className="text-2xl font-bold text-yellow-600">E£{calculatePrice()}</span>
+                        <span className="text-2xl font-bold text-yellow-600">
+                          E£{membership ? quote.add_ons_total : quote.total_price}
+                        </span>
                       </div>
+                      {(!formData.date || !formData.timeSlot) && (
+                        <p className="text-xs text-gray-500 mt-2">Select a date and time to include peak and weekend pricing.</p>
+                      )}
                     </div>
                   </AnimatedSection>
                 )}
@@ -442,6 +1343,11 @@ const BookingPage: React.FC = () => {
                 {/* Submit Button */}
                 <AnimatedSection animation="slideUp" delay={1200} duration={600}>
                   <div className="text-center">
+                    {submitError && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                        <p className="text-red-800 text-sm">{submitError}</p>
+                      </div>
+                    )}
                     <button
                       type="submit"
                       className="bg-yellow-500 text-black px-8 py-4 rounded-lg text-lg font-semibold hover:bg-yellow-600 transition-all duration-300 transform hover:scale-105"
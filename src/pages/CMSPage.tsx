@@ -6,6 +6,8 @@ import { Navigate } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { ClosureDate, OpeningHours, WEEKDAY_NAMES } from '../lib/openingHours';
+import { AddOn, formatAddOnPrice } from '../lib/addOns';
 import { 
   FileText, 
   Image, 
@@ -21,7 +23,8 @@ import {
   Users,
   BarChart3,
   DollarSign,
-  HelpCircle
+  HelpCircle,
+  Clock
 } from 'lucide-react';
 
 interface ContentItem {
@@ -59,10 +62,46 @@ interface WorkspaceType {
   image_url?: string;
   features: string[];
   is_active: boolean;
+  capacity: number;
+  unit_label: string;
+  unit_names: string[];
+  hourly_rate: number | null;
+  daily_rate: number | null;
+  weekly_rate: number | null;
+  monthly_rate: number | null;
   created_at: string;
   updated_at: string;
 }
 
+interface PricingRule {
+  id: string;
+  name: string;
+  workspace_type: string | null;
+  weekdays: number[];
+  starts_at: string | null;
+  ends_at: string | null;
+  multiplier: number;
+  is_active: boolean;
+  display_order: number;
+}
+
+const RATE_FIELDS = [
+  { key: 'hourly_rate', label: 'Hourly rate' },
+  { key: 'daily_rate', label: 'Daily rate' },
+  { key: 'weekly_rate', label: 'Weekly rate' },
+  { key: 'monthly_rate', label: 'Monthly rate' }
+] as const;
+
+// Empty rate inputs mean "derive from the advertised price"
+const parseRate = (value: string | number | null | undefined) =>
+  value === '' || value === null || value === undefined ? null : Number(value);
+
+// Named seats/rooms are edited as a comma-separated list, like features
+const parseUnitNames = (value: string | string[]) =>
+  Array.isArray(value)
+    ? value
+    : value.split(',').map(n => n.trim()).filter(n => n.length > 0);
+
 const CMSPage: React.FC = () => {
   const { user } = useAuth();
   const { 
@@ -123,7 +162,43 @@ const CMSPage: React.FC = () => {
     price: '',
     price_unit: 'day',
     features: [''],
-    image_url: ''
+    image_url: '',
+    capacity: '1',
+    unit_label: 'desk',
+    unit_names: '',
+    hourly_rate: '',
+    daily_rate: '',
+    weekly_rate: '',
+    monthly_rate: ''
+  });
+
+  const [openingHours, setOpeningHours] = useState<OpeningHours[]>([]);
+  const [closures, setClosures] = useState<ClosureDate[]>([]);
+  const [newClosure, setNewClosure] = useState({
+    date: '',
+    closure_type: 'holiday',
+    reason: ''
+  });
+
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [showNewRuleForm, setShowNewRuleForm] = useState(false);
+  const [newRule, setNewRule] = useState({
+    name: '',
+    workspace_type: '',
+    weekdays: [] as number[],
+    starts_at: '',
+    ends_at: '',
+    multiplier: '1'
+  });
+
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+  const [showNewAddOnForm, setShowNewAddOnForm] = useState(false);
+  const [newAddOn, setNewAddOn] = useState({
+    name: '',
+    description: '',
+    price: '',
+    unit: 'booking',
+    max_quantity: '1'
   });
 
   if (!user || user.role !== 'admin') {
@@ -132,8 +207,332 @@ const CMSPage: React.FC = () => {
 
   useEffect(() => {
     fetchWorkspaceTypes();
+    fetchSchedule();
+    fetchPricingRules();
+    fetchAddOns();
   }, []);
 
+  const fetchPricingRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pricing_rules')
+        .select('*')
+        .order('display_order', { ascending: true });
+
+      if (error) throw error;
+      setPricingRules(data || []);
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+    }
+  };
+
+  const toggleWeekday = (weekdays: number[], weekday: number) =>
+    weekdays.includes(weekday)
+      ? weekdays.filter(d => d !== weekday)
+      : [...weekdays, weekday].sort();
+
+  const handleCreateRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase
+        .from('pricing_rules')
+        .insert({
+          name: newRule.name,
+          workspace_type: newRule.workspace_type || null,
+          weekdays: newRule.weekdays,
+          starts_at: newRule.starts_at || null,
+          ends_at: newRule.ends_at || null,
+          multiplier: parseFloat(newRule.multiplier),
+          display_order: pricingRules.length + 1,
+          is_active: true
+        });
+
+      if (error) throw error;
+
+      setNewRule({ name: '', workspace_type: '', weekdays: [], starts_at: '', ends_at: '', multiplier: '1' });
+      setShowNewRuleForm(false);
+      await fetchPricingRules();
+      toast.success('Pricing rule created successfully!');
+    } catch (error) {
+      console.error('Error creating pricing rule:', error);
+      toast.error('Failed to create pricing rule. Time windows need both a start and an end.');
+    }
+  };
+
+  const handleSaveRule = async (rule: PricingRule) => {
+    try {
+      const { error } = await supabase
+        .from('pricing_rules')
+        .update({
+          name: rule.name,
+          workspace_type: rule.workspace_type || null,
+          weekdays: rule.weekdays,
+          starts_at: rule.starts_at || null,
+          ends_at: rule.ends_at || null,
+          multiplier: Number(rule.multiplier),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      setEditingItem(null);
+      await fetchPricingRules();
+      toast.success('Pricing rule saved successfully!');
+    } catch (error) {
+      console.error('Error saving pricing rule:', error);
+      toast.error('Failed to save pricing rule');
+    }
+  };
+
+  const toggleRuleActive = async (rule: PricingRule) => {
+    try {
+      const { error } = await supabase
+        .from('pricing_rules')
+        .update({ is_active: !rule.is_active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+
+      await fetchPricingRules();
+      toast.success(`Pricing rule ${rule.is_active ? 'disabled' : 'enabled'} successfully!`);
+    } catch (error) {
+      console.error('Error toggling pricing rule:', error);
+      toast.error('Failed to update pricing rule');
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this pricing rule?')) {
+      try {
+        const { error } = await supabase
+          .from('pricing_rules')
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+
+        await fetchPricingRules();
+        toast.success('Pricing rule deleted successfully!');
+      } catch (error) {
+        console.error('Error deleting pricing rule:', error);
+        toast.error('Failed to delete pricing rule');
+      }
+    }
+  };
+
+  const fetchAddOns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('add_ons')
+        .select('*')
+        .order('display_order', { ascending: true });
+
+      if (error) throw error;
+      setAddOns(data || []);
+    } catch (error) {
+      console.error('Error fetching add-ons:', error);
+    }
+  };
+
+  const handleCreateAddOn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase
+        .from('add_ons')
+        .insert({
+          name: newAddOn.name,
+          description: newAddOn.description || null,
+          price: parseFloat(newAddOn.price),
+          unit: newAddOn.unit,
+          max_quantity: parseInt(newAddOn.max_quantity),
+          display_order: addOns.length + 1,
+          is_active: true
+        });
+
+      if (error) throw error;
+
+      setNewAddOn({ name: '', description: '', price: '', unit: 'booking', max_quantity: '1' });
+      setShowNewAddOnForm(false);
+      await fetchAddOns();
+      toast.success('Add-on created successfully!');
+    } catch (error) {
+      console.error('Error creating add-on:', error);
+      toast.error('Failed to create add-on. Names must be unique.');
+    }
+  };
+
+  const handleSaveAddOn = async (addOn: AddOn) => {
+    try {
+      const { error } = await supabase
+        .from('add_ons')
+        .update({
+          name: addOn.name,
+          description: addOn.description || null,
+          price: Number(addOn.price),
+          unit: addOn.unit,
+          max_quantity: Number(addOn.max_quantity),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', addOn.id);
+
+      if (error) throw error;
+
+      setEditingItem(null);
+      await fetchAddOns();
+      toast.success('Add-on saved successfully!');
+    } catch (error) {
+      console.error('Error saving add-on:', error);
+      toast.error('Failed to save add-on');
+    }
+  };
+
+  const toggleAddOnActive = async (addOn: AddOn) => {
+    try {
+      const { error } = await supabase
+        .from('add_ons')
+        .update({ is_active: !addOn.is_active })
+        .eq('id', addOn.id);
+
+      if (error) throw error;
+
+      await fetchAddOns();
+      toast.success(`Add-on ${addOn.is_active ? 'disabled' : 'enabled'} successfully!`);
+    } catch (error) {
+      console.error('Error toggling add-on:', error);
+      toast.error('Failed to update add-on');
+    }
+  };
+
+  // Bookings keep a copy of their add-ons, so deleting one does not change them
+  const handleDeleteAddOn = async (id: string) => {
+    if (window.confirm('Are you sure you want to delete this add-on?')) {
+      try {
+        const { error } = await supabase
+          .from('add_ons')
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+
+        await fetchAddOns();
+        toast.success('Add-on deleted successfully!');
+      } catch (error) {
+        console.error('Error deleting add-on:', error);
+        toast.error('Failed to delete add-on');
+      }
+    }
+  };
+
+  const describeRule = (rule: PricingRule) => {
+    const days = rule.weekdays.length > 0
+      ? rule.weekdays.map(d => WEEKDAY_NAMES[d].slice(0, 3)).join(', ')
+      : 'Every day';
+    const timeWindow = rule.starts_at && rule.ends_at
+      ? ` ${rule.starts_at.slice(0, 5)}-${rule.ends_at.slice(0, 5)} (hourly bookings)`
+      : '';
+    return `${rule.workspace_type || 'All workspaces'} · ${days}${timeWindow} · x${rule.multiplier}`;
+  };
+
+  const fetchSchedule = async () => {
+    try {
+      const [hoursResult, closuresResult] = await Promise.all([
+        supabase
+          .from('opening_hours')
+          .select('*')
+          .order('weekday', { ascending: true }),
+        supabase
+          .from('closure_dates')
+          .select('*')
+          .order('date', { ascending: true })
+      ]);
+
+      if (hoursResult.error) throw hoursResult.error;
+      if (closuresResult.error) throw closuresResult.error;
+
+      // Show every weekday even if it has no row yet
+      const hours = WEEKDAY_NAMES.map((_, weekday) =>
+        hoursResult.data?.find(h => h.weekday === weekday) || {
+          weekday,
+          opens_at: '09:00',
+          closes_at: '17:00',
+          is_closed: false
+        }
+      );
+
+      setOpeningHours(hours);
+      setClosures(closuresResult.data || []);
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+    }
+  };
+
+  const updateOpeningHours = (weekday: number, data: Partial<OpeningHours>) => {
+    setOpeningHours(prev => prev.map(h => h.weekday === weekday ? { ...h, ...data } : h));
+  };
+
+  const handleSaveOpeningHours = async () => {
+    try {
+      const { error } = await supabase
+        .from('opening_hours')
+        .upsert(openingHours.map(h => ({
+          weekday: h.weekday,
+          opens_at: h.opens_at,
+          closes_at: h.closes_at,
+          is_closed: h.is_closed
+        })));
+
+      if (error) throw error;
+
+      await fetchSchedule();
+      toast.success('Opening hours saved successfully!');
+    } catch (error) {
+      console.error('Error saving opening hours:', error);
+      toast.error('Failed to save opening hours. Check that closing time is after opening time.');
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { error } = await supabase
+        .from('closure_dates')
+        .insert({
+          date: newClosure.date,
+          closure_type: newClosure.closure_type,
+          reason: newClosure.reason || null
+        });
+
+      if (error) throw error;
+
+      setNewClosure({ date: '', closure_type: 'holiday', reason: '' });
+      await fetchSchedule();
+      toast.success('Closure added successfully!');
+    } catch (error) {
+      console.error('Error adding closure:', error);
+      toast.error('Failed to add closure. The date may already be closed.');
+    }
+  };
+
+  const handleDeleteClosure = async (id: string) => {
+    if (window.confirm('Are you sure you want to remove this closure?')) {
+      try {
+        const { error } = await supabase
+          .from('closure_dates')
+          .delete()
+          .eq('id', id);
+
+        if (error) throw error;
+
+        await fetchSchedule();
+        toast.success('Closure removed successfully!');
+      } catch (error) {
+        console.error('Error removing closure:', error);
+        toast.error('Failed to remove closure');
+      }
+    }
+  };
+
   const fetchWorkspaceTypes = async () => {
     try {
       const { data, error } = await supabase
@@ -285,6 +684,13 @@ const CMSPage: React.FC = () => {
           price_unit: workspace.price_unit,
           image_url: workspace.image_url,
           features: featuresArray,
+          capacity: parseInt(workspace.capacity) || 1,
+          unit_label: workspace.unit_label,
+          unit_names: parseUnitNames(workspace.unit_names || ''),
+          hourly_rate: parseRate(workspace.hourly_rate),
+          daily_rate: parseRate(workspace.daily_rate),
+          weekly_rate: parseRate(workspace.weekly_rate),
+          monthly_rate: parseRate(workspace.monthly_rate),
           updated_at: new Date().toISOString()
         })
         .eq('id', workspace.id);
@@ -332,6 +738,13 @@ const CMSPage: React.FC = () => {
           price_unit: newWorkspace.price_unit,
           features: newWorkspace.features.filter(f => f.trim() !== ''),
           image_url: newWorkspace.image_url || null,
+          capacity: parseInt(newWorkspace.capacity) || 1,
+          unit_label: newWorkspace.unit_label,
+          unit_names: parseUnitNames(newWorkspace.unit_names),
+          hourly_rate: parseRate(newWorkspace.hourly_rate),
+          daily_rate: parseRate(newWorkspace.daily_rate),
+          weekly_rate: parseRate(newWorkspace.weekly_rate),
+          monthly_rate: parseRate(newWorkspace.monthly_rate),
           is_active: true
         });
 
@@ -345,7 +758,14 @@ const CMSPage: React.FC = () => {
         price: '',
         price_unit: 'day',
         features: [''],
-        image_url: ''
+        image_url: '',
+        capacity: '1',
+        unit_label: 'desk',
+        unit_names: '',
+        hourly_rate: '',
+        daily_rate: '',
+        weekly_rate: '',
+        monthly_rate: ''
       });
       fetchWorkspaceTypes();
     } catch (error) {
@@ -498,6 +918,17 @@ const CMSPage: React.FC = () => {
                   <DollarSign className="w-4 h-4 inline mr-2" />
                   Pricing ({pricingPlans.length + pricingFAQs.length})
                 </button>
+                <button
+                  onClick={() => setActiveTab('hours')}
+                  className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                    activeTab === 'hours'
+                      ? 'border-yellow-500 text-yellow-600'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  }`}
+                >
+                  <Clock className="w-4 h-4 inline mr-2" />
+                  Hours ({closures.length})
+                </button>
               </nav>
             </div>
 
@@ -831,6 +1262,62 @@ const CMSPage: React.FC = () => {
                               </div>
                             </div>
                             
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Capacity</label>
+                                <input
+                                  type="number"
+                                  min="1"
+                                  value={newWorkspace.capacity}
+                                  onChange={(e) => setNewWorkspace(prev => ({ ...prev, capacity: e.target.value }))}
+                                  required
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Unit Label</label>
+                                <input
+                                  type="text"
+                                  value={newWorkspace.unit_label}
+                                  onChange={(e) => setNewWorkspace(prev => ({ ...prev, unit_label: e.target.value }))}
+                                  placeholder="desk, office, room..."
+                                  required
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                />
+                              </div>
+                            </div>
+
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Named Seats/Rooms (optional)</label>
+                              <input
+                                type="text"
+                                value={newWorkspace.unit_names}
+                                onChange={(e) => setNewWorkspace(prev => ({ ...prev, unit_names: e.target.value }))}
+                                placeholder="Comma-separated, e.g. A1, A2, A3"
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <p className="text-xs text-gray-500 mt-1">When names are given, capacity equals the number of names.</p>
+                            </div>
+
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">Booking Rates (optional)</label>
+                              <div className="grid grid-cols-2 gap-2">
+                                {RATE_FIELDS.map(({ key, label }) => (
+                                  <input
+                                    key={key}
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={newWorkspace[key]}
+                                    onChange={(e) => setNewWorkspace(prev => ({ ...prev, [key]: e.target.value }))}
+                                    placeholder={label}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                ))}
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">Leave empty to derive from the price (8 hours/day, 7 days/week, 30 days/month).</p>
+                            </div>
+
                             <div>
                               <label className="block text-sm font-medium text-gray-700 mb-1">Image URL (optional)</label>
                               <input
@@ -1024,6 +1511,44 @@ const CMSPage: React.FC = () => {
                                         <option value="month">per month</option>
                                       </select>
                                     </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                      <input
+                                        type="number"
+                                        min="1"
+                                        value={editingItem.capacity}
+                                        onChange={(e) => setEditingItem({...editingItem, capacity: e.target.value})}
+                                        placeholder="Capacity"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                      />
+                                      <input
+                                        type="text"
+                                        value={editingItem.unit_label}
+                                        onChange={(e) => setEditingItem({...editingItem, unit_label: e.target.value})}
+                                        placeholder="Unit label"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                      />
+                                    </div>
+                                    <input
+                                      type="text"
+                                      value={editingItem.unit_names}
+                                      onChange={(e) => setEditingItem({...editingItem, unit_names: e.target.value})}
+                                      placeholder="Named seats/rooms (comma-separated, optional)"
+                                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                    />
+                                    <div className="grid grid-cols-2 gap-2">
+                                      {RATE_FIELDS.map(({ key, label }) => (
+                                        <input
+                                          key={key}
+                                          type="number"
+                                          step="0.01"
+                                          min="0"
+                                          value={editingItem[key] ?? ''}
+                                          onChange={(e) => setEditingItem({...editingItem, [key]: e.target.value})}
+                                          placeholder={`${label} (optional)`}
+                                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                        />
+                                      ))}
+                                    </div>
                                     <input
                                       type="url"
                                       value={editingItem.image_url || ''}
@@ -1059,6 +1584,20 @@ const CMSPage: React.FC = () => {
                                     <h4 className="font-semibold text-gray-900">{workspace.name}</h4>
                                     <p className="text-gray-600 text-sm mt-1">{workspace.description}</p>
                                     <p className="text-yellow-600 font-bold mt-2">${workspace.price}/{workspace.price_unit}</p>
+                                    <p className="text-sm text-gray-500 mt-1">
+                                      Capacity: {workspace.capacity} {workspace.capacity === 1 ? workspace.unit_label : `${workspace.unit_label}s`}
+                                    </p>
+                                    {workspace.unit_names && workspace.unit_names.length > 0 && (
+                                      <p className="text-xs text-gray-500 mt-1">{workspace.unit_names.join(', ')}</p>
+                                    )}
+                                    {RATE_FIELDS.some(({ key }) => workspace[key] !== null) && (
+                                      <p className="text-xs text-gray-500 mt-1">
+                                        {RATE_FIELDS
+                                          .filter(({ key }) => workspace[key] !== null)
+                                          .map(({ key, label }) => `${label}: $${workspace[key]}`)
+                                          .join(' | ')}
+                                      </p>
+                                    )}
                                     <div className="mt-3">
                                       <p className="text-sm text-gray-500 mb-1">Features:</p>
                                       <ul className="text-sm text-gray-600">
@@ -1074,7 +1613,8 @@ const CMSPage: React.FC = () => {
                                       <button
                                         onClick={() => setEditingItem({
                                           ...workspace,
-                                          features: workspace.features.join(', ')
+                                          features: workspace.features.join(', '),
+                                          unit_names: (workspace.unit_names || []).join(', ')
                                         })}
                                         className="text-blue-600 hover:text-blue-900 flex items-center"
                                       >
@@ -1348,6 +1888,392 @@ const CMSPage: React.FC = () => {
               {activeTab === 'pricing' && (
                 <AnimatedSection animation="fadeIn" duration={400}>
                   <div>
+                    <div className="mb-8">
+                      <div className="flex justify-between items-center mb-6">
+                        <h3 className="text-lg font-medium text-gray-900">Booking Price Rules</h3>
+                        <button
+                          onClick={() => setShowNewRuleForm(!showNewRuleForm)}
+                          className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center"
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Rule
+                        </button>
+                      </div>
+
+                      {showNewRuleForm && (
+                        <AnimatedSection animation="slideDown" duration={400}>
+                          <form onSubmit={handleCreateRule} className="bg-gray-50 rounded-lg p-6 mb-6 space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <input
+                                type="text"
+                                placeholder="Rule name (e.g., Peak hours)"
+                                value={newRule.name}
+                                onChange={(e) => setNewRule({...newRule, name: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <select
+                                value={newRule.workspace_type}
+                                onChange={(e) => setNewRule({...newRule, workspace_type: e.target.value})}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              >
+                                <option value="">All workspaces</option>
+                                {workspaceTypes.map(w => (
+                                  <option key={w.id} value={w.name}>{w.name}</option>
+                                ))}
+                              </select>
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0.01"
+                                placeholder="Multiplier (e.g., 1.25)"
+                                value={newRule.multiplier}
+                                onChange={(e) => setNewRule({...newRule, multiplier: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                            </div>
+                            <div className="flex flex-wrap gap-3">
+                              {WEEKDAY_NAMES.map((day, weekday) => (
+                                <label key={day} className="flex items-center text-sm text-gray-700">
+                                  <input
+                                    type="checkbox"
+                                    checked={newRule.weekdays.includes(weekday)}
+                                    onChange={() => setNewRule({...newRule, weekdays: toggleWeekday(newRule.weekdays, weekday)})}
+                                    className="mr-1"
+                                  />
+                                  {day.slice(0, 3)}
+                                </label>
+                              ))}
+                              <span className="text-xs text-gray-500">(none selected = every day)</span>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                              <input
+                                type="time"
+                                value={newRule.starts_at}
+                                onChange={(e) => setNewRule({...newRule, starts_at: e.target.value})}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <input
+                                type="time"
+                                value={newRule.ends_at}
+                                onChange={(e) => setNewRule({...newRule, ends_at: e.target.value})}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500">Optional time window; rules with a window only apply to hourly bookings starting inside it.</p>
+                            <div className="flex space-x-2">
+                              <button
+                                type="submit"
+                                className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors"
+                              >
+                                Create Rule
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setShowNewRuleForm(false)}
+                                className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </form>
+                        </AnimatedSection>
+                      )}
+
+                      <div className="space-y-2">
+                        {pricingRules.map((rule) => (
+                          <div key={rule.id} className="bg-gray-50 rounded-lg p-4">
+                            {editingItem?.id === rule.id ? (
+                              <div className="space-y-4">
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                  <input
+                                    type="text"
+                                    value={editingItem.name}
+                                    onChange={(e) => setEditingItem({...editingItem, name: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <select
+                                    value={editingItem.workspace_type || ''}
+                                    onChange={(e) => setEditingItem({...editingItem, workspace_type: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  >
+                                    <option value="">All workspaces</option>
+                                    {workspaceTypes.map(w => (
+                                      <option key={w.id} value={w.name}>{w.name}</option>
+                                    ))}
+                                  </select>
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0.01"
+                                    value={editingItem.multiplier}
+                                    onChange={(e) => setEditingItem({...editingItem, multiplier: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </div>
+                                <div className="flex flex-wrap gap-3">
+                                  {WEEKDAY_NAMES.map((day, weekday) => (
+                                    <label key={day} className="flex items-center text-sm text-gray-700">
+                                      <input
+                                        type="checkbox"
+                                        checked={editingItem.weekdays.includes(weekday)}
+                                        onChange={() => setEditingItem({...editingItem, weekdays: toggleWeekday(editingItem.weekdays, weekday)})}
+                                        className="mr-1"
+                                      />
+                                      {day.slice(0, 3)}
+                                    </label>
+                                  ))}
+                                </div>
+                                <div className="grid grid-cols-2 gap-4">
+                                  <input
+                                    type="time"
+                                    value={editingItem.starts_at?.slice(0, 5) || ''}
+                                    onChange={(e) => setEditingItem({...editingItem, starts_at: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <input
+                                    type="time"
+                                    value={editingItem.ends_at?.slice(0, 5) || ''}
+                                    onChange={(e) => setEditingItem({...editingItem, ends_at: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </div>
+                                <div className="flex space-x-2">
+                                  <button
+                                    onClick={() => handleSaveRule(editingItem)}
+                                    className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors flex items-center"
+                                  >
+                                    <Save className="w-4 h-4 mr-2" />
+                                    Save
+                                  </button>
+                                  <button
+                                    onClick={() => setEditingItem(null)}
+                                    className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="flex justify-between items-start">
+                                <div>
+                                  <div className="flex items-center space-x-2 mb-1">
+                                    <h4 className="font-semibold text-gray-900">{rule.name}</h4>
+                                    {!rule.is_active && (
+                                      <span className="text-xs bg-red-100 text-red-600 px-2 py-1 rounded">
+                                        Disabled
+                                      </span>
+                                    )}
+                                  </div>
+                                  <p className="text-gray-600 text-sm">{describeRule(rule)}</p>
+                                </div>
+                                <div className="flex space-x-2 ml-4">
+                                  <button
+                                    onClick={() => toggleRuleActive(rule)}
+                                    className={`${rule.is_active ? 'text-green-600 hover:text-green-900' : 'text-gray-400 hover:text-gray-600'}`}
+                                    title={rule.is_active ? 'Disable rule' : 'Enable rule'}
+                                  >
+                                    {rule.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                  </button>
+                                  <button
+                                    onClick={() => setEditingItem(rule)}
+                                    className="text-blue-600 hover:text-blue-900"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteRule(rule.id)}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="mb-8">
+                      <div className="flex justify-between items-center mb-6">
+                        <h3 className="text-lg font-medium text-gray-900">Booking Add-Ons</h3>
+                        <button
+                          onClick={() => setShowNewAddOnForm(!showNewAddOnForm)}
+                          className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center"
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Add-On
+                        </button>
+                      </div>
+
+                      {showNewAddOnForm && (
+                        <AnimatedSection animation="slideDown" duration={400}>
+                          <form onSubmit={handleCreateAddOn} className="bg-gray-50 rounded-lg p-6 mb-6 space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                              <input
+                                type="text"
+                                placeholder="Name (e.g., Parking)"
+                                value={newAddOn.name}
+                                onChange={(e) => setNewAddOn({...newAddOn, name: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                placeholder="Price (E£)"
+                                value={newAddOn.price}
+                                onChange={(e) => setNewAddOn({...newAddOn, price: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <input
+                                type="text"
+                                placeholder="Per (e.g., hour, day, booking)"
+                                value={newAddOn.unit}
+                                onChange={(e) => setNewAddOn({...newAddOn, unit: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                              <input
+                                type="number"
+                                min="1"
+                                placeholder="Max per booking"
+                                value={newAddOn.max_quantity}
+                                onChange={(e) => setNewAddOn({...newAddOn, max_quantity: e.target.value})}
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                              />
+                            </div>
+                            <input
+                              type="text"
+                              placeholder="Description"
+                              value={newAddOn.description}
+                              onChange={(e) => setNewAddOn({...newAddOn, description: e.target.value})}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                            />
+                            <div className="flex space-x-2">
+                              <button
+                                type="submit"
+                                className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors"
+                              >
+                                Create Add-On
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setShowNewAddOnForm(false)}
+                                className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </form>
+                        </AnimatedSection>
+                      )}
+
+                      <div className="space-y-2">
+                        {addOns.map((addOn) => (
+                          <div key={addOn.id} className="bg-gray-50 rounded-lg p-4">
+                            {editingItem?.id === addOn.id ? (
+                              <div className="space-y-4">
+                                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                                  <input
+                                    type="text"
+                                    value={editingItem.name}
+                                    onChange={(e) => setEditingItem({...editingItem, name: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <input
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={editingItem.price}
+                                    onChange={(e) => setEditingItem({...editingItem, price: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <input
+                                    type="text"
+                                    value={editingItem.unit}
+                                    onChange={(e) => setEditingItem({...editingItem, unit: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                  <input
+                                    type="number"
+                                    min="1"
+                                    value={editingItem.max_quantity}
+                                    onChange={(e) => setEditingItem({...editingItem, max_quantity: e.target.value})}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                  />
+                                </div>
+                                <input
+                                  type="text"
+                                  value={editingItem.description || ''}
+                                  onChange={(e) => setEditingItem({...editingItem, description: e.target.value})}
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                />
+                                <div className="flex space-x-2">
+                                  <button
+                                    onClick={() => handleSaveAddOn(editingItem)}
+                                    className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors flex items-center"
+                                  >
+                                    <Save className="w-4 h-4 mr-2" />
+                                    Save
+                                  </button>
+                                  <button
+                                    onClick={() => setEditingItem(null)}
+                                    className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600 transition-colors"
+                                  >
+                                    Cancel
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              <div className="flex justify-between items-start">
+                                <div>
+                                  <div className="flex items-center space-x-2 mb-1">
+                                    <h4 className="font-semibold text-gray-900">{addOn.name}</h4>
+                                    {!addOn.is_active && (
+                                      <span className="text-xs bg-red-100 text-red-600 px-2 py-1 rounded">
+                                        Disabled
+                                      </span>
+                                    )}
+                                  </div>
+                                  <p className="text-gray-600 text-sm">
+                                    {formatAddOnPrice(addOn)} · up to {addOn.max_quantity} per booking
+                                    {addOn.description && ` · ${addOn.description}`}
+                                  </p>
+                                </div>
+                                <div className="flex space-x-2 ml-4">
+                                  <button
+                                    onClick={() => toggleAddOnActive(addOn)}
+                                    className={`${addOn.is_active ? 'text-green-600 hover:text-green-900' : 'text-gray-400 hover:text-gray-600'}`}
+                                    title={addOn.is_active ? 'Disable add-on' : 'Enable add-on'}
+                                  >
+                                    {addOn.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                  </button>
+                                  <button
+                                    onClick={() => setEditingItem(addOn)}
+                                    className="text-blue-600 hover:text-blue-900"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => handleDeleteAddOn(addOn.id)}
+                                    className="text-red-600 hover:text-red-900"
+                                  >
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
                     <div className="mb-8">
                       <h3 className="text-lg font-medium text-gray-900 mb-6">Pricing Plans</h3>
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -1386,6 +2312,48 @@ const CMSPage: React.FC = () => {
                                     rows={2}
                                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                                   />
+                                  <div>
+                                    <label className="block text-sm text-gray-600 mb-1">Membership booking credits</label>
+                                    <div className="grid grid-cols-3 gap-2">
+                                      <select
+                                        value={editingItem.credit_unit || ''}
+                                        onChange={(e) => setEditingItem({...editingItem, credit_unit: e.target.value || null})}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                      >
+                                        <option value="">None</option>
+                                        <option value="hour">Hours</option>
+                                        <option value="day">Days</option>
+                                        <option value="unlimited">Unlimited</option>
+                                      </select>
+                                      <input
+                                        type="number"
+                                        min="1"
+                                        value={editingItem.credit_amount ?? ''}
+                                        onChange={(e) => setEditingItem({...editingItem, credit_amount: e.target.value ? parseFloat(e.target.value) : null})}
+                                        placeholder="Amount"
+                                        disabled={!editingItem.credit_unit || editingItem.credit_unit === 'unlimited'}
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:bg-gray-100"
+                                      />
+                                      <input
+                                        type="number"
+                                        min="1"
+                                        value={editingItem.term_days ?? 30}
+                                        onChange={(e) => setEditingItem({...editingItem, term_days: parseInt(e.target.value) || 30})}
+                                        title="Term length in days"
+                                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                      />
+                                    </div>
+                                    <input
+                                      type="text"
+                                      value={(editingItem.workspace_types || []).join(', ')}
+                                      onChange={(e) => setEditingItem({
+                                        ...editingItem,
+                                        workspace_types: e.target.value.split(',').map((t: string) => t.trim()).filter(Boolean)
+                                      })}
+                                      placeholder="Workspace types (comma separated, empty for all)"
+                                      className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                                    />
+                                  </div>
                                   <div className="flex space-x-2">
                                     <button
                                       onClick={() => updatePricingPlan(editingItem.id, editingItem).then(() => setEditingItem(null))}
@@ -1408,6 +2376,11 @@ const CMSPage: React.FC = () => {
                                     <h4 className="font-semibold text-gray-900">{plan.name}</h4>
                                     <p className="text-2xl font-bold text-yellow-600">{plan.price} {plan.period}</p>
                                     <p className="text-gray-600 text-sm mt-1">{plan.description}</p>
+                                    {plan.credit_unit && (
+                                      <p className="text-green-600 text-sm mt-1">
+                                        {plan.credit_unit === 'unlimited' ? 'Unlimited' : `${plan.credit_amount} ${plan.credit_unit}(s) of`} booking credit every {plan.term_days} days
+                                      </p>
+                                    )}
                                     {plan.is_popular && (
                                       <span className="inline-block bg-yellow-100 text-yellow-800 text-xs px-2 py-1 rounded mt-2">
                                         Most Popular
@@ -1492,6 +2465,117 @@ const CMSPage: React.FC = () => {
                   </div>
                 </AnimatedSection>
               )}
+
+              {activeTab === 'hours' && (
+                <AnimatedSection animation="fadeIn" duration={400}>
+                  <div className="space-y-8">
+                    {/* Weekly Opening Hours */}
+                    <div>
+                      <div className="flex justify-between items-center mb-6">
+                        <h3 className="text-lg font-medium text-gray-900">Opening Hours</h3>
+                        <button
+                          onClick={handleSaveOpeningHours}
+                          className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 transition-colors flex items-center"
+                        >
+                          <Save className="w-4 h-4 mr-2" />
+                          Save Hours
+                        </button>
+                      </div>
+                      <div className="space-y-2">
+                        {openingHours.map((hours) => (
+                          <div key={hours.weekday} className="bg-gray-50 rounded-lg p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-center">
+                            <span className="font-semibold text-gray-900">{WEEKDAY_NAMES[hours.weekday]}</span>
+                            <input
+                              type="time"
+                              value={hours.opens_at.slice(0, 5)}
+                              onChange={(e) => updateOpeningHours(hours.weekday, { opens_at: e.target.value })}
+                              disabled={hours.is_closed}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50"
+                            />
+                            <input
+                              type="time"
+                              value={hours.closes_at.slice(0, 5)}
+                              onChange={(e) => updateOpeningHours(hours.weekday, { closes_at: e.target.value })}
+                              disabled={hours.is_closed}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 disabled:opacity-50"
+                            />
+                            <label className="flex items-center text-sm text-gray-700">
+                              <input
+                                type="checkbox"
+                                checked={hours.is_closed}
+                                onChange={(e) => updateOpeningHours(hours.weekday, { is_closed: e.target.checked })}
+                                className="mr-2"
+                              />
+                              Closed all day
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Holidays and Blackout Dates */}
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900 mb-4">Holidays &amp; Blackout Dates</h3>
+                      <form onSubmit={handleAddClosure} className="bg-gray-50 rounded-lg p-4 mb-4 grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <input
+                          type="date"
+                          value={newClosure.date}
+                          onChange={(e) => setNewClosure({...newClosure, date: e.target.value})}
+                          required
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                        <select
+                          value={newClosure.closure_type}
+                          onChange={(e) => setNewClosure({...newClosure, closure_type: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        >
+                          <option value="holiday">Holiday</option>
+                          <option value="blackout">Blackout</option>
+                        </select>
+                        <input
+                          type="text"
+                          placeholder="Reason (optional)"
+                          value={newClosure.reason}
+                          onChange={(e) => setNewClosure({...newClosure, reason: e.target.value})}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                        />
+                        <button
+                          type="submit"
+                          className="bg-yellow-500 text-black px-4 py-2 rounded-md hover:bg-yellow-600 transition-colors flex items-center justify-center"
+                        >
+                          <Plus className="w-4 h-4 mr-2" />
+                          Add Closure
+                        </button>
+                      </form>
+                      {closures.length === 0 ? (
+                        <p className="text-gray-500 text-sm">No closures scheduled.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {closures.map((closure) => (
+                            <div key={closure.id} className="bg-gray-50 rounded-lg p-4 flex justify-between items-center">
+                              <div>
+                                <span className="font-semibold text-gray-900">{new Date(closure.date).toLocaleDateString()}</span>
+                                <span className={`ml-2 text-xs px-2 py-1 rounded ${
+                                  closure.closure_type === 'holiday' ? 'bg-blue-100 text-blue-600' : 'bg-red-100 text-red-600'
+                                }`}>
+                                  {closure.closure_type}
+                                </span>
+                                {closure.reason && <p className="text-gray-600 text-sm mt-1">{closure.reason}</p>}
+                              </div>
+                              <button
+                                onClick={() => handleDeleteClosure(closure.id)}
+                                className="text-red-600 hover:text-red-900"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </AnimatedSection>
+              )}
             </div>
           </div>
         </AnimatedSection>
@@ -0,0 +1,216 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, Navigate, useSearchParams } from 'react-router-dom';
+import { Camera, CameraOff, CheckCircle, LogOut, AlertCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { CheckInResult, scanCheckIn } from '../lib/checkIn';
+
+// The Barcode Detection API is not in TypeScript's DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Ignore the same code while it stays in front of the camera
+const RESCAN_DELAY_MS = 5000;
+
+const resultMessages: Record<CheckInResult['action'], string> = {
+  checked_in: 'Checked in',
+  checked_out: 'Checked out',
+  already_checked_out: 'Already checked out'
+};
+
+const CheckInPage: React.FC = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState('');
+  const [isScanning, setIsScanning] = useState(false);
+  const [cameraOn, setCameraOn] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScan = useRef<{ code: string; at: number } | null>(null);
+  const canUseCamera = !!getBarcodeDetector() && !!navigator.mediaDevices;
+
+  const handleScan = async (value: string) => {
+    setIsScanning(true);
+    setError('');
+    setResult(null);
+
+    try {
+      setResult(await scanCheckIn(value));
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check in. Please try again.');
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  // Phone cameras open the QR link straight on this page
+  useEffect(() => {
+    const linkedCode = searchParams.get('code');
+    if (linkedCode && user?.role === 'admin') {
+      setSearchParams({}, { replace: true });
+      handleScan(linkedCode);
+    }
+  }, [searchParams, setSearchParams, user]);
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!cameraOn || !Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let interval: ReturnType<typeof setInterval> | undefined;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(mediaStream => {
+        stream = mediaStream;
+        if (!videoRef.current) return;
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+
+        interval = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          const [barcode] = await detector.detect(videoRef.current);
+          if (!barcode) return;
+
+          const now = Date.now();
+          if (lastScan.current?.code === barcode.rawValue && now - lastScan.current.at < RESCAN_DELAY_MS) return;
+          lastScan.current = { code: barcode.rawValue, at: now };
+          handleScan(barcode.rawValue);
+        }, 500);
+      })
+      .catch(err => {
+        console.error('Error starting camera:', err);
+        setError('Could not open the camera. Type the code instead.');
+        setCameraOn(false);
+      });
+
+    return () => {
+      clearInterval(interval);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [cameraOn]);
+
+  if (!user || user.role !== 'admin') {
+    return <Navigate to="/login" replace />;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      handleScan(code);
+    }
+  };
+
+  const booking = result?.booking;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-6">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Check-in</h1>
+              <p className="text-gray-600">Scan a booking's QR code to check it in, and again to check it out</p>
+            </div>
+            <Link to="/admin" className="text-sm text-gray-600 hover:text-gray-900">
+              Back to dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          {canUseCamera && (
+            <div>
+              <button
+                onClick={() => setCameraOn(!cameraOn)}
+                className="bg-yellow-500 text-black px-4 py-2 rounded-md font-medium hover:bg-yellow-600 transition-colors flex items-center"
+              >
+                {cameraOn ? <CameraOff className="w-4 h-4 mr-2" /> : <Camera className="w-4 h-4 mr-2" />}
+                {cameraOn ? 'Stop camera' : 'Scan with camera'}
+              </button>
+              {cameraOn && (
+                <video ref={videoRef} className="mt-4 w-full max-w-md rounded-lg bg-black" muted playsInline />
+              )}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={canUseCamera ? 'Or paste the code from the QR link' : 'Scan or paste the code from the QR link'}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+              autoFocus
+            />
+            <button
+              type="submit"
+              disabled={isScanning || !code.trim()}
+              className="bg-gray-900 text-white px-4 py-2 rounded-md hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {isScanning ? 'Checking...' : 'Check'}
+            </button>
+          </form>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center">
+            <AlertCircle className="w-5 h-5 text-red-500 mr-3 flex-shrink-0" />
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {result && booking && (
+          <div className={`rounded-lg p-6 border ${
+            result.action === 'checked_in'
+              ? 'bg-green-50 border-green-200'
+              : result.action === 'checked_out'
+              ? 'bg-blue-50 border-blue-200'
+              : 'bg-yellow-50 border-yellow-200'
+          }`}>
+            <div className="flex items-center mb-3">
+              {result.action === 'checked_in'
+                ? <CheckCircle className="w-6 h-6 text-green-500 mr-3" />
+                : <LogOut className="w-6 h-6 text-blue-500 mr-3" />}
+              <p className="text-xl font-semibold text-gray-900">
+                {resultMessages[result.action]}: {booking.attendee_name || booking.customer_name}
+              </p>
+            </div>
+            <div className="text-gray-700 space-y-1">
+              <p>
+                {booking.workspace_type}
+                {booking.unit_name && ` · ${booking.unit_name}`}
+              </p>
+              <p>
+                {new Date(booking.date).toLocaleDateString()} · {booking.time_slot} · {booking.duration}
+              </p>
+              {booking.checked_in_at && (
+                <p className="text-sm">
+                  In {new Date(booking.checked_in_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {booking.checked_out_at &&
+                    ` · out ${new Date(booking.checked_out_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckInPage;
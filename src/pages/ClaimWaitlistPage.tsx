@@ -0,0 +1,178 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Calendar, Clock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useBooking } from '../contexts/BookingContext';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface WaitlistOffer {
+  workspace_type: string;
+  date: string;
+  time_slot: string;
+  duration: string;
+  customer_name: string;
+  offer_expires_at: string | null;
+}
+
+interface ClaimedBooking {
+  id: string;
+  workspace_type: string;
+  date: string;
+  time_slot: string;
+  duration: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  customer_whatsapp: string;
+  total_price: number;
+}
+
+type OfferStatus = 'offered' | 'claimed' | 'expired' | 'waiting' | 'not_found' | 'unavailable';
+
+const getOfferMessage = (status: OfferStatus) => {
+  switch (status) {
+    case 'claimed':
+      return 'This slot has already been claimed.';
+    case 'expired':
+    case 'waiting':
+      return 'This offer has expired.';
+    case 'unavailable':
+      return 'Sorry, the slot was booked before you could claim it. You keep your place on the waitlist.';
+    default:
+      return 'We could not find this waitlist offer.';
+  }
+};
+
+const ClaimWaitlistPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { setBookingData } = useBooking();
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [status, setStatus] = useState<OfferStatus | null>(null);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (token) {
+      fetchOffer(token);
+    }
+  }, [token]);
+
+  const fetchOffer = async (claimToken: string) => {
+    try {
+      const { data, error } = await supabase.rpc('get_waitlist_offer', { p_token: claimToken });
+
+      if (error) throw error;
+
+      const result = data as { status: OfferStatus; entry?: WaitlistOffer };
+      setStatus(result.status);
+      setOffer(result.entry || null);
+    } catch (error) {
+      console.error('Error fetching waitlist offer:', error);
+      setStatus('not_found');
+    }
+  };
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    setError('');
+    try {
+      const { data, error } = await supabase.rpc('claim_waitlist_offer', { p_token: token });
+
+      if (error) throw error;
+
+      const result = data as { status: OfferStatus; booking?: ClaimedBooking };
+      if (result.status !== 'claimed' || !result.booking) {
+        setStatus(result.status);
+        return;
+      }
+
+      const booking = result.booking;
+      setBookingData({
+        workspaceType: booking.workspace_type,
+        date: booking.date,
+        timeSlot: booking.time_slot,
+        duration: booking.duration,
+        customerName: booking.customer_name,
+        customerEmail: booking.customer_email,
+        customerPhone: booking.customer_phone,
+        customerWhatsapp: booking.customer_whatsapp,
+        totalPrice: booking.total_price
+      });
+      sessionStorage.setItem('currentBookingId', booking.id);
+      navigate('/confirmation');
+    } catch (error) {
+      console.error('Error claiming waitlist offer:', error);
+      setError('Failed to claim the slot. Please try again.');
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-yellow-400 to-yellow-500 text-black py-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="text-center">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">A Slot Opened Up</h1>
+            <p className="text-xl md:text-2xl max-w-3xl mx-auto">
+              Claim the workspace you were waiting for
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+          {status === null ? (
+            <LoadingSpinner size="lg" text="Loading your offer..." />
+          ) : status === 'offered' && offer ? (
+            <div className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+              <div className="space-y-2">
+                <h3 className="text-xl font-semibold text-black">{offer.workspace_type}</h3>
+                <p className="text-gray-600 flex items-center">
+                  <Calendar className="w-4 h-4 mr-2" />
+                  {new Date(offer.date).toLocaleDateString()}
+                </p>
+                <p className="text-gray-600 flex items-center">
+                  <Clock className="w-4 h-4 mr-2" />
+                  {offer.time_slot} · {offer.duration}
+                </p>
+              </div>
+              {offer.offer_expires_at && (
+                <p className="text-sm text-gray-500">
+                  This offer is held for you until {new Date(offer.offer_expires_at).toLocaleString()}.
+                </p>
+              )}
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                  <p className="text-red-800 text-sm">{error}</p>
+                </div>
+              )}
+              <button
+                onClick={handleClaim}
+                disabled={isClaiming}
+                className="w-full bg-yellow-500 text-black py-3 rounded-lg font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isClaiming ? 'Claiming...' : 'Claim This Slot'}
+              </button>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg shadow-lg p-8 text-center space-y-4">
+              <p className="text-gray-700">{getOfferMessage(status)}</p>
+              <Link
+                to="/booking"
+                className="inline-block bg-yellow-500 text-black px-6 py-2 rounded-md font-medium hover:bg-yellow-600 transition-colors"
+              >
+                Book a Workspace
+              </Link>
+            </div>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ClaimWaitlistPage;
@@ -1,11 +1,22 @@
 import React, { useState } from 'react';
 import { useEffect } from 'react';
 import { MessageCircle, CheckCircle, AlertCircle, Phone, CreditCard } from 'lucide-react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useBooking } from '../contexts/BookingContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useContent } from '../hooks/useContent';
 import { supabase } from '../lib/supabase';
+import HoldCountdown from '../components/HoldCountdown';
+import PaymentProofForm from '../components/PaymentProofForm';
+import CheckInQrCode from '../components/CheckInQrCode';
+import { formatAddOnLine } from '../lib/addOns';
+import {
+  BookingPayment,
+  claimPaidBookingCode,
+  completeMockPayment,
+  createPaymentIntent,
+  fetchBookingPayment
+} from '../lib/payments';
 
 const ConfirmationPage: React.FC = () => {
   const navigate = useNavigate();
@@ -16,6 +27,51 @@ const ConfirmationPage: React.FC = () => {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState('');
   const [bookingId, setBookingId] = useState<string | null>(null);
+  const [payment, setPayment] = useState<BookingPayment | null>(null);
+  const [paidCode, setPaidCode] = useState<string | null>(() => sessionStorage.getItem('paidConfirmationCode'));
+  const [isPaying, setIsPaying] = useState(false);
+  const [paymentError, setPaymentError] = useState('');
+  const [searchParams] = useSearchParams();
+  // Set when the mock provider sends the customer back here as its checkout
+  const mockPaymentId = searchParams.get('mock_payment');
+
+  useEffect(() => {
+    // Get booking ID from session storage
+    const storedBookingId = sessionStorage.getItem('currentBookingId');
+    if (storedBookingId) {
+      setBookingId(storedBookingId);
+    }
+  }, []);
+
+  // Gateways report payments by webhook, so keep checking for the result
+  useEffect(() => {
+    if (!bookingId) return;
+
+    const checkPayment = () => {
+      fetchBookingPayment(bookingId)
+        .then(setPayment)
+        .catch(error => console.error('Error fetching payment status:', error));
+    };
+
+    checkPayment();
+    const interval = setInterval(checkPayment, 5000);
+    return () => clearInterval(interval);
+  }, [bookingId]);
+
+  // The code of a booking paid online is only handed out once, and only for
+  // the payment started here, so keep it for the rest of the visit
+  useEffect(() => {
+    const paymentId = sessionStorage.getItem('currentPaymentId');
+    if (!bookingId || !paymentId || paidCode || payment?.status !== 'confirmed' || payment?.payment_status !== 'paid') return;
+
+    claimPaidBookingCode(bookingId, paymentId)
+      .then(code => {
+        if (!code) return;
+        sessionStorage.setItem('paidConfirmationCode', code);
+        setPaidCode(code);
+      })
+      .catch(error => console.error('Error fetching confirmation code:', error));
+  }, [bookingId, paidCode, payment?.status, payment?.payment_status]);
 
   if (!bookingData) {
     // Try to get booking ID from session storage
@@ -26,13 +82,55 @@ const ConfirmationPage: React.FC = () => {
     }
   }
 
-  useEffect(() => {
-    // Get booking ID from session storage
-    const storedBookingId = sessionStorage.getItem('currentBookingId');
-    if (storedBookingId) {
-      setBookingId(storedBookingId);
+  const handlePayOnline = async () => {
+    if (!bookingId) return;
+    setIsPaying(true);
+    setPaymentError('');
+
+    try {
+      const intent = await createPaymentIntent(bookingId);
+      sessionStorage.setItem('currentPaymentId', intent.payment_id);
+      const checkoutUrl = new URL(intent.checkout_url);
+      if (checkoutUrl.origin === window.location.origin) {
+        navigate(checkoutUrl.pathname + checkoutUrl.search);
+      } else {
+        window.location.href = intent.checkout_url;
+      }
+    } catch (err) {
+      setPaymentError(err instanceof Error ? err.message : 'Failed to start the payment. Please try again.');
+    } finally {
+      setIsPaying(false);
     }
-  }, []);
+  };
+
+  const handleMockPayment = async (succeeded: boolean) => {
+    if (!mockPaymentId || !bookingId) return;
+    setIsPaying(true);
+    setPaymentError('');
+
+    try {
+      await completeMockPayment(mockPaymentId, succeeded);
+      setPayment(await fetchBookingPayment(bookingId));
+      navigate('/confirmation', { replace: true });
+    } catch (err) {
+      setPaymentError(err instanceof Error ? err.message : 'Failed to complete the test payment.');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handlePaidContinue = () => {
+    sessionStorage.removeItem('currentBookingId');
+    sessionStorage.removeItem('currentPaymentId');
+    sessionStorage.removeItem('paidConfirmationCode');
+    clearBookingData();
+    navigate('/', {
+      state: { message: 'Payment received and booking confirmed! We will contact you shortly.' }
+    });
+  };
+
+  const isPaidOnline = payment?.status === 'confirmed' && payment.payment_status === 'paid';
+  const canPayOnline = payment?.status === 'pending' && payment.payment_status === 'unpaid';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -81,6 +179,8 @@ const ConfirmationPage: React.FC = () => {
       <section className="py-20">
         <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="bg-white rounded-lg shadow-lg p-8">
+            {bookingId && <HoldCountdown bookingId={bookingId} />}
+
             {/* Booking Summary */}
             {bookingData && (
               <div className="mb-8">
@@ -102,6 +202,44 @@ const ConfirmationPage: React.FC = () => {
                   <span className="text-gray-600">Duration:</span>
                   <span className="font-medium">{bookingData.duration}</span>
                 </div>
+                {bookingData.recurrence && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Repeats:</span>
+                    <span className="font-medium">
+                      {bookingData.recurrence} ({bookingData.occurrences} bookings)
+                    </span>
+                  </div>
+                )}
+                {bookingData.attendees && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Attendees:</span>
+                    <span className="font-medium text-right">
+                      {bookingData.attendees.map((attendee, index) => (
+                        <span key={index} className="block">{attendee}</span>
+                      ))}
+                    </span>
+                  </div>
+                )}
+                {bookingData.membershipPlan && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Paid with:</span>
+                    <span className="font-medium text-green-600">
+                      {bookingData.membershipPlan} ({bookingData.creditHours} hour(s) of credit)
+                    </span>
+                  </div>
+                )}
+                {bookingData.promoCode && !!bookingData.discountAmount && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Promo {bookingData.promoCode}:</span>
+                    <span className="font-medium text-green-600">-E£{bookingData.discountAmount}</span>
+                  </div>
+                )}
+                {bookingData.addOns?.map(line => (
+                  <div key={line.id} className="flex justify-between">
+                    <span className="text-gray-600">{formatAddOnLine(line)}:</span>
+                    <span className="font-medium">+E£{line.amount}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between border-t pt-2">
                   <span className="text-gray-600">Total Cost:</span>
                   <span className="font-bold text-yellow-600">E£{bookingData.totalPrice}</span>
@@ -110,6 +248,105 @@ const ConfirmationPage: React.FC = () => {
               </div>
             )}
 
+            {isPaidOnline && (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-6 mb-8">
+                <div className="flex items-start">
+                  <CheckCircle className="w-6 h-6 text-green-500 mr-3 mt-1 flex-shrink-0" />
+                  <div>
+                    <p className="text-green-800 font-medium text-lg">Payment received. Your booking is confirmed!</p>
+                    {paidCode ? (
+                      <>
+                        <p className="text-green-700 mt-2">
+                          Confirmation code: <span className="font-mono text-2xl font-bold">{paidCode}</span>
+                        </p>
+                        <p className="text-green-600 text-sm mt-2">
+                          Keep the code: with it and your email you can view, reschedule or cancel this booking on the <Link to="/find-booking" className="underline">Find Booking</Link> page.
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-green-600 text-sm mt-2">
+                        Your confirmation code is shown once, in the browser you paid from. Contact us if you need a new one.
+                      </p>
+                    )}
+                    {payment?.check_in_code && (
+                      <div className="mt-4">
+                        <CheckInQrCode code={payment.check_in_code} />
+                      </div>
+                    )}
+                    <button
+                      onClick={handlePaidContinue}
+                      className="mt-4 bg-yellow-500 text-black py-2 px-6 rounded-md font-semibold hover:bg-yellow-600 transition-colors"
+                    >
+                      Done
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Online Payment */}
+            {canPayOnline && (
+              <div className="mb-8">
+                <div className="flex items-center mb-4">
+                  <CreditCard className="w-6 h-6 text-green-500 mr-2" />
+                  <h3 className="text-xl font-semibold text-black">Pay Online</h3>
+                </div>
+
+                {mockPaymentId ? (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+                    <p className="text-yellow-800 font-medium mb-1">Test checkout</p>
+                    <p className="text-yellow-700 text-sm mb-4">
+                      The mock payment provider is active, so no money is taken.
+                    </p>
+                    <div className="flex space-x-3">
+                      <button
+                        onClick={() => handleMockPayment(true)}
+                        disabled={isPaying}
+                        className="bg-green-500 text-white py-2 px-6 rounded-md font-semibold hover:bg-green-600 transition-colors disabled:opacity-50"
+                      >
+                        Pay
+                      </button>
+                      <button
+                        onClick={() => handleMockPayment(false)}
+                        disabled={isPaying}
+                        className="bg-gray-500 text-white py-2 px-6 rounded-md font-semibold hover:bg-gray-600 transition-colors disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    {payment?.latest_payment_status === 'failed' && (
+                      <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+                        <p className="text-red-800 text-sm">
+                          Your last payment did not go through. You can try again or transfer the amount below.
+                        </p>
+                      </div>
+                    )}
+                    <button
+                      onClick={handlePayOnline}
+                      disabled={isPaying}
+                      className="w-full bg-green-500 text-white py-3 px-6 rounded-md font-semibold hover:bg-green-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isPaying ? 'Starting payment...' : `Pay${bookingData ? ` E£${bookingData.totalPrice}` : ''} by Card`}
+                    </button>
+                    <p className="text-sm text-gray-500 mt-2">
+                      Your booking is confirmed as soon as the payment goes through.
+                    </p>
+                  </>
+                )}
+
+                {paymentError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3 mt-4">
+                    <p className="text-red-800 text-sm">{paymentError}</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isPaidOnline && (
+            <>
             {/* Payment Instructions */}
             <div className="mb-8">
               <div className="flex items-center mb-4">
@@ -128,8 +365,13 @@ const ConfirmationPage: React.FC = () => {
                       {paymentPhone}
                     </p>
                     <p className="text-green-700 text-lg font-medium mb-2">
-                      Amount: E£{bookingData?.totalPrice || 0}
+                      Amount: E£{payment ? payment.balance : bookingData?.totalPrice || 0}
                     </p>
+                    {payment?.payment_status === 'partially_paid' && (
+                      <p className="text-green-700 text-sm mb-2">
+                        We have received E£{payment.amount_paid} of E£{payment.amount_due}.
+                      </p>
+                    )}
                     <div className="text-green-600 text-sm space-y-1">
                       <p>• Transfer the exact amount via mobile money or bank transfer</p>
                       <p>• After payment, you will receive a confirmation code on WhatsApp</p>
@@ -139,6 +381,13 @@ const ConfirmationPage: React.FC = () => {
                   </div>
                 </div>
               </div>
+
+              {bookingId && (
+                <PaymentProofForm
+                  bookingId={bookingId}
+                  defaultAmount={payment ? payment.balance : bookingData?.totalPrice}
+                />
+              )}
             </div>
 
             {/* WhatsApp Confirmation */}
@@ -159,10 +408,10 @@ const ConfirmationPage: React.FC = () => {
                       After completing the payment, you will receive a confirmation code on: {bookingData?.customerWhatsapp}
                     </p>
                     <p className="text-blue-600 text-sm mt-1">
-                      The code may take 2-5 minutes to arrive after payment.
+                      The code may take 2-5 minutes to arrive after payment and is valid for 30 minutes.
                     </p>
-                    <p className="text-blue-600 text-sm mt-2 font-medium">
-                      Demo: Use code "123456" for testing
+                    <p className="text-blue-600 text-sm mt-1">
+                      Keep the code: with it and your email you can view, reschedule or cancel this booking on the <Link to="/find-booking" className="underline">Find Booking</Link> page.
                     </p>
                   </div>
                 </div>
@@ -178,6 +427,9 @@ const ConfirmationPage: React.FC = () => {
                     value={confirmationCode}
                     onChange={(e) => setConfirmationCode(e.target.value)}
                     required
+                    inputMode="numeric"
+                    pattern="[0-9]{6}"
+                    maxLength={6}
                     placeholder="Enter 6-digit code"
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
                   />
@@ -208,6 +460,8 @@ const ConfirmationPage: React.FC = () => {
                 </button>
               </form>
             </div>
+            </>
+            )}
 
             {/* Contact Info */}
             <div className="border-t pt-6">
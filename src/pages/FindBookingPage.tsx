@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { Mail, KeyRound, Search } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import {
+  BookingPolicy,
+  CustomerBooking,
+  fetchBookingPolicy,
+  getChangeErrorMessage
+} from '../lib/bookings';
+import { Invoice, downloadInvoicePdf } from '../lib/invoices';
+import AnimatedSection from '../components/AnimatedSection';
+import BookingCard from '../components/BookingCard';
+
+interface GuestBookingResult {
+  status: 'found' | 'cancelled' | 'rescheduled' | 'not_found' | 'locked';
+  booking?: CustomerBooking;
+}
+
+const getLookupErrorMessage = (result: GuestBookingResult) =>
+  result.status === 'locked'
+    ? 'Too many unsuccessful attempts. Please wait 15 minutes and try again.'
+    : 'We could not find a booking with that email and confirmation code.';
+
+const FindBookingPage: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [code, setCode] = useState('');
+  const [booking, setBooking] = useState<CustomerBooking | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+
+  useEffect(() => {
+    fetchBookingPolicy()
+      .then(setPolicy)
+      .catch(error => console.error('Error fetching booking policy:', error));
+  }, []);
+
+  // Runs a guest RPC and keeps the page in sync with the booking it returns
+  const callGuestRpc = async (fn: string, params: Record<string, string>) => {
+    setError('');
+    setMessage('');
+    const { data, error } = await supabase.rpc(fn, { p_email: email, p_code: code, ...params });
+
+    if (error) {
+      console.error(`Error calling ${fn}:`, error);
+      setError(getChangeErrorMessage(error));
+      return null;
+    }
+
+    const result = data as GuestBookingResult;
+    if (!result.booking) {
+      setBooking(null);
+      setError(getLookupErrorMessage(result));
+      return null;
+    }
+
+    setBooking(result.booking);
+    return result;
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSearching(true);
+    try {
+      await callGuestRpc('get_guest_booking', {});
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (await callGuestRpc('cancel_guest_booking', {})) {
+      setMessage('Your booking has been cancelled.');
+    }
+  };
+
+  const handleReschedule = async (_booking: CustomerBooking, date: string, timeSlot: string) => {
+    if (await callGuestRpc('reschedule_guest_booking', { p_date: date, p_time_slot: timeSlot })) {
+      setMessage('Your booking has been rescheduled.');
+      return true;
+    }
+    return false;
+  };
+
+  const handleDownloadInvoice = async () => {
+    setError('');
+    const { data, error } = await supabase.rpc('get_guest_invoice', { p_email: email, p_code: code });
+
+    if (error) {
+      console.error('Error fetching invoice:', error);
+      setError('Failed to download the invoice. Please try again.');
+      return;
+    }
+
+    const result = data as { status: GuestBookingResult['status'] | 'not_issued'; invoice?: Invoice };
+    if (!result.invoice) {
+      setError(result.status === 'not_issued'
+        ? 'The invoice for this booking is not available yet.'
+        : getLookupErrorMessage({ status: result.status === 'locked' ? 'locked' : 'not_found' }));
+      return;
+    }
+
+    await downloadInvoicePdf(result.invoice);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-yellow-400 to-yellow-500 text-black py-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="text-center">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">Find Your Booking</h1>
+            <p className="text-xl md:text-2xl max-w-3xl mx-auto">
+              Enter the email you booked with and your confirmation code
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+          <AnimatedSection animation="slideUp" duration={600}>
+            <form onSubmit={handleSearch} className="bg-white rounded-lg shadow-lg p-8 space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Mail className="w-4 h-4 inline mr-2" />
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <KeyRound className="w-4 h-4 inline mr-2" />
+                  Confirmation Code
+                </label>
+                <input
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode="numeric"
+                  pattern="[0-9]{6}"
+                  maxLength={6}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-yellow-500 font-mono tracking-widest"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSearching}
+                className="w-full bg-yellow-500 text-black py-3 rounded-lg font-semibold hover:bg-yellow-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+              >
+                <Search className="w-5 h-5 mr-2" />
+                {isSearching ? 'Searching...' : 'Find Booking'}
+              </button>
+            </form>
+          </AnimatedSection>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <p className="text-green-800 text-sm">{message}</p>
+            </div>
+          )}
+
+          {booking && (
+            <AnimatedSection animation="slideUp" duration={600}>
+              <BookingCard
+                booking={booking}
+                policy={policy}
+                onCancel={handleCancel}
+                onReschedule={handleReschedule}
+                onDownloadInvoice={handleDownloadInvoice}
+              />
+            </AnimatedSection>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default FindBookingPage;
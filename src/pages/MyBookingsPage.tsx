@@ -0,0 +1,333 @@
+import React, { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { CalendarPlus, Copy } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+import {
+  BookingPolicy,
+  CustomerBooking,
+  fetchBookingPolicy,
+  getChangeErrorMessage,
+  isUpcomingBooking
+} from '../lib/bookings';
+import { SeriesResult, formatSeriesConflicts } from '../lib/recurrence';
+import { Membership, fetchMemberships, formatCredit } from '../lib/memberships';
+import { downloadInvoicePdf, fetchInvoice } from '../lib/invoices';
+import { getCalendarFeedUrl, toWebcalUrl } from '../lib/calendar';
+import AnimatedSection from '../components/AnimatedSection';
+import LoadingSpinner from '../components/LoadingSpinner';
+import BookingCard from '../components/BookingCard';
+
+const MyBookingsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [bookings, setBookings] = useState<CustomerBooking[]>([]);
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+
+  const fetchBookings = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .select('*, booking_series(id, frequency, weekdays, time_slot)')
+        .eq('user_id', userId)
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      setBookings(data || []);
+      // Cancelling or rescheduling changes the credit left
+      setMemberships(await fetchMemberships(userId));
+    } catch (error) {
+      console.error('Error fetching bookings:', error);
+      setError('Failed to load your bookings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchBookings(user.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchBookingPolicy()
+      .then(setPolicy)
+      .catch(error => console.error('Error fetching booking policy:', error));
+  }, []);
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  const upcoming = bookings.filter(isUpcomingBooking);
+  const past = bookings.filter(b => !isUpcomingBooking(b)).reverse();
+
+  const handleCancel = async (booking: CustomerBooking) => {
+    setError('');
+    setMessage('');
+    const { error } = await supabase.rpc('cancel_booking', { p_booking_id: booking.id });
+
+    if (error) {
+      console.error('Error cancelling booking:', error);
+      setError(getChangeErrorMessage(error));
+      return;
+    }
+
+    setMessage('Your booking has been cancelled.');
+    await fetchBookings(user.id);
+  };
+
+  const handleReschedule = async (booking: CustomerBooking, date: string, timeSlot: string) => {
+    setError('');
+    setMessage('');
+    const { error } = await supabase.rpc('reschedule_booking', {
+      p_booking_id: booking.id,
+      p_date: date,
+      p_time_slot: timeSlot
+    });
+
+    if (error) {
+      console.error('Error rescheduling booking:', error);
+      setError(getChangeErrorMessage(error));
+      return false;
+    }
+
+    setMessage('Your booking has been rescheduled.');
+    await fetchBookings(user.id);
+    return true;
+  };
+
+  const handleCancelSeries = async (booking: CustomerBooking) => {
+    setError('');
+    setMessage('');
+    const { data, error } = await supabase.rpc('cancel_booking_series', { p_series_id: booking.series_id });
+
+    if (error) {
+      console.error('Error cancelling booking series:', error);
+      setError(getChangeErrorMessage(error));
+      return;
+    }
+
+    const { cancelled, kept } = data as { cancelled: number; kept: number };
+    setMessage(
+      kept > 0
+        ? `Cancelled ${cancelled} booking(s). ${kept} booking(s) starting soon could no longer be cancelled.`
+        : `Cancelled ${cancelled} booking(s) in this series.`
+    );
+    await fetchBookings(user.id);
+  };
+
+  const handleRescheduleSeries = async (booking: CustomerBooking, timeSlot: string) => {
+    setError('');
+    setMessage('');
+    const { data, error } = await supabase.rpc('reschedule_booking_series', {
+      p_series_id: booking.series_id,
+      p_time_slot: timeSlot
+    });
+
+    if (error) {
+      console.error('Error rescheduling booking series:', error);
+      setError(getChangeErrorMessage(error));
+      return false;
+    }
+
+    const result = data as SeriesResult;
+    if (result.status === 'conflicts') {
+      setError(`The series could not be moved to ${timeSlot}:\n${formatSeriesConflicts(result.occurrences)}`);
+      return false;
+    }
+
+    setMessage(`Your series now starts at ${timeSlot}.`);
+    await fetchBookings(user.id);
+    return true;
+  };
+
+  const handleDownloadInvoice = async (booking: CustomerBooking) => {
+    setError('');
+    try {
+      const invoice = await fetchInvoice(booking.id);
+      if (!invoice) {
+        setError('The invoice for this booking is not available yet.');
+        return;
+      }
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      setError('Failed to download the invoice. Please try again.');
+    }
+  };
+
+  const handleCalendarFeed = async (reset = false) => {
+    setError('');
+    setMessage('');
+    if (reset && !confirm('Reset your calendar link? Calendars subscribed to the old link will stop updating.')) {
+      return;
+    }
+
+    try {
+      setFeedUrl(await getCalendarFeedUrl(null, reset));
+      if (reset) setMessage('Your calendar link has been reset.');
+    } catch (error) {
+      console.error('Error getting calendar feed:', error);
+      setError('Failed to get your calendar link. Please try again.');
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setMessage('Calendar link copied.');
+  };
+
+  const renderBooking = (booking: CustomerBooking) => (
+    <BookingCard
+      key={booking.id}
+      booking={booking}
+      policy={policy}
+      onCancel={handleCancel}
+      onReschedule={handleReschedule}
+      onCancelSeries={handleCancelSeries}
+      onRescheduleSeries={handleRescheduleSeries}
+      onDownloadInvoice={handleDownloadInvoice}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Hero Section */}
+      <section className="bg-gradient-to-r from-yellow-400 to-yellow-500 text-black py-16">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="text-center">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4">My Bookings</h1>
+            <p className="text-xl md:text-2xl max-w-3xl mx-auto">
+              Your upcoming and past workspace bookings
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-16">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-800 text-sm whitespace-pre-line">{error}</p>
+            </div>
+          )}
+          {message && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3">
+              <p className="text-green-800 text-sm">{message}</p>
+            </div>
+          )}
+
+          {loading ? (
+            <LoadingSpinner size="lg" text="Loading your bookings..." />
+          ) : (
+            <>
+              {memberships.length > 0 && (
+                <AnimatedSection animation="slideUp" duration={600}>
+                  <h2 className="text-2xl font-bold text-black mb-4">Memberships</h2>
+                  <div className="grid md:grid-cols-2 gap-4">
+                    {memberships.map(m => (
+                      <div key={m.id} className="bg-white rounded-lg shadow-sm p-6">
+                        <h3 className="text-lg font-semibold text-black">{m.plan_name}</h3>
+                        <p className="text-2xl font-bold text-yellow-600 my-2">{formatCredit(m)} left</p>
+                        <p className="text-sm text-gray-600">
+                          Valid {new Date(m.starts_on).toLocaleDateString()} – {new Date(m.ends_on).toLocaleDateString()}
+                        </p>
+                        {m.workspace_types.length > 0 && (
+                          <p className="text-sm text-gray-600">For {m.workspace_types.join(', ')}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </AnimatedSection>
+              )}
+
+              <AnimatedSection animation="slideUp" duration={600}>
+                <div className="bg-white rounded-lg shadow-sm p-6">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                    <div>
+                      <h2 className="text-lg font-semibold text-black">Calendar feed</h2>
+                      <p className="text-sm text-gray-600">
+                        Subscribe in Google Calendar, Outlook or Apple Calendar and your bookings stay up to date there.
+                      </p>
+                    </div>
+                    {!feedUrl && (
+                      <button
+                        onClick={() => handleCalendarFeed()}
+                        className="bg-yellow-500 text-black px-4 py-2 rounded-md font-medium hover:bg-yellow-600 transition-colors flex items-center justify-center"
+                      >
+                        <CalendarPlus className="w-4 h-4 mr-2" />
+                        Get calendar link
+                      </button>
+                    )}
+                  </div>
+                  {feedUrl && (
+                    <div className="mt-4 space-y-2">
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          readOnly
+                          value={feedUrl}
+                          onFocus={(e) => e.target.select()}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700"
+                        />
+                        <button
+                          onClick={handleCopyFeedUrl}
+                          className="px-3 py-2 border border-gray-300 rounded-md text-gray-600 hover:text-gray-900"
+                          title="Copy link"
+                        >
+                          <Copy className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <div className="flex space-x-4 text-sm">
+                        <a href={toWebcalUrl(feedUrl)} className="text-blue-600 hover:text-blue-800">
+                          Open in calendar app
+                        </a>
+                        <button onClick={() => handleCalendarFeed(true)} className="text-red-600 hover:text-red-800">
+                          Reset link
+                        </button>
+                      </div>
+                      <p className="text-xs text-gray-500">Keep this link private: anyone with it can see your bookings.</p>
+                    </div>
+                  )}
+                </div>
+              </AnimatedSection>
+
+              <AnimatedSection animation="slideUp" duration={600}>
+                <h2 className="text-2xl font-bold text-black mb-4">Upcoming</h2>
+                {upcoming.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-sm p-6 text-center">
+                    <p className="text-gray-500 mb-4">You have no upcoming bookings.</p>
+                    <Link
+                      to="/booking"
+                      className="bg-yellow-500 text-black px-6 py-2 rounded-md font-medium hover:bg-yellow-600 transition-colors"
+                    >
+                      Book a Workspace
+                    </Link>
+                  </div>
+                ) : (
+                  <div className="space-y-4">{upcoming.map(renderBooking)}</div>
+                )}
+              </AnimatedSection>
+
+              {past.length > 0 && (
+                <AnimatedSection animation="slideUp" delay={200} duration={600}>
+                  <h2 className="text-2xl font-bold text-black mb-4">Past & Cancelled</h2>
+                  <div className="space-y-4">{past.map(renderBooking)}</div>
+                </AnimatedSection>
+              )}
+            </>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default MyBookingsPage;
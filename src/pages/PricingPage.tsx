@@ -1,41 +1,26 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Check, X } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useContent } from '../hooks/useContent';
 import AnimatedSection from '../components/AnimatedSection';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { AddOn, fetchAddOns, formatAddOnPrice } from '../lib/addOns';
 
 const PricingPage: React.FC = () => {
   const { getContent, pricingPlans, pricingFAQs, loading: contentLoading } = useContent();
+  const [addOns, setAddOns] = useState<AddOn[]>([]);
+
+  useEffect(() => {
+    fetchAddOns()
+      .then(setAddOns)
+      .catch(error => console.error('Error fetching add-ons:', error));
+  }, []);
 
   // Show loading spinner while content is being fetched
   if (contentLoading) {
     return <LoadingSpinner size="lg" text="Loading content..." />;
   }
 
-  const addOns = [
-    {
-      name: 'Parking',
-      price: 'E£15/day',
-      description: 'Secure parking in our dedicated garage'
-    },
-    {
-      name: 'Storage Locker',
-      price: 'E£25/month',
-      description: 'Personal storage space for your belongings'
-    },
-    {
-      name: 'Virtual Office',
-      price: 'E£99/month',
-      description: 'Business address and mail handling services'
-    },
-    {
-      name: 'Phone Answering',
-      price: 'E£149/month',
-      description: 'Professional phone answering in your company name'
-    }
-  ];
-
   return (
     <div className="min-h-screen bg-white">
       {/* Hero Section */}
@@ -144,7 +129,7 @@ const PricingPage: React.FC = () => {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
             {addOns.map((addon, index) => (
               <AnimatedSection 
-                key={index}
+                key={addon.id}
                 animation="slideUp" 
                 delay={index * 100} 
                 duration={600}
@@ -152,7 +137,7 @@ const PricingPage: React.FC = () => {
                 <div className="bg-white p-6 rounded-lg shadow-sm hover:shadow-md transition-all duration-300 transform hover:-translate-y-2">
                   <h3 className="text-lg font-semibold text-black mb-2">{addon.name}</h3>
                   <p className="text-gray-600 mb-4">{addon.description}</p>
-                  <div className="text-xl font-bold text-yellow-500">{addon.price}</div>
+                  <div className="text-xl font-bold text-yellow-500">{formatAddOnPrice(addon)}</div>
                 </div>
               </AnimatedSection>
             ))}
@@ -0,0 +1,61 @@
+// Minimal iCalendar (RFC 5545) writer for booking feeds. Booking times are
+// local wall-clock times at the space, so events carry the site's TZID.
+
+export interface CalendarEvent {
+  uid: string;
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string | null;
+  status: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+  updatedAt: string;
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// "2025-07-21T10:00:00" -> "20250721T100000"
+const formatLocal = (timestamp: string) => timestamp.replace(/[-:]/g, '').slice(0, 15);
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 characters continue on the next line after a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+export const buildCalendar = (name: string, timeZone: string, events: CalendarEvent[]) => {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Desk4U//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`,
+    ...events.flatMap(event => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;TZID=${timeZone}:${formatLocal(event.start)}`,
+      `DTEND;TZID=${timeZone}:${formatLocal(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+      `STATUS:${event.status}`,
+      // Calendar apps only replace an event when its sequence goes up
+      `SEQUENCE:${Math.floor(new Date(event.updatedAt).getTime() / 1000)}`,
+      `LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`,
+      'END:VEVENT'
+    ]),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,18 @@
+// Picks the payment provider from PAYMENT_PROVIDER, which must be set
+import { PaymentProvider } from './types.ts';
+import { mockProvider } from './mock.ts';
+import { paymobProvider } from './paymob.ts';
+
+export * from './types.ts';
+
+const providers: Record<string, PaymentProvider> = {
+  mock: mockProvider,
+  paymob: paymobProvider
+};
+
+export const getProvider = (name = Deno.env.get('PAYMENT_PROVIDER')) => {
+  if (!name) throw new Error('PAYMENT_PROVIDER is not set');
+  const provider = providers[name];
+  if (!provider) throw new Error(`Unknown payment provider ${name}`);
+  return provider;
+};
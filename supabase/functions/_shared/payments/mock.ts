@@ -0,0 +1,76 @@
+// Offline provider for development and tests. Its checkout page is the
+// confirmation page itself, which completes the payment through the
+// `mock_complete` action instead of a real gateway.
+import { PaymentEvent, PaymentEventStatus, PaymentProvider, PaymentRecord } from './types.ts';
+import { hmacHex, timingSafeEqual } from './signature.ts';
+
+// PAYMENTS_DEV_MODE=true turns on the shortcuts below: completing payments
+// from the browser and signing webhooks with a built-in secret
+export const isPaymentsDevMode = () => Deno.env.get('PAYMENTS_DEV_MODE') === 'true';
+
+const getSecret = () => {
+  const secret = Deno.env.get('MOCK_PAYMENT_SECRET') || (isPaymentsDevMode() ? 'mock-payment-secret' : '');
+  if (!secret) throw new Error('MOCK_PAYMENT_SECRET is not set');
+  return secret;
+};
+
+const mockEvent = (
+  payment: PaymentRecord,
+  status: PaymentEventStatus,
+  amount: number
+): PaymentEvent => {
+  const transactionId = payment.provider_transaction_id || `mock_txn_${crypto.randomUUID()}`;
+  return {
+    paymentId: payment.id,
+    eventKey: `mock:${status}:${crypto.randomUUID()}`,
+    status,
+    amount,
+    transactionId,
+    payload: { provider: 'mock', status, amount, transaction_id: transactionId }
+  };
+};
+
+// Signs a body the way parseWebhook() expects, for tests posting fake webhooks
+export const signMockWebhook = (body: string) => hmacHex('SHA-256', getSecret(), body);
+
+export const mockProvider: PaymentProvider = {
+  name: 'mock',
+
+  createIntent(input) {
+    const providerRef = `mock_intent_${crypto.randomUUID()}`;
+    const checkoutUrl = new URL(input.returnUrl);
+    checkoutUrl.searchParams.set('mock_payment', input.paymentId);
+    return Promise.resolve({ providerRef, checkoutUrl: checkoutUrl.toString() });
+  },
+
+  capture(payment, amount) {
+    return Promise.resolve(mockEvent(payment, 'succeeded', amount));
+  },
+
+  refund(payment, amount) {
+    return Promise.resolve(mockEvent(payment, 'refunded', amount));
+  },
+
+  async parseWebhook(request) {
+    const body = await request.text();
+    const signature = request.headers.get('x-mock-signature') || '';
+
+    if (!timingSafeEqual(signature, await signMockWebhook(body))) {
+      return null;
+    }
+
+    const event = JSON.parse(body);
+    return {
+      paymentId: event.payment_id,
+      eventKey: `mock:${event.event_id}`,
+      status: event.status,
+      amount: Number(event.amount),
+      transactionId: event.transaction_id || null,
+      payload: event
+    };
+  }
+};
+
+// What the mock checkout does when the customer pays or gives up
+export const completeMockPayment = (payment: PaymentRecord, succeeded: boolean) =>
+  mockEvent(payment, succeeded ? 'succeeded' : 'failed', payment.amount);
@@ -0,0 +1,159 @@
+// Paymob (accept.paymob.com) adapter, using the Intention API and its
+// unified checkout. Needs PAYMOB_SECRET_KEY, PAYMOB_PUBLIC_KEY,
+// PAYMOB_INTEGRATION_ID and PAYMOB_HMAC_SECRET.
+import { PaymentEvent, PaymentProvider } from './types.ts';
+import { hmacHex, timingSafeEqual } from './signature.ts';
+
+const BASE_URL = 'https://accept.paymob.com';
+
+// Fields of a transaction callback covered by its HMAC, in Paymob's order
+const HMAC_FIELDS = [
+  'amount_cents',
+  'created_at',
+  'currency',
+  'error_occured',
+  'has_parent_transaction',
+  'id',
+  'integration_id',
+  'is_3d_secure',
+  'is_auth',
+  'is_capture',
+  'is_refunded',
+  'is_standalone_payment',
+  'is_voided',
+  'order.id',
+  'owner',
+  'pending',
+  'source_data.pan',
+  'source_data.sub_type',
+  'source_data.type',
+  'success'
+];
+
+interface PaymobTransaction {
+  id: number;
+  success: boolean;
+  pending: boolean;
+  amount_cents: number;
+  is_auth: boolean;
+  is_capture: boolean;
+  is_refund?: boolean;
+  order: { id: number; merchant_order_id: string | null };
+  [key: string]: unknown;
+}
+
+const getEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const request = async <T>(path: string, body: unknown): Promise<T> => {
+  const response = await fetch(`${BASE_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Token ${getEnv('PAYMOB_SECRET_KEY')}`
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(`Paymob ${path} failed with ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+};
+
+const readField = (transaction: PaymobTransaction, path: string) => {
+  const value = path.split('.').reduce<unknown>(
+    (current, key) => (current as Record<string, unknown> | null)?.[key],
+    transaction
+  );
+  return value === null || value === undefined ? '' : String(value);
+};
+
+const toEvent = (transaction: PaymobTransaction, paymentId: string): PaymentEvent => ({
+  paymentId,
+  eventKey: `paymob:${transaction.id}`,
+  status: !transaction.success
+    ? 'failed'
+    : transaction.is_refund
+    ? 'refunded'
+    : transaction.is_auth && !transaction.is_capture
+    ? 'authorized'
+    : 'succeeded',
+  amount: transaction.amount_cents / 100,
+  transactionId: String(transaction.id),
+  payload: transaction
+});
+
+export const paymobProvider: PaymentProvider = {
+  name: 'paymob',
+
+  async createIntent(input) {
+    const [firstName, ...lastNames] = input.customer.name.trim().split(/\s+/);
+    const intention = await request<{ id: string; client_secret: string }>('/v1/intention/', {
+      amount: toCents(input.amount),
+      currency: input.currency,
+      payment_methods: [Number(getEnv('PAYMOB_INTEGRATION_ID'))],
+      items: [{ name: input.description, amount: toCents(input.amount), quantity: 1 }],
+      billing_data: {
+        first_name: firstName || 'Customer',
+        last_name: lastNames.join(' ') || 'Customer',
+        email: input.customer.email,
+        phone_number: input.customer.phone
+      },
+      // Comes back as the order's merchant_order_id in callbacks
+      special_reference: input.paymentId,
+      redirection_url: input.returnUrl
+    });
+
+    const checkoutUrl = new URL(`${BASE_URL}/unifiedcheckout/`);
+    checkoutUrl.searchParams.set('publicKey', getEnv('PAYMOB_PUBLIC_KEY'));
+    checkoutUrl.searchParams.set('clientSecret', intention.client_secret);
+
+    return { providerRef: String(intention.id), checkoutUrl: checkoutUrl.toString() };
+  },
+
+  async capture(payment, amount) {
+    if (!payment.provider_transaction_id) throw new Error('This payment has not been authorized');
+    const transaction = await request<PaymobTransaction>('/api/acceptance/capture', {
+      transaction_id: payment.provider_transaction_id,
+      amount_cents: toCents(amount)
+    });
+    return toEvent(transaction, payment.id);
+  },
+
+  async refund(payment, amount) {
+    if (!payment.provider_transaction_id) throw new Error('This payment has not been captured');
+    const transaction = await request<PaymobTransaction>('/api/acceptance/void_refund/refund', {
+      transaction_id: payment.provider_transaction_id,
+      amount_cents: toCents(amount)
+    });
+    return toEvent({ ...transaction, is_refund: true }, payment.id);
+  },
+
+  async parseWebhook(req) {
+    const body = await req.json();
+    if (body?.type !== 'TRANSACTION') return null;
+
+    const transaction = body.obj as PaymobTransaction;
+    const expected = await hmacHex(
+      'SHA-512',
+      getEnv('PAYMOB_HMAC_SECRET'),
+      HMAC_FIELDS.map(field => readField(transaction, field)).join('')
+    );
+    const received = new URL(req.url).searchParams.get('hmac') || '';
+
+    if (!timingSafeEqual(received, expected) || !transaction.order.merchant_order_id) {
+      return null;
+    }
+
+    // Still waiting on the customer, e.g. a kiosk or wallet payment
+    if (transaction.pending) return null;
+
+    return toEvent(transaction, transaction.order.merchant_order_id);
+  }
+};
@@ -0,0 +1,16 @@
+import { PaymentEvent } from './types.ts';
+import { supabaseAdmin } from '../supabaseAdmin.ts';
+
+// Applies a provider event to the payment and its bookings
+export const recordPaymentEvent = async (event: PaymentEvent) => {
+  const { data, error } = await supabaseAdmin.rpc('record_payment_event', {
+    p_payment_id: event.paymentId,
+    p_event_key: event.eventKey,
+    p_status: event.status,
+    p_amount: event.amount,
+    p_transaction_id: event.transactionId,
+    p_payload: event.payload
+  });
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,51 @@
+// What every payment provider adapter implements. Amounts are in EGP, not
+// minor units; adapters convert as their gateway needs.
+
+export type PaymentEventStatus = 'authorized' | 'succeeded' | 'failed' | 'refunded';
+
+export interface PaymentIntentInput {
+  // Our payments.id, sent to the gateway so its events can be matched back
+  paymentId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  customer: {
+    name: string;
+    email: string;
+    phone: string;
+  };
+  returnUrl: string;
+}
+
+export interface PaymentIntent {
+  providerRef: string;
+  checkoutUrl: string;
+}
+
+// A change reported by the gateway, applied with record_payment_event()
+export interface PaymentEvent {
+  paymentId: string;
+  // Unique per gateway event, so retried webhooks are only applied once
+  eventKey: string;
+  status: PaymentEventStatus;
+  amount: number;
+  transactionId: string | null;
+  payload: unknown;
+}
+
+export interface PaymentRecord {
+  id: string;
+  provider_ref: string | null;
+  provider_transaction_id: string | null;
+  amount: number;
+}
+
+export interface PaymentProvider {
+  name: string;
+  createIntent(input: PaymentIntentInput): Promise<PaymentIntent>;
+  // For gateways that authorize first and capture later
+  capture(payment: PaymentRecord, amount: number): Promise<PaymentEvent>;
+  refund(payment: PaymentRecord, amount: number): Promise<PaymentEvent>;
+  // Null when the request is not a genuine event from this gateway
+  parseWebhook(request: Request): Promise<PaymentEvent | null>;
+}
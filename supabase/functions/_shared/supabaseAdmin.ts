@@ -0,0 +1,30 @@
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+// Service role client; bypasses RLS, so only use it after checking the caller
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
+
+// Whether the request comes from a signed-in admin, using their own token
+export const isAdminRequest = async (req: Request) => {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return false;
+
+  const client = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } }
+  });
+  const { data, error } = await client.rpc('is_admin');
+  return !error && data === true;
+};
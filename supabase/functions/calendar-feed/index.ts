@@ -0,0 +1,104 @@
+// iCalendar feeds, at /functions/v1/calendar-feed?token=<token>.
+// Calendar apps send no Supabase JWT, so deploy with --no-verify-jwt; the
+// token from get_calendar_feed() is the credential.
+import { buildCalendar, CalendarEvent } from '../_shared/ical.ts';
+import { supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+// How far back feeds reach; later bookings are always included
+const HISTORY_DAYS = 60;
+
+interface FeedBooking {
+  id: string;
+  workspace_type: string;
+  unit_name: string | null;
+  duration: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'pending' | 'confirmed' | 'cancelled';
+  customer_name: string;
+  customer_phone: string;
+  attendee_name: string | null;
+  updated_at: string;
+}
+
+const eventStatuses: Record<FeedBooking['status'], CalendarEvent['status']> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  cancelled: 'CANCELLED'
+};
+
+const textResponse = (body: string, status: number) =>
+  new Response(body, { status, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+
+Deno.serve(async (req) => {
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return textResponse('Missing feed token', 400);
+    }
+
+    const { data: feed, error: feedError } = await supabaseAdmin
+      .from('calendar_feeds')
+      .select('user_id, workspace_type')
+      .eq('token', token)
+      .is('revoked_at', null)
+      .maybeSingle();
+    if (feedError) throw feedError;
+    if (!feed) {
+      return textResponse('This calendar link has been reset or does not exist', 404);
+    }
+
+    const { data: timezoneSetting } = await supabaseAdmin
+      .from('site_settings')
+      .select('value')
+      .eq('key', 'site_timezone')
+      .maybeSingle();
+    const timeZone = timezoneSetting?.value || 'UTC';
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    let query = supabaseAdmin
+      .from('bookings')
+      .select('id, workspace_type, unit_name, duration, starts_at, ends_at, status, customer_name, customer_phone, attendee_name, updated_at')
+      // Cancelled bookings stay in the feed so subscribed calendars drop them
+      .in('status', ['pending', 'confirmed', 'cancelled'])
+      .gte('date', since)
+      .not('starts_at', 'is', null)
+      .order('starts_at', { ascending: true });
+
+    query = feed.user_id
+      ? query.eq('user_id', feed.user_id)
+      : query.eq('workspace_type', feed.workspace_type);
+
+    const { data: bookings, error } = await query;
+    if (error) throw error;
+
+    const isStaffFeed = !feed.user_id;
+    const events = (bookings as FeedBooking[]).map((booking): CalendarEvent => ({
+      uid: `${booking.id}@desk4u`,
+      start: booking.starts_at,
+      end: booking.ends_at,
+      summary: isStaffFeed
+        ? `${booking.attendee_name || booking.customer_name} - ${booking.workspace_type}`
+        : `Desk4U: ${booking.workspace_type}`,
+      description: [
+        `Status: ${booking.status}`,
+        `Duration: ${booking.duration}`,
+        isStaffFeed ? `Customer: ${booking.customer_name} (${booking.customer_phone})` : null
+      ].filter(line => line !== null).join('\n'),
+      location: booking.unit_name,
+      status: eventStatuses[booking.status],
+      updatedAt: booking.updated_at
+    }));
+
+    const name = isStaffFeed ? `Desk4U ${feed.workspace_type}` : 'My Desk4U bookings';
+    return new Response(buildCalendar(name, timeZone, events), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'no-cache'
+      }
+    });
+  } catch (error) {
+    console.error('Calendar feed failed:', error);
+    return textResponse('Failed to load the calendar', 500);
+  }
+});
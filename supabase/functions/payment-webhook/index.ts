@@ -0,0 +1,25 @@
+// Gateway callbacks, at /functions/v1/payment-webhook?provider=<name>.
+// Gateways send no Supabase JWT, so deploy with --no-verify-jwt; each
+// provider checks its own signature instead.
+import { getProvider } from '../_shared/payments/index.ts';
+import { recordPaymentEvent } from '../_shared/payments/record.ts';
+import { jsonResponse } from '../_shared/supabaseAdmin.ts';
+
+Deno.serve(async (req) => {
+  try {
+    const provider = getProvider(new URL(req.url).searchParams.get('provider') || undefined);
+    const event = await provider.parseWebhook(req);
+
+    // Acknowledged either way so the gateway stops retrying events we ignore
+    if (!event) {
+      return jsonResponse({ received: true, applied: false });
+    }
+
+    // Errors are answered with a 500, which the gateway retries
+    const result = await recordPaymentEvent(event);
+    return jsonResponse({ received: true, applied: true, result });
+  } catch (error) {
+    console.error('Payment webhook failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Webhook failed' }, 500);
+  }
+});
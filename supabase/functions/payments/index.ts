@@ -0,0 +1,110 @@
+// Payment actions for the app:
+//   create_intent  { booking_id }                 anyone holding the booking id
+//   mock_complete  { payment_id, succeeded }      mock provider, PAYMENTS_DEV_MODE only
+//   capture        { payment_id, amount? }        admins
+//   refund         { payment_id, amount }         admins
+import { getProvider, PaymentRecord } from '../_shared/payments/index.ts';
+import { completeMockPayment, isPaymentsDevMode } from '../_shared/payments/mock.ts';
+import { recordPaymentEvent } from '../_shared/payments/record.ts';
+import { corsHeaders, isAdminRequest, jsonResponse, supabaseAdmin } from '../_shared/supabaseAdmin.ts';
+
+const fetchPayment = async (paymentId: string) => {
+  const { data, error } = await supabaseAdmin
+    .from('payments')
+    .select('id, provider, provider_ref, provider_transaction_id, amount, refunded_amount, status')
+    .eq('id', paymentId)
+    .single();
+  if (error) throw error;
+  return data as PaymentRecord & { provider: string; refunded_amount: number; status: string };
+};
+
+const createIntent = async (req: Request, bookingId: string) => {
+  const provider = getProvider();
+  const { data: started, error } = await supabaseAdmin.rpc('start_booking_payment', {
+    p_booking_id: bookingId,
+    p_provider: provider.name
+  });
+  if (error) throw error;
+
+  // Customers come back to the confirmation page, which polls for the result
+  const siteUrl = Deno.env.get('SITE_URL') || req.headers.get('origin');
+  const intent = await provider.createIntent({
+    paymentId: started.payment_id,
+    amount: Number(started.amount),
+    currency: started.currency,
+    description: started.description,
+    customer: {
+      name: started.customer_name,
+      email: started.customer_email,
+      phone: started.customer_phone
+    },
+    returnUrl: `${siteUrl}/confirmation`
+  });
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({ provider_ref: intent.providerRef, checkout_url: intent.checkoutUrl })
+    .eq('id', started.payment_id);
+  if (updateError) throw updateError;
+
+  return {
+    payment_id: started.payment_id,
+    provider: provider.name,
+    amount: started.amount,
+    checkout_url: intent.checkoutUrl
+  };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'create_intent':
+        return jsonResponse(await createIntent(req, body.booking_id));
+
+      case 'mock_complete': {
+        // Anyone could mark their booking paid, so never outside development
+        if (!isPaymentsDevMode()) {
+          return jsonResponse({ error: 'Mock payments can only be completed in development' }, 403);
+        }
+
+        const payment = await fetchPayment(body.payment_id);
+        if (payment.provider !== 'mock') {
+          return jsonResponse({ error: 'Only mock payments can be completed this way' }, 400);
+        }
+        return jsonResponse(await recordPaymentEvent(completeMockPayment(payment, body.succeeded === true)));
+      }
+
+      case 'capture':
+      case 'refund': {
+        if (!(await isAdminRequest(req))) {
+          return jsonResponse({ error: 'Only admins can capture or refund payments' }, 403);
+        }
+
+        const payment = await fetchPayment(body.payment_id);
+        const provider = getProvider(payment.provider);
+        const amount = Number(body.amount ?? payment.amount - payment.refunded_amount);
+
+        if (body.action === 'refund' && (amount <= 0 || amount > payment.amount - payment.refunded_amount)) {
+          return jsonResponse({ error: 'Refunds cannot exceed the amount paid' }, 400);
+        }
+
+        const event = body.action === 'capture'
+          ? await provider.capture(payment, amount)
+          : await provider.refund(payment, amount);
+        return jsonResponse(await recordPaymentEvent(event));
+      }
+
+      default:
+        return jsonResponse({ error: `Unknown action ${body.action}` }, 400);
+    }
+  } catch (error) {
+    console.error('Payment action failed:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Payment failed' }, 400);
+  }
+});
@@ -0,0 +1,161 @@
+/*
+  # Server-side booking confirmation codes
+
+  1. New Tables
+    - `booking_otps`
+      - `booking_id` (uuid, primary key, references bookings)
+      - `code_hash` (text) - bcrypt hash of the 6-digit code, never the code itself
+      - `expires_at` (timestamptz)
+      - `attempts` (integer) - failed verification attempts so far
+      - `max_attempts` (integer)
+      - `consumed_at` (timestamptz, nullable) - set once the code confirmed the booking
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `issue_booking_otp(p_booking_id)` - admin only. Generates a fresh code for a
+      pending booking, stores its hash and returns the plain code once so it can be
+      sent to the customer on WhatsApp. Re-issuing replaces the previous code.
+    - `verify_booking_otp(p_booking_id, p_code)` - callable by anyone holding the
+      booking id. Checks expiry, replay and the attempt limit and, on success, flips
+      the booking to `confirmed` in the same transaction.
+
+  3. Security
+    - RLS enabled on `booking_otps` with no policies: rows are only reachable
+      through the SECURITY DEFINER functions above
+    - Booking inserts from non-admins must start as `pending` without a code, so a
+      customer can no longer create an already confirmed booking
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS booking_otps (
+  booking_id uuid PRIMARY KEY REFERENCES bookings(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  consumed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE booking_otps ENABLE ROW LEVEL SECURITY;
+
+-- Issue a new confirmation code for a pending booking (admin only)
+CREATE OR REPLACE FUNCTION issue_booking_otp(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_status text;
+  v_code text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue confirmation codes';
+  END IF;
+
+  SELECT status INTO v_status FROM bookings WHERE id = p_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Booking is already %', v_status;
+  END IF;
+
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO booking_otps (booking_id, code_hash, expires_at)
+  VALUES (p_booking_id, crypt(v_code, gen_salt('bf')), now() + interval '30 minutes')
+  ON CONFLICT (booking_id) DO UPDATE SET
+    code_hash = EXCLUDED.code_hash,
+    expires_at = EXCLUDED.expires_at,
+    attempts = 0,
+    consumed_at = NULL,
+    created_at = now();
+
+  RETURN v_code;
+END;
+$$;
+
+-- Verify a confirmation code and confirm the booking atomically.
+-- Returns a status instead of raising so failed attempts are not rolled back.
+CREATE OR REPLACE FUNCTION verify_booking_otp(p_booking_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_otp booking_otps%ROWTYPE;
+BEGIN
+  SELECT * INTO v_otp FROM booking_otps WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_issued');
+  END IF;
+
+  IF v_otp.consumed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_used');
+  END IF;
+
+  IF v_otp.attempts >= v_otp.max_attempts THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF v_otp.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF v_otp.code_hash <> crypt(p_code, v_otp.code_hash) THEN
+    UPDATE booking_otps SET attempts = attempts + 1 WHERE booking_id = p_booking_id;
+
+    IF v_otp.attempts + 1 >= v_otp.max_attempts THEN
+      RETURN jsonb_build_object('status', 'locked');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'invalid',
+      'attempts_remaining', v_otp.max_attempts - v_otp.attempts - 1
+    );
+  END IF;
+
+  UPDATE bookings
+  SET status = 'confirmed', confirmation_code = p_code
+  WHERE id = p_booking_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_pending');
+  END IF;
+
+  UPDATE booking_otps SET consumed_at = now() WHERE booking_id = p_booking_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$;
+
+REVOKE ALL ON FUNCTION issue_booking_otp(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION issue_booking_otp(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_booking_otp(uuid, text) TO anon, authenticated;
+
+-- Non-admin inserts must start unconfirmed and without a code
+DROP POLICY IF EXISTS "Allow booking creation for all users" ON bookings;
+
+CREATE POLICY "Allow booking creation for all users"
+  ON bookings
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    is_admin()
+    OR (
+      status = 'pending'
+      AND confirmation_code IS NULL
+      AND (
+        (user_id IS NULL)
+        OR
+        (auth.uid() IS NOT NULL AND auth.uid() = user_id)
+      )
+    )
+  );
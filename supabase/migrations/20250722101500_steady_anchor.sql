@@ -0,0 +1,70 @@
+/*
+  # Prevent double bookings
+
+  1. Changes to `bookings`
+    - `starts_at` (timestamp) - local wall-clock start derived from `date` + `time_slot`
+    - `ends_at` (timestamp) - local wall-clock end derived from `duration`
+    - Both are filled by a trigger, so clients keep sending `date`, `time_slot`
+      and `duration` exactly as before
+
+  2. Duration rules
+    - `1-hour`, `2-hours`, `4-hours` end that many hours after the start
+    - `1-day` runs until the end of the booked day
+    - `1-week` and `1-month` run until the end of the last day they cover
+
+  3. Constraints
+    - Exclusion constraint rejecting overlapping `pending` or `confirmed`
+      bookings of the same workspace type (SQLSTATE 23P01)
+
+  Timestamps are stored without a time zone on purpose: the space has a single
+  location and every booking is expressed in its local time.
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS starts_at timestamp;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS ends_at timestamp;
+
+-- Derive the booked period from date, time slot and duration
+CREATE OR REPLACE FUNCTION set_booking_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.starts_at := NEW.date + NEW.time_slot::time;
+
+  NEW.ends_at := CASE NEW.duration
+    WHEN '1-hour' THEN NEW.starts_at + interval '1 hour'
+    WHEN '2-hours' THEN NEW.starts_at + interval '2 hours'
+    WHEN '4-hours' THEN NEW.starts_at + interval '4 hours'
+    WHEN '1-day' THEN (NEW.date + 1)::timestamp
+    WHEN '1-week' THEN (NEW.date + 7)::timestamp
+    WHEN '1-month' THEN NEW.date + interval '1 month'
+  END;
+
+  IF NEW.ends_at IS NULL THEN
+    RAISE EXCEPTION 'Unknown booking duration: %', NEW.duration;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_bookings_period
+  BEFORE INSERT OR UPDATE OF date, time_slot, duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_period();
+
+-- Backfill existing bookings
+UPDATE bookings SET date = date;
+
+ALTER TABLE bookings ALTER COLUMN starts_at SET NOT NULL;
+ALTER TABLE bookings ALTER COLUMN ends_at SET NOT NULL;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap
+  EXCLUDE USING gist (
+    workspace_type WITH =,
+    tsrange(starts_at, ends_at) WITH &&
+  ) WHERE (status IN ('pending', 'confirmed'));
+
+CREATE INDEX IF NOT EXISTS bookings_workspace_period_idx
+  ON bookings (workspace_type, starts_at, ends_at);
@@ -0,0 +1,163 @@
+/*
+  # Workspace capacity and seat inventory
+
+  1. Changes to `workspace_types`
+    - `capacity` (integer) - how many units of this type can be booked at once
+    - `unit_label` (text) - singular noun for one unit, e.g. "desk" or "room"
+    - `unit_names` (text array) - optional named seats/rooms; when present the
+      capacity always equals the number of names
+
+  2. Changes to `bookings`
+    - `unit_name` (text, nullable) - the named seat/room assigned to the booking
+
+  3. Availability
+    - The `bookings_no_overlap` exclusion constraint is replaced by a trigger that
+      allows up to `capacity` overlapping pending/confirmed bookings per type and
+      assigns a free named unit when the type has them. It still fails with
+      SQLSTATE 23P01 so clients handle conflicts the same way.
+    - `get_booked_periods(...)` exposes booked periods (no customer data) so
+      anonymous visitors can see availability without reading `bookings`
+*/
+
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS capacity integer NOT NULL DEFAULT 1 CHECK (capacity > 0);
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS unit_label text NOT NULL DEFAULT 'space';
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS unit_names text[] DEFAULT '{}';
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS unit_name text;
+
+UPDATE workspace_types SET capacity = 12, unit_label = 'desk' WHERE name = 'Hot Desk';
+UPDATE workspace_types SET capacity = 4, unit_label = 'office' WHERE name = 'Private Office';
+UPDATE workspace_types SET capacity = 2, unit_label = 'room' WHERE name = 'Meeting Room';
+
+-- Keep capacity in sync with named units
+CREATE OR REPLACE FUNCTION sync_workspace_capacity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF coalesce(array_length(NEW.unit_names, 1), 0) > 0 THEN
+    NEW.capacity := array_length(NEW.unit_names, 1);
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER sync_workspace_types_capacity
+  BEFORE INSERT OR UPDATE ON workspace_types
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_workspace_capacity();
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+
+-- Reject bookings that would exceed the workspace capacity at any point in
+-- their period. Runs as definer so anonymous inserts still see every booking,
+-- and its trigger name sorts after set_bookings_period so it fires after it.
+CREATE OR REPLACE FUNCTION validate_booking_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_capacity integer;
+  v_unit_names text[];
+  v_peak integer;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize concurrent bookings of the same workspace type
+  PERFORM pg_advisory_xact_lock(hashtext('bookings:' || NEW.workspace_type));
+
+  SELECT capacity, unit_names INTO v_capacity, v_unit_names
+  FROM workspace_types
+  WHERE name = NEW.workspace_type;
+
+  v_capacity := coalesce(v_capacity, 1);
+
+  IF coalesce(array_length(v_unit_names, 1), 0) > 0 THEN
+    -- Keep the requested unit if it is free, otherwise take the first free one
+    IF NEW.unit_name IS NULL OR NOT (NEW.unit_name = ANY (v_unit_names)) OR EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.unit_name = NEW.unit_name
+        AND b.id <> NEW.id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.starts_at < NEW.ends_at
+        AND b.ends_at > NEW.starts_at
+    ) THEN
+      SELECT u INTO NEW.unit_name
+      FROM unnest(v_unit_names) WITH ORDINALITY AS t(u, ord)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.workspace_type = NEW.workspace_type
+          AND b.unit_name = t.u
+          AND b.id <> NEW.id
+          AND b.status IN ('pending', 'confirmed')
+          AND b.starts_at < NEW.ends_at
+          AND b.ends_at > NEW.starts_at
+      )
+      ORDER BY ord
+      LIMIT 1;
+
+      IF NEW.unit_name IS NULL THEN
+        RAISE EXCEPTION USING
+          ERRCODE = 'exclusion_violation',
+          MESSAGE = format('No %s is available for this time', NEW.workspace_type);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Peak concurrency inside the new period is reached at its start or at the
+  -- start of one of the overlapping bookings
+  SELECT max(cnt) INTO v_peak
+  FROM (
+    SELECT (
+      SELECT count(*) FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.id <> NEW.id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.starts_at <= p.point
+        AND b.ends_at > p.point
+    ) AS cnt
+    FROM (
+      SELECT NEW.starts_at AS point
+      UNION
+      SELECT b.starts_at FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.id <> NEW.id
+        AND b.status IN ('pending', 'confirmed')
+        AND b.starts_at > NEW.starts_at
+        AND b.starts_at < NEW.ends_at
+    ) p
+  ) counts;
+
+  IF coalesce(v_peak, 0) >= v_capacity THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = format('%s is fully booked for this time', NEW.workspace_type);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER validate_bookings_capacity
+  BEFORE INSERT OR UPDATE OF date, time_slot, duration, status, workspace_type, unit_name ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking_capacity();
+
+-- Booked periods overlapping a window, without any customer details
+CREATE OR REPLACE FUNCTION get_booked_periods(p_workspace_type text, p_from timestamp, p_to timestamp)
+RETURNS TABLE (starts_at timestamp, ends_at timestamp, unit_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.starts_at, b.ends_at, b.unit_name
+  FROM bookings b
+  WHERE b.workspace_type = p_workspace_type
+    AND b.status IN ('pending', 'confirmed')
+    AND b.starts_at < p_to
+    AND b.ends_at > p_from;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booked_periods(text, timestamp, timestamp) TO anon, authenticated;
@@ -0,0 +1,128 @@
+/*
+  # Opening hours, holidays and blackout dates
+
+  1. New Tables
+    - `opening_hours`
+      - `weekday` (smallint, primary key) - 0 = Sunday ... 6 = Saturday
+      - `opens_at` (time)
+      - `closes_at` (time)
+      - `is_closed` (boolean) - closed all day every week
+      - `updated_at` (timestamptz)
+    - `closure_dates`
+      - `id` (uuid, primary key)
+      - `date` (date, unique)
+      - `closure_type` (text) - 'holiday' or 'blackout'
+      - `reason` (text, nullable)
+      - `created_at` (timestamptz)
+
+  2. Booking rules
+    - Bookings cannot start on a closed weekday or a closure date
+    - Bookings must start within opening hours, and hourly bookings must end by
+      closing time
+
+  3. Security
+    - Public read access so the booking page can build its slots
+    - Admin management through `is_admin()`
+*/
+
+CREATE TABLE IF NOT EXISTS opening_hours (
+  weekday smallint PRIMARY KEY CHECK (weekday BETWEEN 0 AND 6),
+  opens_at time NOT NULL DEFAULT '09:00',
+  closes_at time NOT NULL DEFAULT '17:00',
+  is_closed boolean DEFAULT false,
+  updated_at timestamptz DEFAULT now(),
+  CHECK (closes_at > opens_at)
+);
+
+CREATE TABLE IF NOT EXISTS closure_dates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date UNIQUE NOT NULL,
+  closure_type text NOT NULL DEFAULT 'holiday' CHECK (closure_type IN ('holiday', 'blackout')),
+  reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE opening_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE closure_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view opening hours"
+  ON opening_hours
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage opening hours"
+  ON opening_hours
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Anyone can view closure dates"
+  ON closure_dates
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "Admins can manage closure dates"
+  ON closure_dates
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_opening_hours_updated_at
+  BEFORE UPDATE ON opening_hours
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Match the hours advertised in contact_hours
+INSERT INTO opening_hours (weekday, opens_at, closes_at) VALUES
+  (0, '08:00', '20:00'),
+  (1, '06:00', '22:00'),
+  (2, '06:00', '22:00'),
+  (3, '06:00', '22:00'),
+  (4, '06:00', '22:00'),
+  (5, '06:00', '22:00'),
+  (6, '08:00', '20:00')
+ON CONFLICT (weekday) DO NOTHING;
+
+-- Reject bookings outside opening hours or on closed dates
+CREATE OR REPLACE FUNCTION validate_booking_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_hours opening_hours%ROWTYPE;
+  v_closure closure_dates%ROWTYPE;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_closure FROM closure_dates WHERE date = NEW.date;
+  IF FOUND THEN
+    RAISE EXCEPTION 'We are closed on % (%)', NEW.date, coalesce(v_closure.reason, v_closure.closure_type);
+  END IF;
+
+  SELECT * INTO v_hours FROM opening_hours WHERE weekday = extract(dow FROM NEW.date);
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_hours.is_closed THEN
+    RAISE EXCEPTION 'We are closed on %s', to_char(NEW.date, 'FMDay');
+  END IF;
+
+  IF NEW.starts_at::time < v_hours.opens_at OR NEW.starts_at::time >= v_hours.closes_at THEN
+    RAISE EXCEPTION 'Bookings on % must start between % and %', NEW.date, v_hours.opens_at, v_hours.closes_at;
+  END IF;
+
+  IF NEW.duration IN ('1-hour', '2-hours', '4-hours') AND NEW.ends_at > NEW.date + v_hours.closes_at THEN
+    RAISE EXCEPTION 'Bookings on % must end by %', NEW.date, v_hours.closes_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Trigger name sorts after set_bookings_period so starts_at/ends_at are set
+CREATE TRIGGER validate_bookings_hours
+  BEFORE INSERT OR UPDATE OF date, time_slot, duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION validate_booking_hours();
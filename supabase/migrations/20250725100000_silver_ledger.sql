@@ -0,0 +1,176 @@
+/*
+  # Booking pricing engine
+
+  1. Changes to `workspace_types`
+    - `hourly_rate`, `daily_rate`, `weekly_rate`, `monthly_rate` (numeric, nullable)
+      Optional explicit rates. Missing rates are derived from `price` and
+      `price_unit` assuming 8 hours per day, 7 days per week and 30 days per month.
+
+  2. New Tables
+    - `pricing_rules`
+      - `id` (uuid, primary key)
+      - `name` (text) - shown to customers in the price breakdown
+      - `workspace_type` (text, nullable) - null applies to every type
+      - `weekdays` (smallint array) - 0 = Sunday ... 6 = Saturday; empty means every day
+      - `starts_at`, `ends_at` (time, nullable) - optional time window; rules with a
+        window only apply to hourly bookings starting inside it
+      - `multiplier` (numeric) - e.g. 1.25 for peak, 0.8 for off-peak
+      - `is_active` (boolean)
+      - `display_order` (integer)
+
+  3. New Functions
+    - `get_booking_quote(...)` - price breakdown for a prospective booking, used by
+      the booking page for display
+    - Trigger `apply_bookings_price` overwrites `total_price` with the same quote
+      whenever a booking is created or its workspace, date, time or duration
+      changes, so clients cannot choose their own price. Admins can still set a
+      custom price on update.
+
+  4. Security
+    - Public read access to active pricing rules, admin management via `is_admin()`
+*/
+
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS hourly_rate numeric CHECK (hourly_rate >= 0);
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS daily_rate numeric CHECK (daily_rate >= 0);
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS weekly_rate numeric CHECK (weekly_rate >= 0);
+ALTER TABLE workspace_types ADD COLUMN IF NOT EXISTS monthly_rate numeric CHECK (monthly_rate >= 0);
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  workspace_type text,
+  weekdays smallint[] DEFAULT '{}',
+  starts_at time,
+  ends_at time,
+  multiplier numeric NOT NULL DEFAULT 1 CHECK (multiplier > 0),
+  is_active boolean DEFAULT true,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((starts_at IS NULL) = (ends_at IS NULL)),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active pricing rules"
+  ON pricing_rules
+  FOR SELECT
+  TO public
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage pricing rules"
+  ON pricing_rules
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_pricing_rules_updated_at
+  BEFORE UPDATE ON pricing_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Example rules, inactive until an admin turns them on
+INSERT INTO pricing_rules (name, weekdays, starts_at, ends_at, multiplier, is_active, display_order) VALUES
+  ('Peak hours', '{1,2,3,4,5}', '10:00', '16:00', 1.25, false, 1),
+  ('Off-peak evening', '{}', '18:00', '22:00', 0.8, false, 2),
+  ('Weekend surcharge', '{0,6}', NULL, NULL, 1.2, false, 3);
+
+CREATE OR REPLACE FUNCTION get_booking_quote(
+  p_workspace_type text,
+  p_duration text,
+  p_date date DEFAULT NULL,
+  p_time_slot text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  w workspace_types%ROWTYPE;
+  r pricing_rules%ROWTYPE;
+  v_daily numeric;
+  v_hours integer;
+  v_base numeric;
+  v_total numeric;
+  v_start time;
+  v_adjustments jsonb := '[]'::jsonb;
+BEGIN
+  SELECT * INTO w FROM workspace_types WHERE name = p_workspace_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown workspace type: %', p_workspace_type;
+  END IF;
+
+  -- Advertised price expressed per day, used for any rate not set explicitly
+  v_daily := CASE w.price_unit
+    WHEN 'hour' THEN w.price * 8
+    WHEN 'week' THEN w.price / 7
+    WHEN 'month' THEN w.price / 30
+    ELSE w.price
+  END;
+
+  v_hours := CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+  END;
+
+  v_base := CASE p_duration
+    WHEN '1-day' THEN coalesce(w.daily_rate, v_daily)
+    WHEN '1-week' THEN coalesce(w.weekly_rate, coalesce(w.daily_rate, v_daily) * 7)
+    WHEN '1-month' THEN coalesce(w.monthly_rate, coalesce(w.daily_rate, v_daily) * 30)
+    ELSE coalesce(w.hourly_rate, v_daily / 8) * v_hours
+  END;
+
+  IF v_base IS NULL THEN
+    RAISE EXCEPTION 'Unknown booking duration: %', p_duration;
+  END IF;
+
+  v_total := v_base;
+
+  IF p_date IS NOT NULL THEN
+    v_start := CASE WHEN p_time_slot IS NOT NULL THEN p_time_slot::time END;
+
+    FOR r IN
+      SELECT * FROM pricing_rules
+      WHERE is_active = true
+        AND (workspace_type IS NULL OR workspace_type = p_workspace_type)
+      ORDER BY display_order, created_at
+    LOOP
+      CONTINUE WHEN cardinality(r.weekdays) > 0 AND NOT (extract(dow FROM p_date)::smallint = ANY (r.weekdays));
+      CONTINUE WHEN r.starts_at IS NOT NULL
+        AND (v_hours IS NULL OR v_start IS NULL OR v_start < r.starts_at OR v_start >= r.ends_at);
+
+      v_total := v_total * r.multiplier;
+      v_adjustments := v_adjustments || jsonb_build_object('name', r.name, 'multiplier', r.multiplier);
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'base_price', round(v_base, 2),
+    'adjustments', v_adjustments,
+    'total_price', round(v_total, 2)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_quote(text, text, date, text) TO anon, authenticated;
+
+-- Price every booking on the server
+CREATE OR REPLACE FUNCTION apply_booking_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND is_admin() AND NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.total_price := (get_booking_quote(NEW.workspace_type, NEW.duration, NEW.date, NEW.time_slot) ->> 'total_price')::numeric;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER apply_bookings_price
+  BEFORE INSERT OR UPDATE OF workspace_type, date, time_slot, duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_price();
@@ -0,0 +1,283 @@
+/*
+  # Promo codes and discount vouchers
+
+  1. New Tables
+    - `promo_codes`
+      - `id` (uuid, primary key)
+      - `code` (text, unique) - stored upper case, matched case-insensitively
+      - `description` (text, nullable)
+      - `discount_type` (text) - 'percentage' or 'fixed'
+      - `discount_value` (numeric) - percent off, or amount off in E£
+      - `valid_from`, `valid_until` (timestamptz, nullable) - redemption window
+      - `max_uses` (integer, nullable) - total redemptions allowed
+      - `max_uses_per_customer` (integer, nullable) - redemptions per customer email
+      - `workspace_types` (text array) - empty means every workspace type
+      - `is_active` (boolean)
+
+  2. Changes to `bookings`
+    - `promo_code` (text, nullable) - the code applied to the booking
+    - `discount_amount` (numeric) - amount taken off the price
+
+  3. Pricing
+    - `get_booking_quote(...)` accepts a promo code and customer email and
+      reports the discount, or why the code cannot be used
+    - The `apply_bookings_price` trigger rejects bookings with an unusable code
+      and records the discount. Pending and confirmed bookings count as
+      redemptions; rejected and cancelled ones free their redemption again.
+    - Bookings keep a code they already redeemed when they are repriced, even
+      if the code has since expired or been disabled.
+
+  4. Security
+    - Codes are only readable by admins so campaigns cannot be enumerated
+*/
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text UNIQUE NOT NULL CHECK (code = upper(code) AND code <> ''),
+  description text,
+  discount_type text NOT NULL DEFAULT 'percentage' CHECK (discount_type IN ('percentage', 'fixed')),
+  discount_value numeric NOT NULL CHECK (discount_value > 0),
+  valid_from timestamptz,
+  valid_until timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  max_uses_per_customer integer CHECK (max_uses_per_customer > 0),
+  workspace_types text[] DEFAULT '{}',
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS promo_code text;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS discount_amount numeric NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS bookings_promo_code_idx ON bookings (promo_code) WHERE promo_code IS NOT NULL;
+
+-- Discount a promo code gives on a subtotal. Raises with a customer-facing
+-- message when the code cannot be used.
+CREATE OR REPLACE FUNCTION get_promo_discount(
+  p_code text,
+  p_workspace_type text,
+  p_customer_email text,
+  p_subtotal numeric,
+  p_booking_id uuid DEFAULT NULL
+)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_redeemed boolean;
+  v_uses integer;
+  v_discount numeric;
+BEGIN
+  SELECT * INTO v_promo FROM promo_codes WHERE code = upper(trim(p_code));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promo code % is not valid', upper(trim(p_code));
+  END IF;
+
+  IF cardinality(v_promo.workspace_types) > 0 AND NOT (p_workspace_type = ANY (v_promo.workspace_types)) THEN
+    RAISE EXCEPTION 'Promo code % does not apply to %', v_promo.code, p_workspace_type;
+  END IF;
+
+  v_redeemed := p_booking_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM bookings WHERE id = p_booking_id AND promo_code = v_promo.code
+  );
+
+  IF NOT v_redeemed THEN
+    IF NOT v_promo.is_active
+      OR (v_promo.valid_from IS NOT NULL AND now() < v_promo.valid_from)
+      OR (v_promo.valid_until IS NOT NULL AND now() > v_promo.valid_until) THEN
+      RAISE EXCEPTION 'Promo code % is not active right now', v_promo.code;
+    END IF;
+
+    IF v_promo.max_uses IS NOT NULL THEN
+      SELECT count(*) INTO v_uses FROM bookings
+      WHERE promo_code = v_promo.code
+        AND status IN ('pending', 'confirmed');
+
+      IF v_uses >= v_promo.max_uses THEN
+        RAISE EXCEPTION 'Promo code % has reached its usage limit', v_promo.code;
+      END IF;
+    END IF;
+
+    IF v_promo.max_uses_per_customer IS NOT NULL AND p_customer_email IS NOT NULL THEN
+      SELECT count(*) INTO v_uses FROM bookings
+      WHERE promo_code = v_promo.code
+        AND lower(customer_email) = lower(p_customer_email)
+        AND status IN ('pending', 'confirmed');
+
+      IF v_uses >= v_promo.max_uses_per_customer THEN
+        RAISE EXCEPTION 'You have already used promo code % the maximum number of times', v_promo.code;
+      END IF;
+    END IF;
+  END IF;
+
+  v_discount := CASE v_promo.discount_type
+    WHEN 'percentage' THEN p_subtotal * v_promo.discount_value / 100
+    ELSE v_promo.discount_value
+  END;
+
+  RETURN round(least(v_discount, p_subtotal), 2);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_booking_quote(text, text, date, text);
+
+CREATE OR REPLACE FUNCTION get_booking_quote(
+  p_workspace_type text,
+  p_duration text,
+  p_date date DEFAULT NULL,
+  p_time_slot text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_booking_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  w workspace_types%ROWTYPE;
+  r pricing_rules%ROWTYPE;
+  v_daily numeric;
+  v_hours integer;
+  v_base numeric;
+  v_subtotal numeric;
+  v_start time;
+  v_adjustments jsonb := '[]'::jsonb;
+  v_promo_code text := nullif(upper(trim(p_promo_code)), '');
+  v_discount numeric := 0;
+  v_promo_error text;
+BEGIN
+  SELECT * INTO w FROM workspace_types WHERE name = p_workspace_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown workspace type: %', p_workspace_type;
+  END IF;
+
+  -- Advertised price expressed per day, used for any rate not set explicitly
+  v_daily := CASE w.price_unit
+    WHEN 'hour' THEN w.price * 8
+    WHEN 'week' THEN w.price / 7
+    WHEN 'month' THEN w.price / 30
+    ELSE w.price
+  END;
+
+  v_hours := CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+  END;
+
+  v_base := CASE p_duration
+    WHEN '1-day' THEN coalesce(w.daily_rate, v_daily)
+    WHEN '1-week' THEN coalesce(w.weekly_rate, coalesce(w.daily_rate, v_daily) * 7)
+    WHEN '1-month' THEN coalesce(w.monthly_rate, coalesce(w.daily_rate, v_daily) * 30)
+    ELSE coalesce(w.hourly_rate, v_daily / 8) * v_hours
+  END;
+
+  IF v_base IS NULL THEN
+    RAISE EXCEPTION 'Unknown booking duration: %', p_duration;
+  END IF;
+
+  v_subtotal := v_base;
+
+  IF p_date IS NOT NULL THEN
+    v_start := CASE WHEN p_time_slot IS NOT NULL THEN p_time_slot::time END;
+
+    FOR r IN
+      SELECT * FROM pricing_rules
+      WHERE is_active = true
+        AND (workspace_type IS NULL OR workspace_type = p_workspace_type)
+      ORDER BY display_order, created_at
+    LOOP
+      CONTINUE WHEN cardinality(r.weekdays) > 0 AND NOT (extract(dow FROM p_date)::smallint = ANY (r.weekdays));
+      CONTINUE WHEN r.starts_at IS NOT NULL
+        AND (v_hours IS NULL OR v_start IS NULL OR v_start < r.starts_at OR v_start >= r.ends_at);
+
+      v_subtotal := v_subtotal * r.multiplier;
+      v_adjustments := v_adjustments || jsonb_build_object('name', r.name, 'multiplier', r.multiplier);
+    END LOOP;
+  END IF;
+
+  v_subtotal := round(v_subtotal, 2);
+
+  IF v_promo_code IS NOT NULL THEN
+    BEGIN
+      v_discount := get_promo_discount(v_promo_code, p_workspace_type, p_customer_email, v_subtotal, p_booking_id);
+    EXCEPTION WHEN raise_exception THEN
+      v_promo_error := SQLERRM;
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'base_price', round(v_base, 2),
+    'adjustments', v_adjustments,
+    'subtotal', v_subtotal,
+    'promo_code', v_promo_code,
+    'promo_error', v_promo_error,
+    'discount_amount', v_discount,
+    'total_price', v_subtotal - v_discount
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_quote(text, text, date, text, text, text, uuid) TO anon, authenticated;
+
+-- Price every booking on the server, including its promo code
+CREATE OR REPLACE FUNCTION apply_booking_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_quote jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' AND is_admin() AND NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.promo_code := nullif(upper(trim(NEW.promo_code)), '');
+
+  -- Serialize redemptions of the same code so usage limits hold
+  IF NEW.promo_code IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('promo:' || NEW.promo_code));
+  END IF;
+
+  v_quote := get_booking_quote(
+    NEW.workspace_type, NEW.duration, NEW.date, NEW.time_slot,
+    NEW.promo_code, NEW.customer_email,
+    CASE WHEN TG_OP = 'UPDATE' THEN NEW.id END
+  );
+
+  IF v_quote ->> 'promo_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote ->> 'promo_error';
+  END IF;
+
+  NEW.discount_amount := (v_quote ->> 'discount_amount')::numeric;
+  NEW.total_price := (v_quote ->> 'total_price')::numeric;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS apply_bookings_price ON bookings;
+
+CREATE TRIGGER apply_bookings_price
+  BEFORE INSERT OR UPDATE OF workspace_type, date, time_slot, duration, promo_code ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_price();
@@ -0,0 +1,117 @@
+/*
+  # Customer self-service for bookings
+
+  1. Settings
+    - `site_timezone` - time zone of the space, used to compare the local
+      wall-clock booking times with the current time
+
+  2. New Functions
+    - `local_now()` - current wall-clock time at the space
+    - `cancel_booking(p_booking_id)` - cancels one of the caller's own
+      bookings
+    - `reschedule_booking(p_booking_id, p_date, p_time_slot)` - moves one of the
+      caller's own bookings; capacity, opening hours and pricing triggers run
+      exactly as for a new booking
+
+  3. Rules
+    - Only pending or confirmed bookings can be changed
+    - Customers can change a booking until 24 hours before it starts; admins
+      can change it at any time
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public)
+VALUES ('site_timezone', 'Africa/Cairo', 'Time zone of the space (IANA name)', 'text', true)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION local_now()
+RETURNS timestamp
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT now() AT TIME ZONE coalesce(
+    (SELECT value FROM site_settings WHERE key = 'site_timezone'),
+    'UTC'
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION local_now() TO anon, authenticated;
+
+-- Load a booking the caller may change, or raise why they cannot
+CREATE OR REPLACE FUNCTION get_changeable_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR NOT (is_admin() OR (auth.uid() IS NOT NULL AND v_booking.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is % and can no longer be changed', v_booking.status;
+  END IF;
+
+  IF NOT is_admin() AND v_booking.starts_at - interval '24 hours' < local_now() THEN
+    RAISE EXCEPTION 'Bookings can only be changed up to 24 hours before they start';
+  END IF;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  v_booking := get_changeable_booking(p_booking_id);
+
+  UPDATE bookings
+  SET status = 'cancelled'
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(p_booking_id uuid, p_date date, p_time_slot text)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  v_booking := get_changeable_booking(p_booking_id);
+
+  IF NOT is_admin() AND p_date + p_time_slot::time < local_now() THEN
+    RAISE EXCEPTION 'Bookings cannot be moved into the past';
+  END IF;
+
+  UPDATE bookings
+  SET date = p_date,
+      time_slot = p_time_slot
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_changeable_booking(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION cancel_booking(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, date, text) TO authenticated;
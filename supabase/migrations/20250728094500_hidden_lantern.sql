@@ -0,0 +1,240 @@
+/*
+  # Guest booking lookup
+
+  1. Security
+    - Drops the "Allow viewing bookings" select policy. Customers keep
+      "Users can view their own bookings" and admins keep
+      "Admins can view all bookings" (now using `is_admin()`).
+    - Guests reach their booking only through the functions below, which need
+      both the customer email and the confirmation code
+
+  2. New Tables
+    - `booking_lookup_attempts` - failed guest lookups per email, used to lock
+      an email for 15 minutes after 5 failures. Not readable by clients.
+
+  3. New Functions
+    - `get_guest_booking(p_email, p_code)` - booking details without contact data
+    - `cancel_guest_booking(p_email, p_code)`
+    - `reschedule_guest_booking(p_email, p_code, p_date, p_time_slot)`
+    All return jsonb with a `status` of 'found', 'cancelled', 'rescheduled',
+    'not_found' or 'locked'. Failed lookups are returned rather than raised so
+    the attempt is recorded.
+    - `check_booking_changeable(...)` - the status and 24-hour rules shared by
+      customer and guest changes
+*/
+
+DROP POLICY IF EXISTS "Allow viewing bookings" ON bookings;
+DROP POLICY IF EXISTS "Admins can view all bookings" ON bookings;
+
+CREATE POLICY "Admins can view all bookings"
+  ON bookings
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TABLE IF NOT EXISTS booking_lookup_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  attempted_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_lookup_attempts_email_idx
+  ON booking_lookup_attempts (email, attempted_at);
+
+ALTER TABLE booking_lookup_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Status and cutoff rules for changing a booking
+CREATE OR REPLACE FUNCTION check_booking_changeable(p_booking bookings)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is % and can no longer be changed', p_booking.status;
+  END IF;
+
+  IF NOT is_admin() AND p_booking.starts_at - interval '24 hours' < local_now() THEN
+    RAISE EXCEPTION 'Bookings can only be changed up to 24 hours before they start';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_changeable_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR NOT (is_admin() OR (auth.uid() IS NOT NULL AND v_booking.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  PERFORM check_booking_changeable(v_booking);
+  RETURN v_booking;
+END;
+$$;
+
+-- Finds a guest booking by email and confirmation code, recording failures.
+-- Returns NULL when not found; p_locked tells whether the email is locked out.
+CREATE OR REPLACE FUNCTION find_guest_booking(p_email text, p_code text, OUT p_booking bookings, OUT p_locked boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+BEGIN
+  p_locked := (
+    SELECT count(*) FROM booking_lookup_attempts
+    WHERE email = v_email
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5;
+
+  IF p_locked THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO p_booking FROM bookings
+  WHERE lower(customer_email) = v_email
+    AND confirmation_code = trim(p_code)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF p_booking.id IS NULL THEN
+    INSERT INTO booking_lookup_attempts (email) VALUES (v_email);
+    p_booking := NULL;
+  END IF;
+END;
+$$;
+
+-- Booking fields a guest may see
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_guest_booking(p_email text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'found', 'booking', guest_booking_json(v_found.p_booking));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_guest_booking(p_email text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  v_booking := v_found.p_booking;
+  PERFORM check_booking_changeable(v_booking);
+
+  UPDATE bookings
+  SET status = 'cancelled'
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN jsonb_build_object('status', 'cancelled', 'booking', guest_booking_json(v_booking));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_guest_booking(p_email text, p_code text, p_date date, p_time_slot text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  v_booking := v_found.p_booking;
+  PERFORM check_booking_changeable(v_booking);
+
+  IF p_date + p_time_slot::time < local_now() THEN
+    RAISE EXCEPTION 'Bookings cannot be moved into the past';
+  END IF;
+
+  UPDATE bookings
+  SET date = p_date,
+      time_slot = p_time_slot
+  WHERE id = v_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN jsonb_build_object('status', 'rescheduled', 'booking', guest_booking_json(v_booking));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_booking_changeable(bookings) FROM public;
+REVOKE EXECUTE ON FUNCTION find_guest_booking(text, text) FROM public;
+GRANT EXECUTE ON FUNCTION get_guest_booking(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_guest_booking(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_guest_booking(text, text, date, text) TO anon, authenticated;
@@ -0,0 +1,274 @@
+/*
+  # Cancellation and rescheduling policy
+
+  1. Settings (editable in the CMS, all in hours or percent)
+    - `cancellation_cutoff_hours` - no cancellations closer to the start than this
+    - `cancellation_free_hours` - cancelling earlier than this is free
+    - `cancellation_fee_percent` - fee for cancelling inside the free window
+    - `reschedule_cutoff_hours`, `reschedule_free_hours`, `reschedule_fee_percent`
+      - the same rules for moving a booking
+
+  2. Changes to `bookings`
+    - `cancelled_at` (timestamptz, nullable)
+    - `cancellation_fee` (numeric) - fee charged when the booking was cancelled
+    - `reschedule_count` (integer)
+    - `reschedule_fees` (numeric) - total fees charged for reschedules
+
+  3. Rules
+    - `check_booking_changeable(booking, action)` now reads the settings above
+      and returns the fee instead of using a fixed 24-hour cutoff
+    - Pending bookings have not been paid yet, so changing them is free
+    - Admins can change any booking at any time without a fee
+    - Cancelled bookings no longer count towards capacity, so their slot is
+      released immediately
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public) VALUES
+  ('cancellation_cutoff_hours', '2', 'Cancellations close this many hours before a booking starts', 'number', true),
+  ('cancellation_free_hours', '24', 'Free cancellation until this many hours before a booking starts', 'number', true),
+  ('cancellation_fee_percent', '50', 'Fee (percent of the price) for late cancellations', 'number', true),
+  ('reschedule_cutoff_hours', '2', 'Rescheduling closes this many hours before a booking starts', 'number', true),
+  ('reschedule_free_hours', '24', 'Free rescheduling until this many hours before a booking starts', 'number', true),
+  ('reschedule_fee_percent', '10', 'Fee (percent of the price) for late reschedules', 'number', true)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS cancellation_fee numeric NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reschedule_count integer NOT NULL DEFAULT 0;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reschedule_fees numeric NOT NULL DEFAULT 0;
+
+-- Numeric value of a policy setting, falling back when it is missing or malformed
+CREATE OR REPLACE FUNCTION get_policy_setting(p_key text, p_default numeric)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (SELECT value::numeric FROM site_settings WHERE key = p_key AND value ~ '^\d+(\.\d+)?$'),
+    p_default
+  );
+$$;
+
+DROP FUNCTION IF EXISTS get_changeable_booking(uuid);
+DROP FUNCTION IF EXISTS check_booking_changeable(bookings);
+
+-- Checks that a booking may be cancelled or rescheduled and returns the fee
+CREATE OR REPLACE FUNCTION check_booking_changeable(p_booking bookings, p_action text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_hours_left numeric;
+  v_cutoff numeric;
+  v_free numeric;
+  v_fee_percent numeric;
+BEGIN
+  IF p_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is % and can no longer be changed', p_booking.status;
+  END IF;
+
+  IF is_admin() THEN
+    RETURN 0;
+  END IF;
+
+  v_hours_left := extract(epoch FROM p_booking.starts_at - local_now()) / 3600;
+  v_cutoff := get_policy_setting(p_action || '_cutoff_hours', 2);
+  v_free := get_policy_setting(p_action || '_free_hours', 24);
+  v_fee_percent := get_policy_setting(p_action || '_fee_percent', 0);
+
+  IF v_hours_left < v_cutoff THEN
+    RAISE EXCEPTION 'Bookings can only be % up to % hours before they start',
+      CASE p_action WHEN 'cancellation' THEN 'cancelled' ELSE 'rescheduled' END,
+      v_cutoff;
+  END IF;
+
+  IF p_booking.status = 'pending' OR v_hours_left >= v_free THEN
+    RETURN 0;
+  END IF;
+
+  RETURN round(p_booking.total_price * v_fee_percent / 100, 2);
+END;
+$$;
+
+-- A booking the caller owns (or any booking for admins)
+CREATE OR REPLACE FUNCTION get_own_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR NOT (is_admin() OR (auth.uid() IS NOT NULL AND v_booking.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN v_booking;
+END;
+$$;
+
+-- Shared by customer and guest flows once the booking has been found
+CREATE OR REPLACE FUNCTION apply_booking_cancellation(p_booking bookings)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee numeric;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  v_fee := check_booking_changeable(p_booking, 'cancellation');
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_fee = v_fee
+  WHERE id = p_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_booking_reschedule(p_booking bookings, p_date date, p_time_slot text)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee numeric;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  v_fee := check_booking_changeable(p_booking, 'reschedule');
+
+  IF NOT is_admin() AND p_date + p_time_slot::time < local_now() THEN
+    RAISE EXCEPTION 'Bookings cannot be moved into the past';
+  END IF;
+
+  UPDATE bookings
+  SET date = p_date,
+      time_slot = p_time_slot,
+      reschedule_count = reschedule_count + 1,
+      reschedule_fees = reschedule_fees + v_fee
+  WHERE id = p_booking.id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT apply_booking_cancellation(get_own_booking(p_booking_id));
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(p_booking_id uuid, p_date date, p_time_slot text)
+RETURNS bookings
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT apply_booking_reschedule(get_own_booking(p_booking_id), p_date, p_time_slot);
+$$;
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_guest_booking(p_email text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'cancelled',
+    'booking', guest_booking_json(apply_booking_cancellation(v_found.p_booking))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_guest_booking(p_email text, p_code text, p_date date, p_time_slot text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'rescheduled',
+    'booking', guest_booking_json(apply_booking_reschedule(v_found.p_booking, p_date, p_time_slot))
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_booking_changeable(bookings, text) FROM public;
+REVOKE EXECUTE ON FUNCTION get_own_booking(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION apply_booking_cancellation(bookings) FROM public;
+REVOKE EXECUTE ON FUNCTION apply_booking_reschedule(bookings, date, text) FROM public;
+GRANT EXECUTE ON FUNCTION cancel_booking(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, date, text) TO authenticated;
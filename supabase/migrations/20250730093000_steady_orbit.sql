@@ -0,0 +1,410 @@
+/*
+  # Recurring bookings
+
+  1. New Tables
+    - `booking_series`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - the customer who booked the series
+      - `workspace_type`, `time_slot`, `duration` - shared by every occurrence
+      - `frequency` (text) - 'daily' or 'weekly'
+      - `weekdays` (smallint[]) - 0 = Sunday, used by weekly series
+      - `starts_on` (date)
+      - `until_date` (date, nullable) / `occurrence_limit` (integer, nullable)
+        - exactly one of them ends the series
+    - Customers can read their own series and admins all of them. Rows are
+      only written through the functions below.
+
+  2. Changes to `bookings`
+    - `series_id` (uuid, nullable) - the series an occurrence belongs to
+
+  3. New Functions
+    - `create_booking_series(...)` - signed-in customers only. Expands the
+      schedule into dates (at most 52, within a year) and inserts one pending
+      booking per date, so each occurrence goes through the usual pricing,
+      opening hours and capacity triggers. Returns every occurrence with its
+      price or the reason it cannot be booked.
+      - `p_dry_run` checks availability without saving anything
+      - otherwise nothing is saved when an occurrence conflicts, unless
+        `p_skip_conflicts` asks to book only the available dates
+      - daily series skip weekdays we are always closed on
+    - `cancel_booking_series(p_series_id)` - cancels every upcoming occurrence
+      the cancellation policy still allows and keeps the rest
+    - `reschedule_booking_series(p_series_id, p_time_slot)` - moves every
+      upcoming occurrence to a new start time, or none when one conflicts
+
+  4. Changes
+    - `verify_booking_otp` confirms the other pending occurrences of a series
+      with the same code, so a series is paid and confirmed once
+*/
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  workspace_type text NOT NULL,
+  time_slot text NOT NULL,
+  duration text NOT NULL,
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  weekdays smallint[] NOT NULL DEFAULT '{}',
+  starts_on date NOT NULL,
+  until_date date,
+  occurrence_limit integer CHECK (occurrence_limit > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking series"
+  ON booking_series
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id OR is_admin());
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES booking_series(id);
+
+CREATE INDEX IF NOT EXISTS bookings_series_id_idx ON bookings (series_id);
+
+-- A series the caller owns (or any series for admins)
+CREATE OR REPLACE FUNCTION get_own_series(p_series_id uuid)
+RETURNS booking_series
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series booking_series%ROWTYPE;
+BEGIN
+  SELECT * INTO v_series FROM booking_series WHERE id = p_series_id;
+
+  IF NOT FOUND OR NOT (is_admin() OR (auth.uid() IS NOT NULL AND v_series.user_id = auth.uid())) THEN
+    RAISE EXCEPTION 'Booking series not found';
+  END IF;
+
+  RETURN v_series;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_promo_code text,
+  p_frequency text,
+  p_weekdays smallint[],
+  p_until date,
+  p_occurrences integer,
+  p_dry_run boolean DEFAULT true,
+  p_skip_conflicts boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_series_id uuid := gen_random_uuid();
+  v_first_booking_id uuid;
+  v_dates date[];
+  v_date date;
+  v_booking bookings%ROWTYPE;
+  v_occurrences jsonb := '[]'::jsonb;
+  v_booked integer := 0;
+  v_conflicts integer := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please sign in to book a recurring series';
+  END IF;
+
+  IF p_frequency NOT IN ('daily', 'weekly') THEN
+    RAISE EXCEPTION 'Unknown repeat frequency %', p_frequency;
+  END IF;
+
+  IF p_frequency = 'weekly' AND coalesce(array_length(p_weekdays, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one weekday for a weekly series';
+  END IF;
+
+  IF (p_until IS NULL) = (p_occurrences IS NULL) THEN
+    RAISE EXCEPTION 'Choose either an end date or a number of occurrences';
+  END IF;
+
+  IF p_date < local_now()::date THEN
+    RAISE EXCEPTION 'A series cannot start in the past';
+  END IF;
+
+  IF p_until < p_date OR p_until > p_date + 365 THEN
+    RAISE EXCEPTION 'A series must end within a year of its first booking';
+  END IF;
+
+  IF p_occurrences NOT BETWEEN 1 AND 52 THEN
+    RAISE EXCEPTION 'A series can have between 1 and 52 occurrences';
+  END IF;
+
+  SELECT array_agg(d ORDER BY d) INTO v_dates
+  FROM (
+    SELECT day::date AS d
+    FROM generate_series(p_date, coalesce(p_until, p_date + 365), interval '1 day') AS day
+    WHERE CASE p_frequency
+      WHEN 'weekly' THEN extract(dow FROM day)::smallint = ANY (p_weekdays)
+      ELSE NOT EXISTS (
+        SELECT 1 FROM opening_hours h
+        WHERE h.weekday = extract(dow FROM day) AND h.is_closed
+      )
+    END
+    ORDER BY day
+    LIMIT coalesce(p_occurrences, 52)
+  ) dates;
+
+  IF v_dates IS NULL THEN
+    RAISE EXCEPTION 'No dates match this schedule';
+  END IF;
+
+  BEGIN
+    INSERT INTO booking_series (
+      id, user_id, workspace_type, time_slot, duration,
+      frequency, weekdays, starts_on, until_date, occurrence_limit
+    ) VALUES (
+      v_series_id, auth.uid(), p_workspace_type, p_time_slot, p_duration,
+      p_frequency, coalesce(p_weekdays, '{}'), p_date, p_until, p_occurrences
+    );
+
+    FOREACH v_date IN ARRAY v_dates LOOP
+      BEGIN
+        INSERT INTO bookings (
+          workspace_type, date, time_slot, duration,
+          customer_name, customer_email, customer_phone, customer_whatsapp,
+          promo_code, user_id, series_id, status
+        ) VALUES (
+          p_workspace_type, v_date, p_time_slot, p_duration,
+          p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+          nullif(trim(p_promo_code), ''), auth.uid(), v_series_id, 'pending'
+        )
+        RETURNING * INTO v_booking;
+
+        v_first_booking_id := coalesce(v_first_booking_id, v_booking.id);
+        v_booked := v_booked + 1;
+        v_occurrences := v_occurrences || jsonb_build_object(
+          'date', v_date,
+          'total_price', v_booking.total_price,
+          'discount_amount', v_booking.discount_amount
+        );
+      EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+        v_conflicts := v_conflicts + 1;
+        v_occurrences := v_occurrences || jsonb_build_object('date', v_date, 'error', SQLERRM);
+      END;
+    END LOOP;
+
+    IF p_dry_run OR v_booked = 0 OR (v_conflicts > 0 AND NOT p_skip_conflicts) THEN
+      -- Undo everything inserted above; the results are kept in the variables
+      RAISE EXCEPTION USING ERRCODE = 'SR001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'SR001' THEN
+    v_series_id := NULL;
+    v_first_booking_id := NULL;
+  END;
+
+  RETURN jsonb_build_object(
+    'status', CASE
+      WHEN v_series_id IS NOT NULL THEN 'created'
+      WHEN v_conflicts > 0 THEN 'conflicts'
+      ELSE 'available'
+    END,
+    'series_id', v_series_id,
+    'booking_id', v_first_booking_id,
+    'occurrences', v_occurrences
+  );
+END;
+$$;
+
+-- Occurrences that have not started yet and are still active
+CREATE OR REPLACE FUNCTION get_upcoming_series_bookings(p_series_id uuid)
+RETURNS SETOF bookings
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM bookings
+  WHERE series_id = p_series_id
+    AND status IN ('pending', 'confirmed')
+    AND starts_at > local_now()
+  ORDER BY starts_at;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_cancelled integer := 0;
+  v_kept integer := 0;
+BEGIN
+  PERFORM get_own_series(p_series_id);
+
+  FOR v_booking IN SELECT * FROM get_upcoming_series_bookings(p_series_id) LOOP
+    BEGIN
+      PERFORM apply_booking_cancellation(v_booking);
+      v_cancelled := v_cancelled + 1;
+    EXCEPTION WHEN raise_exception THEN
+      -- Too close to the start for the cancellation policy
+      v_kept := v_kept + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('cancelled', v_cancelled, 'kept', v_kept);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking_series(p_series_id uuid, p_time_slot text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_changeable boolean;
+  v_rescheduled integer := 0;
+  v_conflicts jsonb := '[]'::jsonb;
+BEGIN
+  PERFORM get_own_series(p_series_id);
+
+  BEGIN
+    FOR v_booking IN SELECT * FROM get_upcoming_series_bookings(p_series_id) LOOP
+      -- Occurrences already inside the reschedule cutoff keep their time
+      BEGIN
+        PERFORM check_booking_changeable(v_booking, 'reschedule');
+        v_changeable := true;
+      EXCEPTION WHEN raise_exception THEN
+        v_changeable := false;
+      END;
+
+      IF v_changeable THEN
+        BEGIN
+          PERFORM apply_booking_reschedule(v_booking, v_booking.date, p_time_slot);
+          v_rescheduled := v_rescheduled + 1;
+        EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+          v_conflicts := v_conflicts || jsonb_build_object('date', v_booking.date, 'error', SQLERRM);
+        END;
+      END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+      -- Undo the occurrences already moved
+      RAISE EXCEPTION USING ERRCODE = 'SR001';
+    END IF;
+
+    UPDATE booking_series SET time_slot = p_time_slot WHERE id = p_series_id;
+  EXCEPTION WHEN SQLSTATE 'SR001' THEN
+    RETURN jsonb_build_object('status', 'conflicts', 'occurrences', v_conflicts);
+  END;
+
+  RETURN jsonb_build_object('status', 'rescheduled', 'rescheduled', v_rescheduled);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_booking_otp(p_booking_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_otp booking_otps%ROWTYPE;
+  v_series_id uuid;
+BEGIN
+  SELECT * INTO v_otp FROM booking_otps WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_issued');
+  END IF;
+
+  IF v_otp.consumed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_used');
+  END IF;
+
+  IF v_otp.attempts >= v_otp.max_attempts THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF v_otp.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF v_otp.code_hash <> crypt(p_code, v_otp.code_hash) THEN
+    UPDATE booking_otps SET attempts = attempts + 1 WHERE booking_id = p_booking_id;
+
+    IF v_otp.attempts + 1 >= v_otp.max_attempts THEN
+      RETURN jsonb_build_object('status', 'locked');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'invalid',
+      'attempts_remaining', v_otp.max_attempts - v_otp.attempts - 1
+    );
+  END IF;
+
+  UPDATE bookings
+  SET status = 'confirmed', confirmation_code = p_code
+  WHERE id = p_booking_id AND status = 'pending'
+  RETURNING series_id INTO v_series_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_pending');
+  END IF;
+
+  -- One code pays for and confirms the whole series
+  IF v_series_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'confirmed', confirmation_code = p_code
+    WHERE series_id = v_series_id AND status = 'pending';
+  END IF;
+
+  UPDATE booking_otps SET consumed_at = now() WHERE booking_id = p_booking_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_own_series(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION get_upcoming_series_bookings(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION create_booking_series(text, date, text, text, text, text, text, text, text, text, smallint[], date, integer, boolean, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION create_booking_series(text, date, text, text, text, text, text, text, text, text, smallint[], date, integer, boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking_series(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking_series(uuid, text) TO authenticated;
@@ -0,0 +1,310 @@
+/*
+  # Waitlist for fully booked slots
+
+  1. New Tables
+    - `waitlist_entries`
+      - `workspace_type`, `date`, `time_slot`, `duration` - the slot asked for
+      - `starts_at`, `ends_at` (timestamp) - filled by `set_booking_period()`
+      - `customer_name`, `customer_email`, `customer_phone`, `customer_whatsapp`
+      - `user_id` (uuid, nullable) - set when a signed-in customer joins
+      - `status` (text) - 'waiting', 'offered', 'claimed', 'expired' or 'removed'
+      - `claim_token` (uuid, nullable) - secret part of the claim link
+      - `offered_at`, `offer_expires_at` (timestamptz, nullable)
+      - `notified_at` (timestamptz, nullable) - when the claim link was sent
+      - `booking_id` (uuid, nullable) - the booking created by the claim
+    - Only admins can read or change entries directly
+
+  2. Settings
+    - `waitlist_claim_minutes` - how long an offered slot can be claimed
+
+  3. Offers
+    - When a pending or confirmed booking is cancelled, rejected or moved, the
+      oldest waiting entry for the same workspace that overlaps the freed
+      period is offered the slot
+    - Offers that run out are expired and passed on to the next entry. This
+      happens whenever the waitlist is used (`expire_waitlist_offers()`), so
+      no scheduled job is needed.
+
+  4. New Functions
+    - `join_waitlist(...)` - anyone; returns the place in the queue
+    - `get_waitlist_offer(p_token)` - the offered slot behind a claim link
+    - `claim_waitlist_offer(p_token)` - turns an offer into a pending booking
+    - `expire_waitlist_offers()`
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public) VALUES
+  ('waitlist_claim_minutes', '60', 'Minutes a waitlist offer can be claimed before it moves to the next person', 'number', false)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workspace_type text NOT NULL,
+  date date NOT NULL,
+  time_slot text NOT NULL,
+  duration text NOT NULL,
+  starts_at timestamp,
+  ends_at timestamp,
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  customer_phone text NOT NULL,
+  customer_whatsapp text NOT NULL,
+  user_id uuid REFERENCES auth.users(id),
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'removed')),
+  claim_token uuid UNIQUE,
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  notified_at timestamptz,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS waitlist_entries_slot_idx
+  ON waitlist_entries (workspace_type, status, starts_at, ends_at);
+
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage waitlist entries"
+  ON waitlist_entries
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER set_waitlist_entries_period
+  BEFORE INSERT OR UPDATE OF date, time_slot, duration ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_period();
+
+-- Offer a freed period to the oldest waiting entry that overlaps it
+CREATE OR REPLACE FUNCTION offer_next_waitlist_entry(p_workspace_type text, p_starts_at timestamp, p_ends_at timestamp)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE waitlist_entries
+  SET status = 'offered',
+      claim_token = gen_random_uuid(),
+      offered_at = now(),
+      offer_expires_at = now() + make_interval(mins => get_policy_setting('waitlist_claim_minutes', 60)::integer),
+      notified_at = NULL
+  WHERE id = (
+    SELECT id FROM waitlist_entries
+    WHERE workspace_type = p_workspace_type
+      AND status = 'waiting'
+      AND starts_at < p_ends_at
+      AND ends_at > p_starts_at
+      AND starts_at > local_now()
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  -- Nobody can use a slot that has already started
+  UPDATE waitlist_entries
+  SET status = 'expired'
+  WHERE status IN ('waiting', 'offered')
+    AND starts_at <= local_now();
+
+  FOR v_entry IN
+    UPDATE waitlist_entries
+    SET status = 'expired'
+    WHERE status = 'offered'
+      AND offer_expires_at < now()
+    RETURNING *
+  LOOP
+    PERFORM offer_next_waitlist_entry(v_entry.workspace_type, v_entry.starts_at, v_entry.ends_at);
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION offer_freed_booking_slot()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IN ('pending', 'confirmed') AND (
+    NEW.status NOT IN ('pending', 'confirmed')
+    OR NEW.starts_at <> OLD.starts_at
+    OR NEW.ends_at <> OLD.ends_at
+  ) THEN
+    PERFORM offer_next_waitlist_entry(OLD.workspace_type, OLD.starts_at, OLD.ends_at);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER offer_bookings_waitlist
+  AFTER UPDATE OF status, date, time_slot, duration ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_freed_booking_slot();
+
+CREATE OR REPLACE FUNCTION join_waitlist(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+  v_status text := 'joined';
+BEGIN
+  PERFORM expire_waitlist_offers();
+
+  IF p_date + p_time_slot::time <= local_now() THEN
+    RAISE EXCEPTION 'This slot has already started';
+  END IF;
+
+  SELECT * INTO v_entry FROM waitlist_entries
+  WHERE workspace_type = p_workspace_type
+    AND date = p_date
+    AND time_slot = p_time_slot
+    AND lower(customer_email) = lower(trim(p_customer_email))
+    AND status IN ('waiting', 'offered');
+
+  IF FOUND THEN
+    v_status := 'already_joined';
+  ELSE
+    INSERT INTO waitlist_entries (
+      workspace_type, date, time_slot, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp, user_id
+    ) VALUES (
+      p_workspace_type, p_date, p_time_slot, p_duration,
+      p_customer_name, trim(p_customer_email), p_customer_phone, p_customer_whatsapp, auth.uid()
+    )
+    RETURNING * INTO v_entry;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', v_status,
+    'position', (
+      SELECT count(*) FROM waitlist_entries
+      WHERE workspace_type = v_entry.workspace_type
+        AND date = v_entry.date
+        AND time_slot = v_entry.time_slot
+        AND status IN ('waiting', 'offered')
+        AND created_at <= v_entry.created_at
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_waitlist_offer(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  PERFORM expire_waitlist_offers();
+
+  SELECT * INTO v_entry FROM waitlist_entries WHERE claim_token = p_token;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', CASE v_entry.status WHEN 'removed' THEN 'expired' ELSE v_entry.status END,
+    'entry', jsonb_build_object(
+      'workspace_type', v_entry.workspace_type,
+      'date', v_entry.date,
+      'time_slot', v_entry.time_slot,
+      'duration', v_entry.duration,
+      'customer_name', v_entry.customer_name,
+      'offer_expires_at', v_entry.offer_expires_at
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  PERFORM expire_waitlist_offers();
+
+  SELECT * INTO v_entry FROM waitlist_entries WHERE claim_token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_entry.status <> 'offered' THEN
+    RETURN jsonb_build_object('status', CASE v_entry.status WHEN 'removed' THEN 'expired' ELSE v_entry.status END);
+  END IF;
+
+  BEGIN
+    INSERT INTO bookings (
+      workspace_type, date, time_slot, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      user_id, status
+    ) VALUES (
+      v_entry.workspace_type, v_entry.date, v_entry.time_slot, v_entry.duration,
+      v_entry.customer_name, v_entry.customer_email, v_entry.customer_phone, v_entry.customer_whatsapp,
+      v_entry.user_id, 'pending'
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+    -- Someone else took the slot first; keep the customer's place in the queue
+    UPDATE waitlist_entries
+    SET status = 'waiting', claim_token = NULL, offered_at = NULL, offer_expires_at = NULL
+    WHERE id = v_entry.id;
+
+    RETURN jsonb_build_object('status', 'unavailable');
+  END;
+
+  UPDATE waitlist_entries
+  SET status = 'claimed', booking_id = v_booking.id
+  WHERE id = v_entry.id;
+
+  RETURN jsonb_build_object(
+    'status', 'claimed',
+    'booking', jsonb_build_object(
+      'id', v_booking.id,
+      'workspace_type', v_booking.workspace_type,
+      'date', v_booking.date,
+      'time_slot', v_booking.time_slot,
+      'duration', v_booking.duration,
+      'customer_name', v_booking.customer_name,
+      'customer_email', v_booking.customer_email,
+      'customer_phone', v_booking.customer_phone,
+      'customer_whatsapp', v_booking.customer_whatsapp,
+      'total_price', v_booking.total_price
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION offer_next_waitlist_entry(text, timestamp, timestamp) FROM public;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO authenticated;
+GRANT EXECUTE ON FUNCTION join_waitlist(text, date, text, text, text, text, text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_waitlist_offer(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_waitlist_offer(uuid) TO anon, authenticated;
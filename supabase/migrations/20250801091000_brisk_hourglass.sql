@@ -0,0 +1,269 @@
+/*
+  # Hold expiry for pending bookings
+
+  1. Settings
+    - `booking_hold_minutes` - how long a new pending booking holds its slot
+      while the customer pays and confirms
+
+  2. Changes to `bookings`
+    - `hold_expires_at` (timestamptz, nullable) - set when a pending booking is
+      created; issuing a confirmation code extends it to the code's expiry
+    - New status `expired` for pending bookings whose hold ran out
+
+  3. Availability
+    - `booking_holds_slot(status, hold_expires_at)` - confirmed bookings and
+      pending bookings with a live hold take up capacity. The capacity trigger
+      and `get_booked_periods` use it, so a lapsed hold frees the slot at once,
+      before any cleanup has run.
+    - `expire_pending_bookings()` moves lapsed holds to `expired` (which also
+      offers the slot to the waitlist). It runs every five minutes when
+      pg_cron is available and whenever admins load bookings.
+
+  4. New Functions
+    - `get_booking_hold(p_booking_id)` - status and hold expiry for the
+      confirmation page, callable by anyone holding the booking id
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public) VALUES
+  ('booking_hold_minutes', '60', 'Minutes a pending booking holds its slot before it expires', 'number', false)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS hold_expires_at timestamptz;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('pending', 'confirmed', 'rejected', 'cancelled', 'expired'));
+
+CREATE OR REPLACE FUNCTION booking_holds_slot(p_status text, p_hold_expires_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_status = 'confirmed'
+    OR (p_status = 'pending' AND (p_hold_expires_at IS NULL OR p_hold_expires_at > now()));
+$$;
+
+CREATE OR REPLACE FUNCTION set_booking_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending' AND NEW.hold_expires_at IS NULL THEN
+    NEW.hold_expires_at := now() + make_interval(mins => get_policy_setting('booking_hold_minutes', 60)::integer);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_bookings_hold
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_hold();
+
+-- Same capacity rule as before, but pending bookings whose hold has run out
+-- no longer take up a unit
+CREATE OR REPLACE FUNCTION validate_booking_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_capacity integer;
+  v_unit_names text[];
+  v_peak integer;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize concurrent bookings of the same workspace type
+  PERFORM pg_advisory_xact_lock(hashtext('bookings:' || NEW.workspace_type));
+
+  SELECT capacity, unit_names INTO v_capacity, v_unit_names
+  FROM workspace_types
+  WHERE name = NEW.workspace_type;
+
+  v_capacity := coalesce(v_capacity, 1);
+
+  IF coalesce(array_length(v_unit_names, 1), 0) > 0 THEN
+    -- Keep the requested unit if it is free, otherwise take the first free one
+    IF NEW.unit_name IS NULL OR NOT (NEW.unit_name = ANY (v_unit_names)) OR EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.unit_name = NEW.unit_name
+        AND b.id <> NEW.id
+        AND booking_holds_slot(b.status, b.hold_expires_at)
+        AND b.starts_at < NEW.ends_at
+        AND b.ends_at > NEW.starts_at
+    ) THEN
+      SELECT u INTO NEW.unit_name
+      FROM unnest(v_unit_names) WITH ORDINALITY AS t(u, ord)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.workspace_type = NEW.workspace_type
+          AND b.unit_name = t.u
+          AND b.id <> NEW.id
+          AND booking_holds_slot(b.status, b.hold_expires_at)
+          AND b.starts_at < NEW.ends_at
+          AND b.ends_at > NEW.starts_at
+      )
+      ORDER BY ord
+      LIMIT 1;
+
+      IF NEW.unit_name IS NULL THEN
+        RAISE EXCEPTION USING
+          ERRCODE = 'exclusion_violation',
+          MESSAGE = format('No %s is available for this time', NEW.workspace_type);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Peak concurrency inside the new period is reached at its start or at the
+  -- start of one of the overlapping bookings
+  SELECT max(cnt) INTO v_peak
+  FROM (
+    SELECT (
+      SELECT count(*) FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.id <> NEW.id
+        AND booking_holds_slot(b.status, b.hold_expires_at)
+        AND b.starts_at <= p.point
+        AND b.ends_at > p.point
+    ) AS cnt
+    FROM (
+      SELECT NEW.starts_at AS point
+      UNION
+      SELECT b.starts_at FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.id <> NEW.id
+        AND booking_holds_slot(b.status, b.hold_expires_at)
+        AND b.starts_at > NEW.starts_at
+        AND b.starts_at < NEW.ends_at
+    ) p
+  ) counts;
+
+  IF coalesce(v_peak, 0) >= v_capacity THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = format('%s is fully booked for this time', NEW.workspace_type);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Booked periods overlapping a window, without any customer details
+CREATE OR REPLACE FUNCTION get_booked_periods(p_workspace_type text, p_from timestamp, p_to timestamp)
+RETURNS TABLE (starts_at timestamp, ends_at timestamp, unit_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.starts_at, b.ends_at, b.unit_name
+  FROM bookings b
+  WHERE b.workspace_type = p_workspace_type
+    AND booking_holds_slot(b.status, b.hold_expires_at)
+    AND b.starts_at < p_to
+    AND b.ends_at > p_from;
+$$;
+
+CREATE OR REPLACE FUNCTION expire_pending_bookings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE bookings
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND hold_expires_at < now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_booking_hold(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'status', CASE
+      WHEN status = 'pending' AND NOT booking_holds_slot(status, hold_expires_at) THEN 'expired'
+      ELSE status
+    END,
+    'hold_expires_at', hold_expires_at
+  )
+  FROM bookings
+  WHERE id = p_booking_id;
+$$;
+
+-- Issuing a code means payment has been checked, so keep the slot held until
+-- the code itself expires
+CREATE OR REPLACE FUNCTION issue_booking_otp(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_status text;
+  v_hold_expires_at timestamptz;
+  v_code text;
+  v_expires_at timestamptz := now() + interval '30 minutes';
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue confirmation codes';
+  END IF;
+
+  SELECT status, hold_expires_at INTO v_status, v_hold_expires_at FROM bookings WHERE id = p_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Booking is already %', v_status;
+  END IF;
+
+  -- The slot may have been given to someone else since the hold ran out
+  IF NOT booking_holds_slot(v_status, v_hold_expires_at) THEN
+    RAISE EXCEPTION 'The hold on this booking has expired';
+  END IF;
+
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO booking_otps (booking_id, code_hash, expires_at)
+  VALUES (p_booking_id, crypt(v_code, gen_salt('bf')), v_expires_at)
+  ON CONFLICT (booking_id) DO UPDATE SET
+    code_hash = EXCLUDED.code_hash,
+    expires_at = EXCLUDED.expires_at,
+    attempts = 0,
+    consumed_at = NULL,
+    created_at = now();
+
+  UPDATE bookings
+  SET hold_expires_at = greatest(hold_expires_at, v_expires_at)
+  WHERE id = p_booking_id
+     OR series_id = (SELECT series_id FROM bookings WHERE id = p_booking_id);
+
+  RETURN v_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_pending_bookings() FROM public;
+GRANT EXECUTE ON FUNCTION expire_pending_bookings() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_booking_hold(uuid) TO anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-pending-bookings', '*/5 * * * *', 'SELECT expire_pending_bookings()');
+  END IF;
+END;
+$$;
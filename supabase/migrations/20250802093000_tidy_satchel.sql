@@ -0,0 +1,331 @@
+/*
+  # Booking add-ons
+
+  1. New Tables
+    - `add_ons`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `description` (text, nullable)
+      - `price` (numeric) - price per unit in E£
+      - `unit` (text) - what one unit is, e.g. 'booking', 'hour', '20 pages'
+      - `max_quantity` (integer) - most units one booking can add
+      - `is_active` (boolean)
+      - `display_order` (integer)
+
+  2. Changes to `bookings`
+    - `add_ons` (jsonb) - clients insert `[{ "id": ..., "quantity": ... }]`;
+      the pricing trigger replaces it with the priced lines
+      (`id`, `name`, `unit`, `quantity`, `unit_price`, `amount`)
+    - `add_ons_total` (numeric)
+
+  3. Pricing
+    - `get_booking_quote(...)` accepts the chosen add-ons and reports their
+      lines, their total, or why they cannot be added
+    - Add-ons are added after the promo discount; promo codes only discount
+      the workspace price
+    - A booking that is moved keeps the add-on prices it was made with, even
+      if an add-on has since changed price or been disabled
+    - Recurring series are created without add-ons
+
+  4. Security
+    - Public read access to active add-ons, admin management via `is_admin()`
+*/
+
+CREATE TABLE IF NOT EXISTS add_ons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  description text,
+  price numeric NOT NULL CHECK (price >= 0),
+  unit text NOT NULL DEFAULT 'booking',
+  max_quantity integer NOT NULL DEFAULT 1 CHECK (max_quantity >= 1),
+  is_active boolean DEFAULT true,
+  display_order integer DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE add_ons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active add-ons"
+  ON add_ons
+  FOR SELECT
+  TO public
+  USING (is_active = true);
+
+CREATE POLICY "Admins can manage add-ons"
+  ON add_ons
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE TRIGGER update_add_ons_updated_at
+  BEFORE UPDATE ON add_ons
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO add_ons (name, description, price, unit, max_quantity, display_order) VALUES
+  ('Storage Locker', 'Personal locker for your belongings during your booking', 25, 'booking', 1, 1),
+  ('Printing Credits', 'Black and white or colour printing at the front desk', 10, '20 pages', 10, 2),
+  ('Meeting Room', 'Private meeting room for calls and small meetings', 50, 'hour', 8, 3),
+  ('Parking', 'Secure parking in our dedicated garage', 15, 'day', 1, 4)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS add_ons jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS add_ons_total numeric NOT NULL DEFAULT 0;
+
+-- Prices a selection of add-ons given as [{ "id": ..., "quantity": ... }].
+-- Raises with a customer-facing message when the selection cannot be added.
+CREATE OR REPLACE FUNCTION get_add_ons_quote(p_add_ons jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item jsonb;
+  v_add_on add_ons%ROWTYPE;
+  v_quantity integer;
+  v_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+BEGIN
+  IF jsonb_typeof(coalesce(p_add_ons, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Add-ons must be a list';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(p_add_ons, '[]'::jsonb)) LOOP
+    SELECT * INTO v_add_on FROM add_ons
+    WHERE id::text = v_item ->> 'id' AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'One of the chosen add-ons is no longer available';
+    END IF;
+
+    IF v_lines @> jsonb_build_array(jsonb_build_object('id', v_add_on.id)) THEN
+      RAISE EXCEPTION '% was chosen more than once', v_add_on.name;
+    END IF;
+
+    v_quantity := coalesce((v_item ->> 'quantity')::integer, 1);
+    IF v_quantity NOT BETWEEN 1 AND v_add_on.max_quantity THEN
+      RAISE EXCEPTION 'You can add between 1 and % of %', v_add_on.max_quantity, v_add_on.name;
+    END IF;
+
+    v_amount := round(v_add_on.price * v_quantity, 2);
+    v_total := v_total + v_amount;
+    v_lines := v_lines || jsonb_build_object(
+      'id', v_add_on.id,
+      'name', v_add_on.name,
+      'unit', v_add_on.unit,
+      'quantity', v_quantity,
+      'unit_price', v_add_on.price,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_lines, 'total', v_total);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_booking_quote(text, text, date, text, text, text, uuid);
+
+CREATE OR REPLACE FUNCTION get_booking_quote(
+  p_workspace_type text,
+  p_duration text,
+  p_date date DEFAULT NULL,
+  p_time_slot text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_booking_id uuid DEFAULT NULL,
+  p_add_ons jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  w workspace_types%ROWTYPE;
+  r pricing_rules%ROWTYPE;
+  v_daily numeric;
+  v_hours integer;
+  v_base numeric;
+  v_subtotal numeric;
+  v_start time;
+  v_adjustments jsonb := '[]'::jsonb;
+  v_promo_code text := nullif(upper(trim(p_promo_code)), '');
+  v_discount numeric := 0;
+  v_promo_error text;
+  v_add_ons jsonb := jsonb_build_object('lines', '[]'::jsonb, 'total', 0);
+  v_add_ons_error text;
+BEGIN
+  SELECT * INTO w FROM workspace_types WHERE name = p_workspace_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown workspace type: %', p_workspace_type;
+  END IF;
+
+  -- Advertised price expressed per day, used for any rate not set explicitly
+  v_daily := CASE w.price_unit
+    WHEN 'hour' THEN w.price * 8
+    WHEN 'week' THEN w.price / 7
+    WHEN 'month' THEN w.price / 30
+    ELSE w.price
+  END;
+
+  v_hours := CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+  END;
+
+  v_base := CASE p_duration
+    WHEN '1-day' THEN coalesce(w.daily_rate, v_daily)
+    WHEN '1-week' THEN coalesce(w.weekly_rate, coalesce(w.daily_rate, v_daily) * 7)
+    WHEN '1-month' THEN coalesce(w.monthly_rate, coalesce(w.daily_rate, v_daily) * 30)
+    ELSE coalesce(w.hourly_rate, v_daily / 8) * v_hours
+  END;
+
+  IF v_base IS NULL THEN
+    RAISE EXCEPTION 'Unknown booking duration: %', p_duration;
+  END IF;
+
+  v_subtotal := v_base;
+
+  IF p_date IS NOT NULL THEN
+    v_start := CASE WHEN p_time_slot IS NOT NULL THEN p_time_slot::time END;
+
+    FOR r IN
+      SELECT * FROM pricing_rules
+      WHERE is_active = true
+        AND (workspace_type IS NULL OR workspace_type = p_workspace_type)
+      ORDER BY display_order, created_at
+    LOOP
+      CONTINUE WHEN cardinality(r.weekdays) > 0 AND NOT (extract(dow FROM p_date)::smallint = ANY (r.weekdays));
+      CONTINUE WHEN r.starts_at IS NOT NULL
+        AND (v_hours IS NULL OR v_start IS NULL OR v_start < r.starts_at OR v_start >= r.ends_at);
+
+      v_subtotal := v_subtotal * r.multiplier;
+      v_adjustments := v_adjustments || jsonb_build_object('name', r.name, 'multiplier', r.multiplier);
+    END LOOP;
+  END IF;
+
+  v_subtotal := round(v_subtotal, 2);
+
+  IF v_promo_code IS NOT NULL THEN
+    BEGIN
+      v_discount := get_promo_discount(v_promo_code, p_workspace_type, p_customer_email, v_subtotal, p_booking_id);
+    EXCEPTION WHEN raise_exception THEN
+      v_promo_error := SQLERRM;
+    END;
+  END IF;
+
+  IF p_add_ons IS NOT NULL THEN
+    BEGIN
+      v_add_ons := get_add_ons_quote(p_add_ons);
+    EXCEPTION WHEN raise_exception THEN
+      v_add_ons_error := SQLERRM;
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'base_price', round(v_base, 2),
+    'adjustments', v_adjustments,
+    'subtotal', v_subtotal,
+    'promo_code', v_promo_code,
+    'promo_error', v_promo_error,
+    'discount_amount', v_discount,
+    'add_ons', v_add_ons -> 'lines',
+    'add_ons_total', (v_add_ons ->> 'total')::numeric,
+    'add_ons_error', v_add_ons_error,
+    'total_price', v_subtotal - v_discount + (v_add_ons ->> 'total')::numeric
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_booking_quote(text, text, date, text, text, text, uuid, jsonb) TO anon, authenticated;
+
+-- Price every booking on the server, including its promo code and add-ons
+CREATE OR REPLACE FUNCTION apply_booking_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_quote jsonb;
+  v_reprice_add_ons boolean;
+BEGIN
+  IF TG_OP = 'UPDATE' AND is_admin() AND NEW.total_price IS DISTINCT FROM OLD.total_price THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.promo_code := nullif(upper(trim(NEW.promo_code)), '');
+
+  -- Serialize redemptions of the same code so usage limits hold
+  IF NEW.promo_code IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext('promo:' || NEW.promo_code));
+  END IF;
+
+  -- Moving a booking keeps the add-on prices it was made with
+  v_reprice_add_ons := TG_OP = 'INSERT' OR NEW.add_ons IS DISTINCT FROM OLD.add_ons;
+
+  v_quote := get_booking_quote(
+    NEW.workspace_type, NEW.duration, NEW.date, NEW.time_slot,
+    NEW.promo_code, NEW.customer_email,
+    CASE WHEN TG_OP = 'UPDATE' THEN NEW.id END,
+    CASE WHEN v_reprice_add_ons THEN coalesce(NEW.add_ons, '[]'::jsonb) END
+  );
+
+  IF v_quote ->> 'promo_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote ->> 'promo_error';
+  END IF;
+
+  IF v_quote ->> 'add_ons_error' IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_quote ->> 'add_ons_error';
+  END IF;
+
+  IF v_reprice_add_ons THEN
+    NEW.add_ons := v_quote -> 'add_ons';
+    NEW.add_ons_total := (v_quote ->> 'add_ons_total')::numeric;
+  END IF;
+
+  NEW.discount_amount := (v_quote ->> 'discount_amount')::numeric;
+  NEW.total_price := (v_quote ->> 'total_price')::numeric
+    + CASE WHEN v_reprice_add_ons THEN 0 ELSE NEW.add_ons_total END;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS apply_bookings_price ON bookings;
+
+CREATE TRIGGER apply_bookings_price
+  BEFORE INSERT OR UPDATE OF workspace_type, date, time_slot, duration, promo_code, add_ons ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_price();
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'add_ons', p_booking.add_ons,
+    'add_ons_total', p_booking.add_ons_total,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'created_at', p_booking.created_at
+  );
+$$;
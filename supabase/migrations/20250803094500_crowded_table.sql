@@ -0,0 +1,307 @@
+/*
+  # Group bookings
+
+  1. Changes to `bookings`
+    - `group_id` (uuid, nullable) - shared by every seat of a group booking. It
+      is the id of the group's lead booking, which carries the confirmation
+      code for the whole group.
+    - `attendee_name` (text, nullable) - who sits in this seat
+    - `checked_in_at` (timestamptz, nullable) - set when the attendee arrives
+
+  2. New Functions
+    - `create_group_booking(...)` - books one seat per attendee for the same
+      period, in one or several workspace types. Seats go through the usual
+      capacity, opening hours and pricing triggers. Either every seat is booked
+      or none is; `p_dry_run` only reports each seat's unit, price or error.
+    - `set_attendee_check_in(p_booking_id, p_checked_in)` - admins mark an
+      attendee as arrived, or undo it
+
+  3. Confirmation
+    - Confirmation codes for any seat are issued for the lead booking, and
+      verifying it confirms every pending seat of the group
+*/
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_id uuid;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS attendee_name text;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS checked_in_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS bookings_group_id_idx ON bookings (group_id);
+
+CREATE OR REPLACE FUNCTION create_group_booking(
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_promo_code text,
+  p_seats jsonb,
+  p_dry_run boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id uuid := gen_random_uuid();
+  v_seat jsonb;
+  v_attendee text;
+  v_booking bookings%ROWTYPE;
+  v_seats jsonb := '[]'::jsonb;
+  v_failed integer := 0;
+BEGIN
+  IF jsonb_typeof(p_seats) <> 'array' OR jsonb_array_length(p_seats) NOT BETWEEN 2 AND 20 THEN
+    RAISE EXCEPTION 'A group booking needs between 2 and 20 seats';
+  END IF;
+
+  BEGIN
+    FOR v_seat IN SELECT * FROM jsonb_array_elements(p_seats) LOOP
+      v_attendee := nullif(trim(v_seat ->> 'attendee_name'), '');
+
+      IF v_attendee IS NULL THEN
+        RAISE EXCEPTION 'Enter a name for every attendee';
+      END IF;
+
+      BEGIN
+        INSERT INTO bookings (
+          id, workspace_type, date, time_slot, duration,
+          customer_name, customer_email, customer_phone, customer_whatsapp,
+          promo_code, user_id, group_id, attendee_name, status
+        ) VALUES (
+          -- The first seat is the lead booking and gives the group its id
+          CASE WHEN jsonb_array_length(v_seats) = 0 THEN v_group_id ELSE gen_random_uuid() END,
+          v_seat ->> 'workspace_type', p_date, p_time_slot, p_duration,
+          p_customer_name, p_customer_email, p_customer_phone, p_customer_whatsapp,
+          nullif(trim(p_promo_code), ''), auth.uid(), v_group_id, v_attendee, 'pending'
+        )
+        RETURNING * INTO v_booking;
+
+        v_seats := v_seats || jsonb_build_object(
+          'workspace_type', v_booking.workspace_type,
+          'attendee_name', v_attendee,
+          'unit_name', v_booking.unit_name,
+          'total_price', v_booking.total_price,
+          'discount_amount', v_booking.discount_amount
+        );
+      EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+        v_failed := v_failed + 1;
+        v_seats := v_seats || jsonb_build_object(
+          'workspace_type', v_seat ->> 'workspace_type',
+          'attendee_name', v_attendee,
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    IF p_dry_run OR v_failed > 0 THEN
+      -- Undo every seat inserted above; the results are kept in the variables
+      RAISE EXCEPTION USING ERRCODE = 'SR001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'SR001' THEN
+    v_group_id := NULL;
+  END;
+
+  RETURN jsonb_build_object(
+    'status', CASE
+      WHEN v_group_id IS NOT NULL THEN 'created'
+      WHEN v_failed > 0 THEN 'unavailable'
+      ELSE 'available'
+    END,
+    'group_id', v_group_id,
+    'booking_id', v_group_id,
+    'seats', v_seats
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_attendee_check_in(p_booking_id uuid, p_checked_in boolean)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_checked_in_at timestamptz;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can check attendees in';
+  END IF;
+
+  UPDATE bookings
+  SET checked_in_at = CASE WHEN p_checked_in THEN coalesce(checked_in_at, now()) END
+  WHERE id = p_booking_id AND status = 'confirmed'
+  RETURNING checked_in_at INTO v_checked_in_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be checked in';
+  END IF;
+
+  RETURN v_checked_in_at;
+END;
+$$;
+
+-- Codes are issued for the lead booking of a group, since that is the booking
+-- the customer confirms
+CREATE OR REPLACE FUNCTION issue_booking_otp(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_status text;
+  v_hold_expires_at timestamptz;
+  v_code text;
+  v_expires_at timestamptz := now() + interval '30 minutes';
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue confirmation codes';
+  END IF;
+
+  SELECT coalesce(group_id, id) INTO v_booking_id FROM bookings WHERE id = p_booking_id;
+
+  SELECT status, hold_expires_at INTO v_status, v_hold_expires_at FROM bookings WHERE id = v_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Booking is already %', v_status;
+  END IF;
+
+  -- The slot may have been given to someone else since the hold ran out
+  IF NOT booking_holds_slot(v_status, v_hold_expires_at) THEN
+    RAISE EXCEPTION 'The hold on this booking has expired';
+  END IF;
+
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO booking_otps (booking_id, code_hash, expires_at)
+  VALUES (v_booking_id, crypt(v_code, gen_salt('bf')), v_expires_at)
+  ON CONFLICT (booking_id) DO UPDATE SET
+    code_hash = EXCLUDED.code_hash,
+    expires_at = EXCLUDED.expires_at,
+    attempts = 0,
+    consumed_at = NULL,
+    created_at = now();
+
+  UPDATE bookings
+  SET hold_expires_at = greatest(hold_expires_at, v_expires_at)
+  WHERE id = v_booking_id
+     OR group_id = v_booking_id
+     OR series_id = (SELECT series_id FROM bookings WHERE id = v_booking_id);
+
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_booking_otp(p_booking_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_otp booking_otps%ROWTYPE;
+  v_series_id uuid;
+  v_group_id uuid;
+BEGIN
+  SELECT * INTO v_otp FROM booking_otps WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_issued');
+  END IF;
+
+  IF v_otp.consumed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_used');
+  END IF;
+
+  IF v_otp.attempts >= v_otp.max_attempts THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF v_otp.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF v_otp.code_hash <> crypt(p_code, v_otp.code_hash) THEN
+    UPDATE booking_otps SET attempts = attempts + 1 WHERE booking_id = p_booking_id;
+
+    IF v_otp.attempts + 1 >= v_otp.max_attempts THEN
+      RETURN jsonb_build_object('status', 'locked');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'invalid',
+      'attempts_remaining', v_otp.max_attempts - v_otp.attempts - 1
+    );
+  END IF;
+
+  UPDATE bookings
+  SET status = 'confirmed', confirmation_code = p_code
+  WHERE id = p_booking_id AND status = 'pending'
+  RETURNING series_id, group_id INTO v_series_id, v_group_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_pending');
+  END IF;
+
+  -- One code pays for and confirms the whole series or group
+  IF v_series_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'confirmed', confirmation_code = p_code
+    WHERE series_id = v_series_id AND status = 'pending';
+  END IF;
+
+  IF v_group_id IS NOT NULL THEN
+    UPDATE bookings
+    SET status = 'confirmed', confirmation_code = p_code
+    WHERE group_id = v_group_id AND status = 'pending';
+  END IF;
+
+  UPDATE booking_otps SET consumed_at = now() WHERE booking_id = p_booking_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'add_ons', p_booking.add_ons,
+    'add_ons_total', p_booking.add_ons_total,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'group_id', p_booking.group_id,
+    'attendee_name', p_booking.attendee_name,
+    'checked_in_at', p_booking.checked_in_at,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION create_group_booking(date, text, text, text, text, text, text, text, jsonb, boolean) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_attendee_check_in(uuid, boolean) TO authenticated;
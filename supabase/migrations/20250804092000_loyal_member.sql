@@ -0,0 +1,273 @@
+/*
+  # Memberships with booking credits
+
+  1. Changes to `pricing_plans`
+    - `credit_unit` (text, nullable) - 'hour', 'day' or 'unlimited'; plans
+      without one stay marketing content only
+    - `credit_amount` (numeric, nullable) - hours or days granted per term
+    - `workspace_types` (text array) - types the credits can be used for;
+      empty means every type
+    - `term_days` (integer) - length of one membership term
+
+  2. New Tables
+    - `memberships` - a plan granted to a customer account
+      - `user_id`, `customer_email` - the member
+      - `plan_id`, `plan_name`, `credit_unit`, `workspace_types` - copied from
+        the plan when granted, so later plan edits do not change it
+      - `credit_hours` (numeric, nullable) - credit granted, in hours; a day is
+        8 hours, matching the pricing engine. Null for unlimited plans.
+      - `used_hours` (numeric) - credit taken by pending and confirmed bookings
+      - `starts_on`, `ends_on` (date) - bookings must start in this range
+      - `status` (text) - 'active' or 'cancelled'
+    - Members can read their own memberships; admins manage them
+
+  3. Changes to `bookings`
+    - `membership_id` (uuid, nullable) - membership paying for the booking
+    - `credit_hours` (numeric) - credit it took
+
+  4. Booking rules
+    - Trigger `charge_bookings_membership` runs after `apply_bookings_price`.
+      For bookings with a membership it checks the member, dates, workspace
+      type and balance, takes the credit, and leaves only the add-ons to pay.
+      Promo codes cannot be combined with credits.
+    - Credit is returned when a booking is cancelled, rejected or expires
+    - Guest booking lookups include `membership_id` and `credit_hours`
+
+  5. New Functions
+    - `grant_membership(p_email, p_plan_id, p_starts_on)` - admins only
+*/
+
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS credit_unit text CHECK (credit_unit IN ('hour', 'day', 'unlimited'));
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS credit_amount numeric CHECK (credit_amount > 0);
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS workspace_types text[] DEFAULT '{}';
+ALTER TABLE pricing_plans ADD COLUMN IF NOT EXISTS term_days integer NOT NULL DEFAULT 30 CHECK (term_days > 0);
+
+CREATE TABLE IF NOT EXISTS memberships (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id),
+  customer_email text NOT NULL,
+  plan_id uuid REFERENCES pricing_plans(id) ON DELETE SET NULL,
+  plan_name text NOT NULL,
+  credit_unit text NOT NULL CHECK (credit_unit IN ('hour', 'day', 'unlimited')),
+  credit_hours numeric CHECK (credit_hours >= 0),
+  used_hours numeric NOT NULL DEFAULT 0,
+  workspace_types text[] DEFAULT '{}',
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX IF NOT EXISTS memberships_user_id_idx ON memberships (user_id);
+
+ALTER TABLE memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own memberships"
+  ON memberships
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage memberships"
+  ON memberships
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS membership_id uuid REFERENCES memberships(id);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS credit_hours numeric NOT NULL DEFAULT 0;
+
+-- Credit a booking takes, in hours
+CREATE OR REPLACE FUNCTION booking_credit_hours(p_duration text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_duration
+    WHEN '1-hour' THEN 1
+    WHEN '2-hours' THEN 2
+    WHEN '4-hours' THEN 4
+    WHEN '1-day' THEN 8
+    WHEN '1-week' THEN 56
+    WHEN '1-month' THEN 240
+  END::numeric;
+$$;
+
+CREATE OR REPLACE FUNCTION grant_membership(p_email text, p_plan_id uuid, p_starts_on date DEFAULT NULL)
+RETURNS memberships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_email text;
+  v_plan pricing_plans%ROWTYPE;
+  v_starts_on date := coalesce(p_starts_on, local_now()::date);
+  v_membership memberships%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can grant memberships';
+  END IF;
+
+  SELECT id, email INTO v_user_id, v_email FROM auth.users WHERE lower(email) = lower(trim(p_email));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No customer account uses %', trim(p_email);
+  END IF;
+
+  SELECT * INTO v_plan FROM pricing_plans WHERE id = p_plan_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Plan not found';
+  END IF;
+
+  IF v_plan.credit_unit IS NULL OR (v_plan.credit_unit <> 'unlimited' AND v_plan.credit_amount IS NULL) THEN
+    RAISE EXCEPTION '% does not grant booking credits', v_plan.name;
+  END IF;
+
+  INSERT INTO memberships (
+    user_id, customer_email, plan_id, plan_name, credit_unit, credit_hours,
+    workspace_types, starts_on, ends_on
+  ) VALUES (
+    v_user_id, v_email, v_plan.id, v_plan.name, v_plan.credit_unit,
+    CASE v_plan.credit_unit
+      WHEN 'hour' THEN v_plan.credit_amount
+      WHEN 'day' THEN v_plan.credit_amount * 8
+    END,
+    coalesce(v_plan.workspace_types, '{}'), v_starts_on, v_starts_on + v_plan.term_days - 1
+  )
+  RETURNING * INTO v_membership;
+
+  RETURN v_membership;
+END;
+$$;
+
+-- Pays for a booking with membership credit. Fires after apply_bookings_price
+-- (trigger names sort alphabetically) so it can replace the quoted price.
+CREATE OR REPLACE FUNCTION charge_booking_membership()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_membership memberships%ROWTYPE;
+  v_hours numeric;
+  v_returned numeric := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND is_admin() AND NEW.total_price IS DISTINCT FROM OLD.total_price
+    AND NEW.membership_id IS NOT DISTINCT FROM OLD.membership_id THEN
+    RETURN NEW;
+  END IF;
+
+  -- Give back credit taken by the previous membership when it changes
+  IF TG_OP = 'UPDATE' AND OLD.membership_id IS NOT NULL
+    AND OLD.status IN ('pending', 'confirmed')
+    AND NEW.membership_id IS DISTINCT FROM OLD.membership_id THEN
+    UPDATE memberships SET used_hours = used_hours - OLD.credit_hours WHERE id = OLD.membership_id;
+  END IF;
+
+  IF NEW.membership_id IS NULL THEN
+    NEW.credit_hours := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_membership FROM memberships WHERE id = NEW.membership_id FOR UPDATE;
+
+  IF NOT FOUND OR NEW.user_id IS DISTINCT FROM v_membership.user_id THEN
+    RAISE EXCEPTION 'Membership not found';
+  END IF;
+
+  IF v_membership.status <> 'active' THEN
+    RAISE EXCEPTION 'Your % membership has been cancelled', v_membership.plan_name;
+  END IF;
+
+  IF NEW.date NOT BETWEEN v_membership.starts_on AND v_membership.ends_on THEN
+    RAISE EXCEPTION 'Your % membership runs from % to %', v_membership.plan_name,
+      to_char(v_membership.starts_on, 'DD Mon YYYY'), to_char(v_membership.ends_on, 'DD Mon YYYY');
+  END IF;
+
+  IF cardinality(v_membership.workspace_types) > 0 AND NOT (NEW.workspace_type = ANY (v_membership.workspace_types)) THEN
+    RAISE EXCEPTION 'Your % membership does not include %', v_membership.plan_name, NEW.workspace_type;
+  END IF;
+
+  v_hours := booking_credit_hours(NEW.duration);
+
+  -- A booking moved within the same membership already holds its old credit
+  IF TG_OP = 'UPDATE' AND OLD.membership_id = NEW.membership_id AND OLD.status IN ('pending', 'confirmed') THEN
+    v_returned := OLD.credit_hours;
+  END IF;
+
+  IF v_membership.credit_hours IS NOT NULL
+    AND v_membership.credit_hours - v_membership.used_hours + v_returned < v_hours THEN
+    RAISE EXCEPTION 'Not enough membership credit: this booking needs % hours and % are left',
+      v_hours, v_membership.credit_hours - v_membership.used_hours + v_returned;
+  END IF;
+
+  UPDATE memberships SET used_hours = used_hours - v_returned + v_hours WHERE id = v_membership.id;
+
+  NEW.credit_hours := v_hours;
+  NEW.promo_code := NULL;
+  NEW.discount_amount := 0;
+  NEW.total_price := NEW.add_ons_total;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER charge_bookings_membership
+  BEFORE INSERT OR UPDATE OF workspace_type, date, time_slot, duration, promo_code, add_ons, membership_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION charge_booking_membership();
+
+CREATE OR REPLACE FUNCTION refund_booking_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.membership_id IS NOT NULL
+    AND OLD.status IN ('pending', 'confirmed')
+    AND NEW.status NOT IN ('pending', 'confirmed') THEN
+    UPDATE memberships SET used_hours = greatest(used_hours - NEW.credit_hours, 0) WHERE id = NEW.membership_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refund_bookings_membership
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION refund_booking_membership();
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'add_ons', p_booking.add_ons,
+    'add_ons_total', p_booking.add_ons_total,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'group_id', p_booking.group_id,
+    'attendee_name', p_booking.attendee_name,
+    'checked_in_at', p_booking.checked_in_at,
+    'membership_id', p_booking.membership_id,
+    'credit_hours', p_booking.credit_hours,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION grant_membership(text, uuid, date) FROM public;
+GRANT EXECUTE ON FUNCTION grant_membership(text, uuid, date) TO authenticated;
@@ -0,0 +1,232 @@
+/*
+  # Invoices for confirmed bookings
+
+  1. New Settings
+    - `company_tax_id` - tax registration number printed on invoices
+    - `tax_rate_percent` - VAT included in booking prices
+    - `invoice_prefix` - prefix of invoice numbers, e.g. INV-000042
+    Company name, address, email and phone come from the existing
+    `site_name` and `contact_*` settings.
+
+  2. New Tables
+    - `invoice_counter` - single row holding the last invoice number. It is
+      locked while an invoice is issued, so numbers are sequential and a
+      failed transaction gives its number back instead of leaving a gap.
+    - `invoices` - one per booking, issued when the booking is confirmed
+      - `number` (bigint) and `invoice_number` (text) - sequential number
+        and its printed form
+      - `company` (jsonb) - company details at the time of issue
+      - `lines` (jsonb) - `[{description, quantity, unit_price, amount}]`
+      - `subtotal`, `discount_amount`, `promo_code`, `tax_rate`,
+        `tax_amount`, `total` - totals; prices include tax
+    - Invoices are never edited. Customers can read invoices of their own
+      bookings and admins can read every invoice.
+
+  3. New Functions
+    - `issue_invoice(p_booking_id)` - issues the invoice, or returns the one
+      already issued. Called by the `issue_bookings_invoice` trigger.
+    - `get_guest_invoice(p_email, p_code)` - invoice lookup for guests, with
+      the same checks as `get_guest_booking`
+
+  4. Existing Data
+    - Confirmed bookings get invoices, numbered in confirmation order
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public) VALUES
+  ('company_tax_id', '', 'Tax registration number printed on invoices', 'text', true),
+  ('tax_rate_percent', '14', 'VAT rate (percent) included in booking prices', 'number', true),
+  ('invoice_prefix', 'INV', 'Prefix for invoice numbers', 'text', false)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoice_counter (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  last_number bigint NOT NULL DEFAULT 0
+);
+
+INSERT INTO invoice_counter (id, last_number) VALUES (true, 0) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE invoice_counter ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  number bigint NOT NULL UNIQUE,
+  invoice_number text NOT NULL UNIQUE,
+  booking_id uuid NOT NULL UNIQUE REFERENCES bookings(id),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  customer_name text NOT NULL,
+  customer_email text NOT NULL,
+  company jsonb NOT NULL,
+  lines jsonb NOT NULL,
+  subtotal numeric NOT NULL,
+  discount_amount numeric NOT NULL DEFAULT 0,
+  promo_code text,
+  tax_rate numeric NOT NULL DEFAULT 0,
+  tax_amount numeric NOT NULL DEFAULT 0,
+  total numeric NOT NULL
+);
+
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view invoices for their own bookings"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM bookings WHERE bookings.id = invoices.booking_id AND bookings.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all invoices"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION issue_invoice(p_booking_id uuid)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+  v_number bigint;
+  v_tax_rate numeric;
+  v_workspace_amount numeric;
+  v_lines jsonb;
+BEGIN
+  SELECT * INTO v_invoice FROM invoices WHERE booking_id = p_booking_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.status IS DISTINCT FROM 'confirmed' THEN
+    RAISE EXCEPTION 'Invoices are only issued for confirmed bookings';
+  END IF;
+
+  v_tax_rate := coalesce(
+    (SELECT value::numeric FROM site_settings WHERE key = 'tax_rate_percent' AND value ~ '^\d+(\.\d+)?$'),
+    0
+  );
+
+  -- total_price = workspace price - discount + add-ons
+  v_workspace_amount := v_booking.total_price - v_booking.add_ons_total + v_booking.discount_amount;
+
+  v_lines := jsonb_build_array(jsonb_build_object(
+    'description', format('%s%s, %s %s (%s)%s',
+      v_booking.workspace_type,
+      CASE WHEN v_booking.unit_name IS NOT NULL THEN ' - ' || v_booking.unit_name ELSE '' END,
+      to_char(v_booking.date, 'DD Mon YYYY'), v_booking.time_slot, v_booking.duration,
+      CASE WHEN v_booking.membership_id IS NOT NULL
+        THEN format(', paid with %s hours of membership credit', v_booking.credit_hours)
+        ELSE ''
+      END),
+    'quantity', 1,
+    'unit_price', v_workspace_amount,
+    'amount', v_workspace_amount
+  )) || coalesce((
+    SELECT jsonb_agg(jsonb_build_object(
+      'description', line ->> 'name',
+      'quantity', (line ->> 'quantity')::integer,
+      'unit_price', (line ->> 'unit_price')::numeric,
+      'amount', (line ->> 'amount')::numeric
+    ))
+    FROM jsonb_array_elements(v_booking.add_ons) AS line
+  ), '[]'::jsonb);
+
+  -- Holds the counter row until this transaction ends
+  UPDATE invoice_counter SET last_number = last_number + 1 WHERE id RETURNING last_number INTO v_number;
+
+  INSERT INTO invoices (
+    number, invoice_number, booking_id, customer_name, customer_email, company, lines,
+    subtotal, discount_amount, promo_code, tax_rate, tax_amount, total
+  ) VALUES (
+    v_number,
+    coalesce(nullif((SELECT value FROM site_settings WHERE key = 'invoice_prefix'), ''), 'INV')
+      || '-' || lpad(v_number::text, 6, '0'),
+    v_booking.id,
+    v_booking.customer_name,
+    v_booking.customer_email,
+    (SELECT jsonb_build_object(
+      'name', max(value) FILTER (WHERE key = 'site_name'),
+      'address', max(value) FILTER (WHERE key = 'contact_address'),
+      'email', max(value) FILTER (WHERE key = 'contact_email'),
+      'phone', max(value) FILTER (WHERE key = 'contact_phone'),
+      'tax_id', max(value) FILTER (WHERE key = 'company_tax_id')
+    ) FROM site_settings),
+    v_lines,
+    v_workspace_amount + v_booking.add_ons_total,
+    v_booking.discount_amount,
+    v_booking.promo_code,
+    v_tax_rate,
+    round(v_booking.total_price * v_tax_rate / (100 + v_tax_rate), 2),
+    v_booking.total_price
+  )
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_booking_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+    PERFORM issue_invoice(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER issue_bookings_invoice
+  AFTER INSERT OR UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION issue_booking_invoice();
+
+CREATE OR REPLACE FUNCTION get_guest_invoice(p_email text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+  v_invoice invoices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_invoice FROM invoices WHERE booking_id = (v_found.p_booking).id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_issued');
+  END IF;
+
+  RETURN jsonb_build_object('status', 'found', 'invoice', to_jsonb(v_invoice));
+END;
+$$;
+
+DO $$
+DECLARE
+  v_booking_id uuid;
+BEGIN
+  FOR v_booking_id IN
+    SELECT id FROM bookings WHERE status = 'confirmed' ORDER BY updated_at, created_at
+  LOOP
+    PERFORM issue_invoice(v_booking_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION get_guest_invoice(text, text) TO anon, authenticated;
@@ -0,0 +1,289 @@
+/*
+  # Online payments
+
+  1. Changes to `bookings`
+    - `payment_status` (text) - 'unpaid', 'authorized', 'paid',
+      'partially_refunded' or 'refunded'. Series and group bookings are paid
+      together, so every booking of one shares the status.
+
+  2. New Tables
+    - `payments` - one attempt to pay for a booking through a payment provider
+      - `booking_id` - the booking the customer paid from; its series or group
+        siblings are covered by the same payment
+      - `provider` (text) - 'mock' or a real gateway such as 'paymob'
+      - `provider_ref`, `provider_transaction_id` - the provider's intent and
+        transaction ids, used for captures and refunds
+      - `amount`, `currency`, `refunded_amount`
+      - `status` (text) - 'created', 'authorized', 'succeeded', 'failed',
+        'partially_refunded' or 'refunded'
+      - `checkout_url` - where the customer completes the payment
+    - `payment_events` - every provider event applied to a payment. The
+      unique `event_key` makes webhook retries harmless.
+    - Customers can read payments for their own bookings; admins read all.
+      Only the payments edge function (service role) writes them.
+
+  3. New Functions
+    - `start_booking_payment(p_booking_id, p_provider)` - creates a payment for
+      the amount still due on a pending booking and its siblings
+    - `record_payment_event(...)` - applies a provider event. A successful
+      payment marks the bookings paid and, while their hold is still valid,
+      confirms them with a generated confirmation code.
+    - `get_booking_payment(p_booking_id)` - payment and booking status for the
+      confirmation page, callable by anyone holding the booking id
+*/
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS payment_status text NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'authorized', 'paid', 'partially_refunded', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id),
+  provider text NOT NULL,
+  provider_ref text,
+  provider_transaction_id text,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'EGP',
+  refunded_amount numeric NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'created'
+    CHECK (status IN ('created', 'authorized', 'succeeded', 'failed', 'partially_refunded', 'refunded')),
+  checkout_url text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS payments_booking_id_idx ON payments (booking_id);
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES payments(id),
+  event_key text NOT NULL UNIQUE,
+  status text NOT NULL,
+  amount numeric NOT NULL DEFAULT 0,
+  payload jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payments for their own bookings"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM bookings WHERE bookings.id = payments.booking_id AND bookings.user_id = auth.uid()
+  ));
+
+CREATE POLICY "Admins can view all payments"
+  ON payments
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "Admins can view payment events"
+  ON payment_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- The booking and its series or group siblings, which are paid for together
+CREATE OR REPLACE FUNCTION booking_payment_ids(p_booking_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id
+  FROM bookings b, bookings lead
+  WHERE lead.id = p_booking_id
+    AND (
+      b.id = lead.id
+      OR b.group_id = coalesce(lead.group_id, lead.id)
+      OR (lead.series_id IS NOT NULL AND b.series_id = lead.series_id)
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION start_booking_payment(p_booking_id uuid, p_provider text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'pending' OR NOT booking_holds_slot(v_booking.status, v_booking.hold_expires_at) THEN
+    RAISE EXCEPTION 'This booking can no longer be paid for';
+  END IF;
+
+  IF v_booking.payment_status <> 'unpaid' THEN
+    RAISE EXCEPTION 'This booking has already been paid for';
+  END IF;
+
+  SELECT sum(total_price) INTO v_amount
+  FROM bookings
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND status = 'pending';
+
+  IF coalesce(v_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to pay for this booking';
+  END IF;
+
+  INSERT INTO payments (booking_id, provider, amount)
+  VALUES (p_booking_id, p_provider, v_amount)
+  RETURNING * INTO v_payment;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment.id,
+    'amount', v_payment.amount,
+    'currency', v_payment.currency,
+    'customer_name', v_booking.customer_name,
+    'customer_email', v_booking.customer_email,
+    'customer_phone', v_booking.customer_phone,
+    'description', format('%s on %s', v_booking.workspace_type, to_char(v_booking.date, 'DD Mon YYYY'))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_payment_id uuid,
+  p_event_key text,
+  p_status text,
+  p_amount numeric,
+  p_transaction_id text DEFAULT NULL,
+  p_payload jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+  v_code text;
+  v_confirmed boolean := false;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  BEGIN
+    INSERT INTO payment_events (payment_id, event_key, status, amount, payload)
+    VALUES (p_payment_id, p_event_key, p_status, coalesce(p_amount, 0), p_payload);
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'payment_status', v_payment.status);
+  END;
+
+  CASE p_status
+    WHEN 'authorized' THEN
+      IF v_payment.status = 'created' THEN
+        v_payment.status := 'authorized';
+      END IF;
+
+    WHEN 'succeeded' THEN
+      -- Kept in payment_events for an admin to sort out
+      IF p_amount < v_payment.amount THEN
+        RETURN jsonb_build_object('status', 'underpaid', 'payment_status', v_payment.status);
+      END IF;
+      IF v_payment.status IN ('created', 'authorized', 'failed') THEN
+        v_payment.status := 'succeeded';
+      END IF;
+
+    WHEN 'failed' THEN
+      IF v_payment.status IN ('created', 'authorized') THEN
+        v_payment.status := 'failed';
+      END IF;
+
+    WHEN 'refunded' THEN
+      v_payment.refunded_amount := least(v_payment.refunded_amount + p_amount, v_payment.amount);
+      v_payment.status := CASE
+        WHEN v_payment.refunded_amount >= v_payment.amount THEN 'refunded'
+        ELSE 'partially_refunded'
+      END;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment event %', p_status;
+  END CASE;
+
+  UPDATE payments
+  SET status = v_payment.status,
+      refunded_amount = v_payment.refunded_amount,
+      provider_transaction_id = coalesce(provider_transaction_id, p_transaction_id)
+  WHERE id = p_payment_id;
+
+  -- A failed attempt leaves the bookings as they were, possibly paid by another
+  IF v_payment.status <> 'failed' THEN
+    UPDATE bookings
+    SET payment_status = CASE v_payment.status
+      WHEN 'authorized' THEN 'authorized'
+      WHEN 'succeeded' THEN 'paid'
+      ELSE v_payment.status
+    END
+    WHERE id IN (SELECT booking_payment_ids(v_payment.booking_id));
+  END IF;
+
+  -- Paid bookings confirm themselves while they still hold their slot. Late
+  -- payments stay recorded for an admin to refund or rebook.
+  IF p_status = 'succeeded' THEN
+    SELECT * INTO v_booking FROM bookings WHERE id = v_payment.booking_id;
+
+    IF booking_holds_slot(v_booking.status, v_booking.hold_expires_at) AND v_booking.status = 'pending' THEN
+      v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+      UPDATE bookings
+      SET status = 'confirmed', confirmation_code = v_code
+      WHERE id IN (SELECT booking_payment_ids(v_payment.booking_id)) AND status = 'pending';
+
+      v_confirmed := true;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'recorded',
+    'payment_status', v_payment.status,
+    'booking_confirmed', v_confirmed
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_booking_payment(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'status', b.status,
+    'payment_status', b.payment_status,
+    -- Only shown once the customer has paid online, since nobody sent it to them
+    'confirmation_code', CASE WHEN b.payment_status = 'paid' THEN b.confirmation_code END,
+    'latest_payment_status', (
+      SELECT p.status FROM payments p WHERE p.booking_id = b.id ORDER BY p.created_at DESC LIMIT 1
+    )
+  )
+  FROM bookings b
+  WHERE b.id = p_booking_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION booking_payment_ids(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION start_booking_payment(uuid, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_payment_event(uuid, text, text, numeric, text, jsonb) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION start_booking_payment(uuid, text) TO service_role;
+GRANT EXECUTE ON FUNCTION record_payment_event(uuid, text, text, numeric, text, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION get_booking_payment(uuid) TO anon, authenticated;
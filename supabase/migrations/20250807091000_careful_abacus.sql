@@ -0,0 +1,433 @@
+/*
+  # Manual payment reconciliation
+
+  1. Changes to `payments`
+    - Wallet transfers, cash and other payments taken outside a gateway are
+      recorded by admins with `provider` 'manual'
+    - `method` (text) - 'vodafone_cash', 'instapay', 'bank_transfer', 'cash',
+      'card' or 'other'
+    - `reference` (text) - transfer or receipt reference
+    - `recorded_by` (uuid) - admin who recorded it
+
+  2. Changes to `bookings`
+    - `payment_status` can also be 'partially_paid'. It is now worked out
+      from every payment made for the booking and its series or group
+      siblings, against what they cost.
+
+  3. New Tables
+    - `payment_proofs` - transfer screenshots and references sent by
+      customers from the confirmation page, for admins to check
+      - `status` (text) - 'submitted', 'accepted' or 'rejected'
+      - `file_path` - object in the private `payment-proofs` bucket
+      - `payment_id` - the payment recorded when the proof was accepted
+
+  4. New Functions
+    - `booking_amount_due(p_booking_id)` - what the booking and its siblings
+      cost: prices and reschedule fees of active bookings plus fees of
+      cancelled ones
+    - `refresh_booking_payment_status(p_booking_id)`
+    - `submit_payment_proof(...)` - callable by anyone holding the booking id
+    - `record_manual_payment(...)` - admins only
+    - `get_booking_payment` also returns `amount_due`, `amount_paid` and
+      `balance`, and online payments charge the balance
+*/
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS method text
+  CHECK (method IN ('vodafone_cash', 'instapay', 'bank_transfer', 'cash', 'card', 'other'));
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reference text;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS recorded_by uuid REFERENCES auth.users(id);
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_payment_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_payment_status_check
+  CHECK (payment_status IN ('unpaid', 'authorized', 'partially_paid', 'paid', 'partially_refunded', 'refunded'));
+
+CREATE TABLE IF NOT EXISTS payment_proofs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id),
+  method text NOT NULL CHECK (method IN ('vodafone_cash', 'instapay', 'bank_transfer', 'cash', 'card', 'other')),
+  reference text,
+  amount numeric CHECK (amount > 0),
+  file_path text,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'accepted', 'rejected')),
+  payment_id uuid REFERENCES payments(id),
+  created_at timestamptz DEFAULT now(),
+  CHECK (reference IS NOT NULL OR file_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS payment_proofs_booking_id_idx ON payment_proofs (booking_id);
+
+ALTER TABLE payment_proofs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage payment proofs"
+  ON payment_proofs
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('payment-proofs', 'payment-proofs', false, 5242880, ARRAY['image/png', 'image/jpeg', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Guests pay too, so anyone may upload; only admins can read the files back
+CREATE POLICY "Anyone can upload payment proofs" ON storage.objects
+FOR INSERT TO anon, authenticated
+WITH CHECK (bucket_id = 'payment-proofs');
+
+CREATE POLICY "Admins can view payment proofs" ON storage.objects
+FOR SELECT TO authenticated
+USING (bucket_id = 'payment-proofs' AND is_admin());
+
+CREATE OR REPLACE FUNCTION booking_amount_due(p_booking_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(CASE
+    WHEN status IN ('pending', 'confirmed') THEN total_price + reschedule_fees
+    WHEN status = 'cancelled' THEN cancellation_fee
+    ELSE 0
+  END), 0)
+  FROM bookings
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id));
+$$;
+
+-- Money kept from payments for the booking and its siblings, after refunds
+CREATE OR REPLACE FUNCTION booking_amount_paid(p_booking_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(amount - refunded_amount), 0)
+  FROM payments
+  WHERE booking_id IN (SELECT booking_payment_ids(p_booking_id))
+    AND status IN ('succeeded', 'partially_refunded', 'refunded');
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_booking_payment_status(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_due numeric := booking_amount_due(p_booking_id);
+  v_paid numeric := booking_amount_paid(p_booking_id);
+  v_refunded boolean;
+  v_authorized boolean;
+  v_status text;
+BEGIN
+  SELECT bool_or(refunded_amount > 0), bool_or(status = 'authorized')
+  INTO v_refunded, v_authorized
+  FROM payments
+  WHERE booking_id IN (SELECT booking_payment_ids(p_booking_id));
+
+  v_status := CASE
+    WHEN v_paid > 0 AND v_paid >= v_due THEN 'paid'
+    WHEN v_refunded THEN CASE WHEN v_paid > 0 THEN 'partially_refunded' ELSE 'refunded' END
+    WHEN v_paid > 0 THEN 'partially_paid'
+    WHEN v_authorized THEN 'authorized'
+    ELSE 'unpaid'
+  END;
+
+  UPDATE bookings
+  SET payment_status = v_status
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND payment_status IS DISTINCT FROM v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Online payments now charge what is left after earlier payments
+CREATE OR REPLACE FUNCTION start_booking_payment(p_booking_id uuid, p_provider text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_amount numeric;
+  v_payment payments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status <> 'pending' OR NOT booking_holds_slot(v_booking.status, v_booking.hold_expires_at) THEN
+    RAISE EXCEPTION 'This booking can no longer be paid for';
+  END IF;
+
+  IF v_booking.payment_status NOT IN ('unpaid', 'partially_paid') THEN
+    RAISE EXCEPTION 'This booking has already been paid for';
+  END IF;
+
+  v_amount := booking_amount_due(p_booking_id) - booking_amount_paid(p_booking_id);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'There is nothing to pay for this booking';
+  END IF;
+
+  INSERT INTO payments (booking_id, provider, amount, method)
+  VALUES (p_booking_id, p_provider, v_amount, 'card')
+  RETURNING * INTO v_payment;
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment.id,
+    'amount', v_payment.amount,
+    'currency', v_payment.currency,
+    'customer_name', v_booking.customer_name,
+    'customer_email', v_booking.customer_email,
+    'customer_phone', v_booking.customer_phone,
+    'description', format('%s on %s', v_booking.workspace_type, to_char(v_booking.date, 'DD Mon YYYY'))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_payment_id uuid,
+  p_event_key text,
+  p_status text,
+  p_amount numeric,
+  p_transaction_id text DEFAULT NULL,
+  p_payload jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+  v_code text;
+  v_confirmed boolean := false;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  BEGIN
+    INSERT INTO payment_events (payment_id, event_key, status, amount, payload)
+    VALUES (p_payment_id, p_event_key, p_status, coalesce(p_amount, 0), p_payload);
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'payment_status', v_payment.status);
+  END;
+
+  CASE p_status
+    WHEN 'authorized' THEN
+      IF v_payment.status = 'created' THEN
+        v_payment.status := 'authorized';
+      END IF;
+
+    WHEN 'succeeded' THEN
+      -- Kept in payment_events for an admin to sort out
+      IF p_amount < v_payment.amount THEN
+        RETURN jsonb_build_object('status', 'underpaid', 'payment_status', v_payment.status);
+      END IF;
+      IF v_payment.status IN ('created', 'authorized', 'failed') THEN
+        v_payment.status := 'succeeded';
+      END IF;
+
+    WHEN 'failed' THEN
+      IF v_payment.status IN ('created', 'authorized') THEN
+        v_payment.status := 'failed';
+      END IF;
+
+    WHEN 'refunded' THEN
+      v_payment.refunded_amount := least(v_payment.refunded_amount + p_amount, v_payment.amount);
+      v_payment.status := CASE
+        WHEN v_payment.refunded_amount >= v_payment.amount THEN 'refunded'
+        ELSE 'partially_refunded'
+      END;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment event %', p_status;
+  END CASE;
+
+  UPDATE payments
+  SET status = v_payment.status,
+      refunded_amount = v_payment.refunded_amount,
+      provider_transaction_id = coalesce(provider_transaction_id, p_transaction_id)
+  WHERE id = p_payment_id;
+
+  PERFORM refresh_booking_payment_status(v_payment.booking_id);
+
+  -- Paid bookings confirm themselves while they still hold their slot. Late
+  -- payments stay recorded for an admin to refund or rebook.
+  IF p_status = 'succeeded' THEN
+    SELECT * INTO v_booking FROM bookings WHERE id = v_payment.booking_id;
+
+    IF v_booking.payment_status = 'paid' AND v_booking.status = 'pending'
+      AND booking_holds_slot(v_booking.status, v_booking.hold_expires_at) THEN
+      v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+      UPDATE bookings
+      SET status = 'confirmed', confirmation_code = v_code
+      WHERE id IN (SELECT booking_payment_ids(v_payment.booking_id)) AND status = 'pending';
+
+      v_confirmed := true;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'recorded',
+    'payment_status', v_payment.status,
+    'booking_confirmed', v_confirmed
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION submit_payment_proof(
+  p_booking_id uuid,
+  p_method text,
+  p_reference text,
+  p_amount numeric,
+  p_file_path text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status text;
+  v_proof_id uuid;
+BEGIN
+  SELECT status INTO v_status FROM bookings WHERE id = p_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is % and no longer takes payments', v_status;
+  END IF;
+
+  -- Files must sit in the booking's own folder of the bucket
+  IF p_file_path IS NOT NULL AND p_file_path NOT LIKE p_booking_id::text || '/%' THEN
+    RAISE EXCEPTION 'Invalid file for this booking';
+  END IF;
+
+  IF nullif(trim(p_reference), '') IS NULL AND p_file_path IS NULL THEN
+    RAISE EXCEPTION 'Add a transfer reference or a screenshot';
+  END IF;
+
+  INSERT INTO payment_proofs (booking_id, method, reference, amount, file_path)
+  VALUES (p_booking_id, p_method, nullif(trim(p_reference), ''), p_amount, p_file_path)
+  RETURNING id INTO v_proof_id;
+
+  RETURN v_proof_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_manual_payment(
+  p_booking_id uuid,
+  p_amount numeric,
+  p_method text,
+  p_reference text,
+  p_proof_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payment_id uuid;
+  v_payment_status text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can record payments';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM bookings WHERE id = p_booking_id) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  INSERT INTO payments (booking_id, provider, amount, status, method, reference, recorded_by)
+  VALUES (p_booking_id, 'manual', p_amount, 'succeeded', p_method, nullif(trim(p_reference), ''), auth.uid())
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO payment_events (payment_id, event_key, status, amount, payload)
+  VALUES (v_payment_id, 'manual:' || v_payment_id, 'succeeded', p_amount,
+    jsonb_build_object('method', p_method, 'reference', p_reference, 'proof_id', p_proof_id));
+
+  IF p_proof_id IS NOT NULL THEN
+    UPDATE payment_proofs
+    SET status = 'accepted', payment_id = v_payment_id
+    WHERE id = p_proof_id AND booking_id IN (SELECT booking_payment_ids(p_booking_id));
+  END IF;
+
+  v_payment_status := refresh_booking_payment_status(p_booking_id);
+
+  RETURN jsonb_build_object(
+    'payment_id', v_payment_id,
+    'payment_status', v_payment_status,
+    'balance', booking_amount_due(p_booking_id) - booking_amount_paid(p_booking_id)
+  );
+END;
+$$;
+
+-- Fees and reschedules change what is owed
+CREATE OR REPLACE FUNCTION refresh_bookings_payment_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_booking_payment_status(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER refresh_bookings_payment
+  AFTER UPDATE OF status, total_price, reschedule_fees, cancellation_fee ON bookings
+  FOR EACH ROW
+  WHEN (OLD.payment_status <> 'unpaid')
+  EXECUTE FUNCTION refresh_bookings_payment_status();
+
+CREATE OR REPLACE FUNCTION get_booking_payment(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'status', b.status,
+    'payment_status', b.payment_status,
+    -- Only shown once the customer has paid online, since nobody sent it to them
+    'confirmation_code', CASE WHEN b.payment_status = 'paid' THEN b.confirmation_code END,
+    'latest_payment_status', (
+      SELECT p.status FROM payments p WHERE p.booking_id = b.id ORDER BY p.created_at DESC LIMIT 1
+    ),
+    'amount_due', booking_amount_due(b.id),
+    'amount_paid', booking_amount_paid(b.id),
+    'balance', booking_amount_due(b.id) - booking_amount_paid(b.id),
+    'proofs_submitted', (
+      SELECT count(*) FROM payment_proofs pp WHERE pp.booking_id = b.id AND pp.status = 'submitted'
+    )
+  )
+  FROM bookings b
+  WHERE b.id = p_booking_id;
+$$;
+
+-- Payments recorded before this change
+DO $$
+DECLARE
+  v_booking_id uuid;
+BEGIN
+  FOR v_booking_id IN SELECT DISTINCT booking_id FROM payments LOOP
+    PERFORM refresh_booking_payment_status(v_booking_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION booking_amount_due(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION booking_amount_paid(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION refresh_booking_payment_status(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION submit_payment_proof(uuid, text, text, numeric, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_manual_payment(uuid, numeric, text, text, uuid) TO authenticated;
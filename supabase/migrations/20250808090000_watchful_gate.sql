@@ -0,0 +1,276 @@
+/*
+  # Check-in and check-out
+
+  1. Changes to `bookings`
+    - `check_in_code` (text, unique) - random code behind the booking's QR
+      code. It is separate from the confirmation code so showing the QR code
+      at the door does not give away the guest lookup.
+    - `checked_out_at` (timestamptz, nullable) - set when the customer leaves
+    - `no_show` (boolean) - confirmed bookings that ended without a check-in
+
+  2. Settings
+    - `check_in_early_minutes` - how long before the start time a booking can
+      be checked in
+
+  3. New Functions
+    - `scan_check_in(p_code)` - admins scan a QR code: the first scan checks
+      the booking in, the second checks it out
+    - `mark_no_shows()` - flags ended bookings nobody checked in for. It runs
+      hourly when pg_cron is available and whenever admins load bookings.
+    - `get_attendance_summary(p_from, p_to)` - booked against used hours and
+      no-shows per workspace type, for analytics
+
+  4. Changes
+    - `set_attendee_check_in` clears the no-show flag, and undoing a check-in
+      also clears the check-out
+    - Guest lookups and `get_booking_payment` return the check-in code of
+      confirmed bookings
+*/
+
+INSERT INTO site_settings (key, value, description, setting_type, is_public) VALUES
+  ('check_in_early_minutes', '30', 'Minutes before the start time a booking can be checked in', 'number', false)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS check_in_code text
+  NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', '');
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS checked_out_at timestamptz;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS no_show boolean NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS bookings_check_in_code_idx ON bookings (check_in_code);
+
+CREATE OR REPLACE FUNCTION scan_check_in(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_early_minutes integer;
+  v_action text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can check bookings in';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE check_in_code = trim(p_code) FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No booking matches this QR code';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'This booking is %, not confirmed', v_booking.status;
+  END IF;
+
+  SELECT coalesce(value::integer, 30) INTO v_early_minutes
+  FROM site_settings WHERE key = 'check_in_early_minutes';
+
+  IF v_booking.checked_in_at IS NULL THEN
+    IF local_now() < v_booking.starts_at - make_interval(mins => coalesce(v_early_minutes, 30)) THEN
+      RAISE EXCEPTION 'Too early: this booking starts on % at %',
+        to_char(v_booking.date, 'DD Mon YYYY'), v_booking.time_slot;
+    END IF;
+
+    IF local_now() > v_booking.ends_at THEN
+      RAISE EXCEPTION 'This booking has already ended';
+    END IF;
+
+    UPDATE bookings
+    SET checked_in_at = now(), no_show = false
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+    v_action := 'checked_in';
+  ELSIF v_booking.checked_out_at IS NULL THEN
+    UPDATE bookings
+    SET checked_out_at = now()
+    WHERE id = v_booking.id
+    RETURNING * INTO v_booking;
+    v_action := 'checked_out';
+  ELSE
+    v_action := 'already_checked_out';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'action', v_action,
+    'booking', guest_booking_json(v_booking)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_attendee_check_in(p_booking_id uuid, p_checked_in boolean)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_checked_in_at timestamptz;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can check attendees in';
+  END IF;
+
+  UPDATE bookings
+  SET checked_in_at = CASE WHEN p_checked_in THEN coalesce(checked_in_at, now()) END,
+      checked_out_at = CASE WHEN p_checked_in THEN checked_out_at END,
+      no_show = CASE WHEN p_checked_in THEN false ELSE no_show END
+  WHERE id = p_booking_id AND status = 'confirmed'
+  RETURNING checked_in_at INTO v_checked_in_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only confirmed bookings can be checked in';
+  END IF;
+
+  RETURN v_checked_in_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_no_shows()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE bookings
+  SET no_show = true
+  WHERE status = 'confirmed'
+    AND checked_in_at IS NULL
+    AND NOT no_show
+    AND ends_at < local_now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Hours are counted for bookings that have ended. Customers who never
+-- scanned out are counted until the end of their booking. Booking times are
+-- local wall-clock times, so they are converted before comparing them with
+-- the check-in timestamps.
+CREATE OR REPLACE FUNCTION get_attendance_summary(p_from date, p_to date)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rows jsonb;
+  v_timezone text := coalesce((SELECT value FROM site_settings WHERE key = 'site_timezone'), 'UTC');
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view attendance';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(row_to_json(s) ORDER BY s.workspace_type), '[]'::jsonb) INTO v_rows
+  FROM (
+    SELECT
+      b.workspace_type,
+      count(*) AS bookings,
+      count(b.checked_in_at) AS checked_in,
+      count(*) FILTER (WHERE b.no_show) AS no_shows,
+      round(sum(extract(epoch FROM b.ends_at - b.starts_at) / 3600)::numeric, 1) AS booked_hours,
+      round(coalesce(sum(
+        extract(epoch FROM greatest(
+          least(coalesce(b.checked_out_at, b.ends_at AT TIME ZONE v_timezone), b.ends_at AT TIME ZONE v_timezone) - b.checked_in_at,
+          interval '0'
+        )) / 3600
+      ) FILTER (WHERE b.checked_in_at IS NOT NULL), 0)::numeric, 1) AS used_hours
+    FROM bookings b
+    WHERE b.status = 'confirmed'
+      AND b.date BETWEEN p_from AND p_to
+      AND b.ends_at < local_now()
+    GROUP BY b.workspace_type
+  ) s;
+
+  RETURN v_rows;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'add_ons', p_booking.add_ons,
+    'add_ons_total', p_booking.add_ons_total,
+    'status', p_booking.status,
+    'confirmation_code', p_booking.confirmation_code,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'group_id', p_booking.group_id,
+    'attendee_name', p_booking.attendee_name,
+    'checked_in_at', p_booking.checked_in_at,
+    'checked_out_at', p_booking.checked_out_at,
+    'no_show', p_booking.no_show,
+    'check_in_code', CASE WHEN p_booking.status = 'confirmed' THEN p_booking.check_in_code END,
+    'membership_id', p_booking.membership_id,
+    'credit_hours', p_booking.credit_hours,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_booking_payment(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'status', b.status,
+    'payment_status', b.payment_status,
+    -- Only shown once the customer has paid online, since nobody sent it to them
+    'confirmation_code', CASE WHEN b.payment_status = 'paid' THEN b.confirmation_code END,
+    'check_in_code', CASE WHEN b.payment_status = 'paid' AND b.status = 'confirmed' THEN b.check_in_code END,
+    'latest_payment_status', (
+      SELECT p.status FROM payments p WHERE p.booking_id = b.id ORDER BY p.created_at DESC LIMIT 1
+    ),
+    'amount_due', booking_amount_due(b.id),
+    'amount_paid', booking_amount_paid(b.id),
+    'balance', booking_amount_due(b.id) - booking_amount_paid(b.id),
+    'proofs_submitted', (
+      SELECT count(*) FROM payment_proofs pp WHERE pp.booking_id = b.id AND pp.status = 'submitted'
+    )
+  )
+  FROM bookings b
+  WHERE b.id = p_booking_id;
+$$;
+
+-- Bookings that ended before this change
+SELECT mark_no_shows();
+
+REVOKE EXECUTE ON FUNCTION scan_check_in(text) FROM public;
+REVOKE EXECUTE ON FUNCTION mark_no_shows() FROM public;
+REVOKE EXECUTE ON FUNCTION get_attendance_summary(date, date) FROM public;
+GRANT EXECUTE ON FUNCTION scan_check_in(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_no_shows() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_attendance_summary(date, date) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('mark-no-shows', '0 * * * *', 'SELECT mark_no_shows()');
+  END IF;
+END;
+$$;
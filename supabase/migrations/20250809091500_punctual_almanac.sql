@@ -0,0 +1,95 @@
+/*
+  # Calendar feeds
+
+  1. New Tables
+    - `calendar_feeds` - secret links to iCalendar feeds, served by the
+      `calendar-feed` edge function. Calendar apps cannot sign in, so the
+      token in the link is the credential.
+      - `user_id` - a customer's feed of their own bookings
+      - `workspace_type` - a staff feed of every booking of that workspace type
+      - `revoked_at` - set when the link is reset
+
+  2. New Functions
+    - `get_calendar_feed(p_workspace_type, p_reset)` - returns the caller's
+      feed token, creating it on first use. Without a workspace type it is the
+      signed-in customer's own feed; workspace feeds are for admins. With
+      `p_reset` the old link stops working and a new token is issued.
+
+  3. Security
+    - Customers can read their own feed; admins manage all of them
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token text NOT NULL UNIQUE
+    DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  user_id uuid REFERENCES auth.users(id),
+  workspace_type text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK ((user_id IS NULL) <> (workspace_type IS NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_active_user_idx
+  ON calendar_feeds (user_id) WHERE revoked_at IS NULL AND user_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_active_workspace_idx
+  ON calendar_feeds (workspace_type) WHERE revoked_at IS NULL AND workspace_type IS NOT NULL;
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage calendar feeds"
+  ON calendar_feeds
+  FOR ALL
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION get_calendar_feed(p_workspace_type text DEFAULT NULL, p_reset boolean DEFAULT false)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_token text;
+BEGIN
+  IF p_workspace_type IS NULL THEN
+    v_user_id := auth.uid();
+    IF v_user_id IS NULL THEN
+      RAISE EXCEPTION 'Sign in to get a calendar feed';
+    END IF;
+  ELSIF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can get workspace calendar feeds';
+  END IF;
+
+  IF p_reset THEN
+    UPDATE calendar_feeds
+    SET revoked_at = now()
+    WHERE revoked_at IS NULL
+      AND (user_id = v_user_id OR workspace_type = p_workspace_type);
+  END IF;
+
+  SELECT token INTO v_token
+  FROM calendar_feeds
+  WHERE revoked_at IS NULL
+    AND (user_id = v_user_id OR workspace_type = p_workspace_type);
+
+  IF v_token IS NULL THEN
+    INSERT INTO calendar_feeds (user_id, workspace_type)
+    VALUES (v_user_id, p_workspace_type)
+    RETURNING token INTO v_token;
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_calendar_feed(text, boolean) FROM public;
+GRANT EXECUTE ON FUNCTION get_calendar_feed(text, boolean) TO authenticated;
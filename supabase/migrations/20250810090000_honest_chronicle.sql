@@ -0,0 +1,169 @@
+/*
+  # Booking audit trail
+
+  1. New Tables
+    - `booking_events` - one row per change to a booking, never updated or
+      deleted
+      - `event_type` - created, status_changed, price_changed, updated or note
+      - `changes` (jsonb) - `{ field: { before, after } }` for every column
+        that changed; new bookings only have `after` values
+      - `note` - admin notes
+      - `actor_id`, `actor_email`, `actor_role` - who made the change. The role
+        is admin, customer, guest (anonymous requests) or system (edge
+        functions, scheduled jobs and migrations).
+
+  2. Triggers
+    - `record_bookings_event` records every insert and every update that
+      changes a column, whichever page, function or job made it
+
+  3. New Functions
+    - `add_booking_note(p_booking_id, p_note)` - admins add a note
+
+  4. Security
+    - Admins can read the events. Nobody can change or delete them, and
+      bookings with events can no longer be deleted.
+*/
+
+CREATE TABLE IF NOT EXISTS booking_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id),
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'price_changed', 'updated', 'note')),
+  changes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  note text,
+  actor_id uuid,
+  actor_email text,
+  actor_role text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS booking_events_booking_id_idx ON booking_events (booking_id, created_at);
+
+ALTER TABLE booking_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view booking events"
+  ON booking_events
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE OR REPLACE FUNCTION prevent_booking_event_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Booking events cannot be changed or deleted';
+END;
+$$;
+
+CREATE TRIGGER prevent_booking_events_changes
+  BEFORE UPDATE OR DELETE ON booking_events
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_booking_event_changes();
+
+CREATE OR REPLACE FUNCTION insert_booking_event(p_booking_id uuid, p_event_type text, p_changes jsonb, p_note text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_event_id uuid;
+BEGIN
+  INSERT INTO booking_events (booking_id, event_type, changes, note, actor_id, actor_email, actor_role)
+  VALUES (
+    p_booking_id,
+    p_event_type,
+    coalesce(p_changes, '{}'::jsonb),
+    p_note,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    CASE
+      WHEN is_admin() THEN 'admin'
+      WHEN auth.uid() IS NOT NULL THEN 'customer'
+      WHEN auth.role() = 'anon' THEN 'guest'
+      ELSE 'system'
+    END
+  )
+  RETURNING id INTO v_event_id;
+
+  RETURN v_event_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_booking_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns that change without anyone changing the booking
+  v_ignored text[] := ARRAY['created_at', 'updated_at', 'hold_expires_at', 'check_in_code'];
+  v_changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('after', value)) INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW))
+    WHERE key IN ('status', 'workspace_type', 'date', 'time_slot', 'duration', 'unit_name', 'total_price', 'customer_name');
+
+    PERFORM insert_booking_event(NEW.id, 'created', v_changes, NULL);
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_object_agg(n.key, jsonb_build_object('before', o.value, 'after', n.value)) INTO v_changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key <> ALL (v_ignored);
+
+  IF v_changes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM insert_booking_event(
+    NEW.id,
+    CASE
+      WHEN v_changes ? 'status' THEN 'status_changed'
+      WHEN v_changes ?| ARRAY['total_price', 'discount_amount', 'add_ons_total', 'cancellation_fee', 'reschedule_fees']
+        THEN 'price_changed'
+      ELSE 'updated'
+    END,
+    v_changes,
+    NULL
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_bookings_event ON bookings;
+CREATE TRIGGER record_bookings_event
+  AFTER INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION record_booking_event();
+
+CREATE OR REPLACE FUNCTION add_booking_note(p_booking_id uuid, p_note text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can add notes';
+  END IF;
+
+  IF nullif(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'The note is empty';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM bookings WHERE id = p_booking_id) THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  RETURN insert_booking_event(p_booking_id, 'note', '{}'::jsonb, trim(p_note));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION insert_booking_event(uuid, text, jsonb, text) FROM public;
+REVOKE EXECUTE ON FUNCTION add_booking_note(uuid, text) FROM public;
+GRANT EXECUTE ON FUNCTION add_booking_note(uuid, text) TO authenticated;
@@ -0,0 +1,68 @@
+/*
+  # Admin booking edits
+
+  1. New Functions
+    - `admin_edit_booking(p_booking_id, p_workspace_type, p_date, p_time_slot)` -
+      admins move a booking to another workspace type, date or time in one
+      step. Moving the date or time counts as a reschedule but, like every
+      admin change, is free; a new workspace type is priced and given a free
+      unit by the booking triggers.
+*/
+
+CREATE OR REPLACE FUNCTION admin_edit_booking(
+  p_booking_id uuid,
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_moved boolean;
+  v_fee numeric := 0;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can edit bookings';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'This booking is % and can no longer be changed', v_booking.status;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM workspace_types WHERE name = p_workspace_type) THEN
+    RAISE EXCEPTION 'Unknown workspace type %', p_workspace_type;
+  END IF;
+
+  v_moved := p_date IS DISTINCT FROM v_booking.date OR p_time_slot IS DISTINCT FROM v_booking.time_slot;
+
+  -- Same check as apply_booking_reschedule(), which never charges admins
+  IF v_moved THEN
+    v_fee := check_booking_changeable(v_booking, 'reschedule');
+  END IF;
+
+  -- One update, so capacity is checked for the new workspace at the new time
+  UPDATE bookings
+  SET workspace_type = p_workspace_type,
+      date = p_date,
+      time_slot = p_time_slot,
+      reschedule_count = reschedule_count + CASE WHEN v_moved THEN 1 ELSE 0 END,
+      reschedule_fees = reschedule_fees + v_fee
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION admin_edit_booking(uuid, text, date, text) FROM public;
+GRANT EXECUTE ON FUNCTION admin_edit_booking(uuid, text, date, text) TO authenticated;
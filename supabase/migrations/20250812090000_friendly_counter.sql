@@ -0,0 +1,129 @@
+/*
+  # Walk-in and phone bookings
+
+  1. New Functions
+    - `find_customers(p_search)` - admins look up people who booked before by
+      name, email or phone. One row per email with the latest contact details,
+      and whether they have an account.
+    - `create_admin_booking(...)` - admins book for a customer at the front
+      desk or over the phone. The booking is confirmed straight away, without
+      the WhatsApp code; its confirmation code is generated here. Opening
+      hours, capacity and pricing are still enforced by the booking triggers.
+      With `p_payment_method` the full price is recorded as a manual payment.
+      The booking is linked to the customer's account when one uses the email.
+*/
+
+CREATE OR REPLACE FUNCTION find_customers(p_search text)
+RETURNS TABLE (
+  customer_name text,
+  customer_email text,
+  customer_phone text,
+  customer_whatsapp text,
+  has_account boolean,
+  booking_count bigint,
+  last_booked_on date
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pattern text := '%' || trim(coalesce(p_search, '')) || '%';
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can look up customers';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    latest.customer_name,
+    latest.customer_email,
+    latest.customer_phone,
+    latest.customer_whatsapp,
+    EXISTS (SELECT 1 FROM auth.users u WHERE lower(u.email) = lower(latest.customer_email)),
+    latest.booking_count,
+    latest.date
+  FROM (
+    SELECT DISTINCT ON (lower(b.customer_email))
+      b.customer_name,
+      b.customer_email,
+      b.customer_phone,
+      b.customer_whatsapp,
+      count(*) OVER (PARTITION BY lower(b.customer_email)) AS booking_count,
+      b.date
+    FROM bookings b
+    WHERE b.customer_name ILIKE v_pattern
+       OR b.customer_email ILIKE v_pattern
+       OR b.customer_phone ILIKE v_pattern
+       OR b.customer_whatsapp ILIKE v_pattern
+    ORDER BY lower(b.customer_email), b.created_at DESC
+  ) latest
+  ORDER BY latest.date DESC
+  LIMIT 10;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_admin_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_promo_code text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_user_id uuid;
+  v_code text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings for customers';
+  END IF;
+
+  IF nullif(trim(p_customer_name), '') IS NULL
+     OR nullif(trim(p_customer_email), '') IS NULL
+     OR nullif(trim(p_customer_phone), '') IS NULL
+     OR nullif(trim(p_customer_whatsapp), '') IS NULL THEN
+    RAISE EXCEPTION 'Fill in the customer''s name, email, phone and WhatsApp number';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_customer_email));
+
+  -- Same format as the codes issue_booking_otp() sends
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    promo_code, user_id, status, confirmation_code
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    trim(p_customer_name), trim(p_customer_email), trim(p_customer_phone), trim(p_customer_whatsapp),
+    nullif(trim(p_promo_code), ''), v_user_id, 'confirmed', v_code
+  )
+  RETURNING * INTO v_booking;
+
+  IF p_payment_method IS NOT NULL AND v_booking.total_price > 0 THEN
+    PERFORM record_manual_payment(v_booking.id, v_booking.total_price, p_payment_method, p_payment_reference);
+    SELECT * INTO v_booking FROM bookings WHERE id = v_booking.id;
+  END IF;
+
+  RETURN v_booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_customers(text) FROM public;
+REVOKE EXECUTE ON FUNCTION create_admin_booking(text, date, text, text, text, text, text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION find_customers(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_admin_booking(text, date, text, text, text, text, text, text, text, text, text) TO authenticated;
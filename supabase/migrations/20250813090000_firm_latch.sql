@@ -0,0 +1,244 @@
+/*
+  # Lock bookings inside the cancellation and reschedule helpers
+
+  1. Changed Functions
+    - `apply_booking_cancellation(p_booking_id)` and
+      `apply_booking_reschedule(p_booking_id, p_date, p_time_slot)` now take
+      the booking's id and read the row themselves, locked for the update,
+      instead of trusting a row passed in by the caller. The policy checks
+      run against the locked row, so two changes to the same booking can no
+      longer both pass them.
+    - `cancel_booking`, `reschedule_booking`, `cancel_guest_booking`,
+      `reschedule_guest_booking`, `cancel_booking_series` and
+      `reschedule_booking_series` pass the id of the booking they found.
+
+  2. Security
+    - Both helpers, `check_booking_changeable` and `get_own_booking` are
+      revoked from `public`, `anon` and `authenticated`; the functions above
+      still call them as their owner. Supabase grants EXECUTE on new
+      functions to `anon` and `authenticated` directly, so internal helpers
+      have to be revoked from those roles too, not just from `public`.
+*/
+
+DROP FUNCTION IF EXISTS apply_booking_cancellation(bookings);
+DROP FUNCTION IF EXISTS apply_booking_reschedule(bookings, date, text);
+
+-- Shared by customer, guest and series flows once the booking has been found
+CREATE OR REPLACE FUNCTION apply_booking_cancellation(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee numeric;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_fee := check_booking_changeable(v_booking, 'cancellation');
+
+  UPDATE bookings
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_fee = v_fee
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_booking_reschedule(p_booking_id uuid, p_date date, p_time_slot text)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_fee numeric;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  v_fee := check_booking_changeable(v_booking, 'reschedule');
+
+  IF NOT is_admin() AND p_date + p_time_slot::time < local_now() THEN
+    RAISE EXCEPTION 'Bookings cannot be moved into the past';
+  END IF;
+
+  UPDATE bookings
+  SET date = p_date,
+      time_slot = p_time_slot,
+      reschedule_count = reschedule_count + 1,
+      reschedule_fees = reschedule_fees + v_fee
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id uuid)
+RETURNS bookings
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT apply_booking_cancellation((get_own_booking(p_booking_id)).id);
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(p_booking_id uuid, p_date date, p_time_slot text)
+RETURNS bookings
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT apply_booking_reschedule((get_own_booking(p_booking_id)).id, p_date, p_time_slot);
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_guest_booking(p_email text, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'cancelled',
+    'booking', guest_booking_json(apply_booking_cancellation((v_found.p_booking).id))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_guest_booking(p_email text, p_code text, p_date date, p_time_slot text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_found record;
+BEGIN
+  SELECT * INTO v_found FROM find_guest_booking(p_email, p_code);
+
+  IF v_found.p_locked THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF (v_found.p_booking).id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'rescheduled',
+    'booking', guest_booking_json(apply_booking_reschedule((v_found.p_booking).id, p_date, p_time_slot))
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_cancelled integer := 0;
+  v_kept integer := 0;
+BEGIN
+  PERFORM get_own_series(p_series_id);
+
+  FOR v_booking IN SELECT * FROM get_upcoming_series_bookings(p_series_id) LOOP
+    BEGIN
+      PERFORM apply_booking_cancellation(v_booking.id);
+      v_cancelled := v_cancelled + 1;
+    EXCEPTION WHEN raise_exception THEN
+      -- Too close to the start for the cancellation policy
+      v_kept := v_kept + 1;
+    END;
+  END LOOP;
+
+  RETURN jsonb_build_object('cancelled', v_cancelled, 'kept', v_kept);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reschedule_booking_series(p_series_id uuid, p_time_slot text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_changeable boolean;
+  v_rescheduled integer := 0;
+  v_conflicts jsonb := '[]'::jsonb;
+BEGIN
+  PERFORM get_own_series(p_series_id);
+
+  BEGIN
+    FOR v_booking IN SELECT * FROM get_upcoming_series_bookings(p_series_id) LOOP
+      -- Occurrences already inside the reschedule cutoff keep their time
+      BEGIN
+        PERFORM check_booking_changeable(v_booking, 'reschedule');
+        v_changeable := true;
+      EXCEPTION WHEN raise_exception THEN
+        v_changeable := false;
+      END;
+
+      IF v_changeable THEN
+        BEGIN
+          PERFORM apply_booking_reschedule(v_booking.id, v_booking.date, p_time_slot);
+          v_rescheduled := v_rescheduled + 1;
+        EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+          v_conflicts := v_conflicts || jsonb_build_object('date', v_booking.date, 'error', SQLERRM);
+        END;
+      END IF;
+    END LOOP;
+
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+      -- Undo the occurrences already moved
+      RAISE EXCEPTION USING ERRCODE = 'SR001';
+    END IF;
+
+    UPDATE booking_series SET time_slot = p_time_slot WHERE id = p_series_id;
+  EXCEPTION WHEN SQLSTATE 'SR001' THEN
+    RETURN jsonb_build_object('status', 'conflicts', 'occurrences', v_conflicts);
+  END;
+
+  RETURN jsonb_build_object('status', 'rescheduled', 'rescheduled', v_rescheduled);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_booking_changeable(bookings, text) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_own_booking(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_booking_cancellation(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION apply_booking_reschedule(uuid, date, text) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking(uuid, date, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_guest_booking(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_guest_booking(text, text, date, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_booking_series(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reschedule_booking_series(uuid, text) TO authenticated;
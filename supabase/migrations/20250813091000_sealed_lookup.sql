@@ -0,0 +1,10 @@
+/*
+  # Keep the guest booking lookup private
+
+  1. Security
+    - `find_guest_booking(p_email, p_code)` returns the whole booking row and
+      counts failed attempts, so it is revoked from `anon` and
+      `authenticated` too. The guest functions still call it as its owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION find_guest_booking(text, text) FROM public, anon, authenticated;
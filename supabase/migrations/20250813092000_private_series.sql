@@ -0,0 +1,12 @@
+/*
+  # Keep the series helpers private
+
+  1. Security
+    - `get_own_series(p_series_id)` and `get_upcoming_series_bookings(p_series_id)`
+      return full booking rows for any series id. They are now revoked from
+      `anon` and `authenticated`; the series functions still call them after
+      checking the caller owns the series.
+*/
+
+REVOKE EXECUTE ON FUNCTION get_own_series(uuid) FROM public, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_upcoming_series_bookings(uuid) FROM public, anon, authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Only triggers issue invoices
+
+  1. Security
+    - `issue_invoice(p_booking_id)` is revoked from `anon` and
+      `authenticated`, which could otherwise take invoice numbers for any
+      confirmed booking. Only the `issue_bookings_invoice` trigger calls it.
+*/
+
+REVOKE EXECUTE ON FUNCTION issue_invoice(uuid) FROM public, anon, authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Only triggers write the audit trail
+
+  1. Security
+    - `insert_booking_event(...)` is revoked from `anon` and `authenticated`,
+      so made-up events cannot be written into a booking's history.
+      `record_booking_event` and `add_booking_note` still call it as its
+      owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION insert_booking_event(uuid, text, jsonb, text) FROM public, anon, authenticated;
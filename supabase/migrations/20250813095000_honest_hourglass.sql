@@ -0,0 +1,58 @@
+/*
+  # Holds are always set by the database
+
+  1. Changes
+    - `set_booking_hold` used to keep any `hold_expires_at` sent with a new
+      pending booking, so a customer could hold a slot as long as they liked.
+      The hold is now always set from `booking_hold_minutes` unless an admin
+      creates the booking.
+    - `booking_holds_slot` treats a pending booking without a hold as
+      expired instead of holding its slot for ever, and
+      `expire_pending_bookings` expires it.
+    - Pending bookings from before holds existed get a fresh hold, so they
+      are not dropped the moment this runs.
+*/
+
+CREATE OR REPLACE FUNCTION set_booking_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (NEW.hold_expires_at IS NULL OR NOT is_admin()) THEN
+    NEW.hold_expires_at := now() + make_interval(mins => get_policy_setting('booking_hold_minutes', 60)::integer);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION booking_holds_slot(p_status text, p_hold_expires_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_status = 'confirmed'
+    OR (p_status = 'pending' AND coalesce(p_hold_expires_at > now(), false));
+$$;
+
+CREATE OR REPLACE FUNCTION expire_pending_bookings()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE bookings
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND (hold_expires_at IS NULL OR hold_expires_at < now());
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+UPDATE bookings
+SET hold_expires_at = now() + make_interval(mins => get_policy_setting('booking_hold_minutes', 60)::integer)
+WHERE status = 'pending'
+  AND hold_expires_at IS NULL;
@@ -0,0 +1,41 @@
+/*
+  # New bookings start with server-owned columns at their defaults
+
+  1. Triggers
+    - `apply_bookings_defaults` resets the columns only the server may set
+      when a customer or guest creates a booking: payment status, fees,
+      cancellation, reschedule and check-in details, the check-in code and
+      add-on and membership totals. The insert policy only checked the status
+      and confirmation code, so a guest could create a booking that was
+      already paid or checked in. Admins are left alone.
+    - It is named to run before `apply_bookings_price` and
+      `charge_bookings_membership`, which fill in the totals again from the
+      add-ons and membership.
+*/
+
+CREATE OR REPLACE FUNCTION apply_booking_defaults()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.payment_status := 'unpaid';
+  NEW.cancelled_at := NULL;
+  NEW.cancellation_fee := 0;
+  NEW.reschedule_count := 0;
+  NEW.reschedule_fees := 0;
+  NEW.checked_in_at := NULL;
+  NEW.checked_out_at := NULL;
+  NEW.no_show := false;
+  NEW.check_in_code := replace(gen_random_uuid()::text, '-', '');
+  NEW.add_ons_total := 0;
+  NEW.credit_hours := 0;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_bookings_defaults
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_booking_defaults();
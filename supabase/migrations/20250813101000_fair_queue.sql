@@ -0,0 +1,277 @@
+/*
+  # Waitlist offers hold their slot
+
+  1. Offers
+    - `offer_next_waitlist_entry` only offers the freed period to entries
+      that fit entirely inside it. An entry that merely overlapped it could
+      be offered a slot that was still taken for part of its time.
+    - An offer that has not run out takes up capacity like a booking with a
+      live hold: `validate_booking_capacity` and `get_booked_periods` count
+      it, so nobody else can book the slot while the customer decides.
+      Offers have no unit yet, so workspaces with named units keep one unit
+      free per offer.
+    - `claim_waitlist_offer` marks the entry claimed before creating the
+      booking, so the offer does not count against its own claim.
+
+  2. Security
+    - `offer_next_waitlist_entry` is revoked from `anon` and
+      `authenticated`, so offers are only handed out by the waitlist
+      trigger and `expire_waitlist_offers`.
+*/
+
+CREATE OR REPLACE FUNCTION waitlist_offer_holds_slot(p_status text, p_offer_expires_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT p_status = 'offered' AND coalesce(p_offer_expires_at > now(), false);
+$$;
+
+-- Offer a freed period to the oldest waiting entry that fits inside it
+CREATE OR REPLACE FUNCTION offer_next_waitlist_entry(p_workspace_type text, p_starts_at timestamp, p_ends_at timestamp)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE waitlist_entries
+  SET status = 'offered',
+      claim_token = gen_random_uuid(),
+      offered_at = now(),
+      offer_expires_at = now() + make_interval(mins => get_policy_setting('waitlist_claim_minutes', 60)::integer),
+      notified_at = NULL
+  WHERE id = (
+    SELECT id FROM waitlist_entries
+    WHERE workspace_type = p_workspace_type
+      AND status = 'waiting'
+      AND starts_at >= p_starts_at
+      AND ends_at <= p_ends_at
+      AND starts_at > local_now()
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  );
+END;
+$$;
+
+-- Same capacity rule as before, with live waitlist offers counted as taken
+CREATE OR REPLACE FUNCTION validate_booking_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_capacity integer;
+  v_unit_names text[];
+  v_offered integer;
+  v_free_units integer;
+  v_peak integer;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize concurrent bookings of the same workspace type
+  PERFORM pg_advisory_xact_lock(hashtext('bookings:' || NEW.workspace_type));
+
+  SELECT capacity, unit_names INTO v_capacity, v_unit_names
+  FROM workspace_types
+  WHERE name = NEW.workspace_type;
+
+  v_capacity := coalesce(v_capacity, 1);
+
+  IF coalesce(array_length(v_unit_names, 1), 0) > 0 THEN
+    -- Keep the requested unit if it is free, otherwise take the first free one
+    IF NEW.unit_name IS NULL OR NOT (NEW.unit_name = ANY (v_unit_names)) OR EXISTS (
+      SELECT 1 FROM bookings b
+      WHERE b.workspace_type = NEW.workspace_type
+        AND b.unit_name = NEW.unit_name
+        AND b.id <> NEW.id
+        AND booking_holds_slot(b.status, b.hold_expires_at)
+        AND b.starts_at < NEW.ends_at
+        AND b.ends_at > NEW.starts_at
+    ) THEN
+      SELECT u INTO NEW.unit_name
+      FROM unnest(v_unit_names) WITH ORDINALITY AS t(u, ord)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.workspace_type = NEW.workspace_type
+          AND b.unit_name = t.u
+          AND b.id <> NEW.id
+          AND booking_holds_slot(b.status, b.hold_expires_at)
+          AND b.starts_at < NEW.ends_at
+          AND b.ends_at > NEW.starts_at
+      )
+      ORDER BY ord
+      LIMIT 1;
+
+      IF NEW.unit_name IS NULL THEN
+        RAISE EXCEPTION USING
+          ERRCODE = 'exclusion_violation',
+          MESSAGE = format('No %s is available for this time', NEW.workspace_type);
+      END IF;
+    END IF;
+
+    SELECT count(*) INTO v_offered
+    FROM waitlist_entries w
+    WHERE w.workspace_type = NEW.workspace_type
+      AND waitlist_offer_holds_slot(w.status, w.offer_expires_at)
+      AND w.starts_at < NEW.ends_at
+      AND w.ends_at > NEW.starts_at;
+
+    -- Offers have no unit yet, so one free unit is kept for each of them
+    IF v_offered > 0 THEN
+      SELECT count(*) INTO v_free_units
+      FROM unnest(v_unit_names) AS t(u)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.workspace_type = NEW.workspace_type
+          AND b.unit_name = t.u
+          AND b.id <> NEW.id
+          AND booking_holds_slot(b.status, b.hold_expires_at)
+          AND b.starts_at < NEW.ends_at
+          AND b.ends_at > NEW.starts_at
+      );
+
+      IF v_free_units <= v_offered THEN
+        RAISE EXCEPTION USING
+          ERRCODE = 'exclusion_violation',
+          MESSAGE = format('No %s is available for this time', NEW.workspace_type);
+      END IF;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  -- Peak concurrency inside the new period is reached at its start or at the
+  -- start of one of the overlapping bookings or offers
+  WITH taken AS (
+    SELECT b.starts_at, b.ends_at FROM bookings b
+    WHERE b.workspace_type = NEW.workspace_type
+      AND b.id <> NEW.id
+      AND booking_holds_slot(b.status, b.hold_expires_at)
+      AND b.starts_at < NEW.ends_at
+      AND b.ends_at > NEW.starts_at
+    UNION ALL
+    SELECT w.starts_at, w.ends_at FROM waitlist_entries w
+    WHERE w.workspace_type = NEW.workspace_type
+      AND waitlist_offer_holds_slot(w.status, w.offer_expires_at)
+      AND w.starts_at < NEW.ends_at
+      AND w.ends_at > NEW.starts_at
+  )
+  SELECT max(cnt) INTO v_peak
+  FROM (
+    SELECT (
+      SELECT count(*) FROM taken t
+      WHERE t.starts_at <= p.point
+        AND t.ends_at > p.point
+    ) AS cnt
+    FROM (
+      SELECT NEW.starts_at AS point
+      UNION
+      SELECT t.starts_at FROM taken t
+      WHERE t.starts_at > NEW.starts_at
+    ) p
+  ) counts;
+
+  IF coalesce(v_peak, 0) >= v_capacity THEN
+    RAISE EXCEPTION USING
+      ERRCODE = 'exclusion_violation',
+      MESSAGE = format('%s is fully booked for this time', NEW.workspace_type);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Booked and offered periods overlapping a window, without any customer details
+CREATE OR REPLACE FUNCTION get_booked_periods(p_workspace_type text, p_from timestamp, p_to timestamp)
+RETURNS TABLE (starts_at timestamp, ends_at timestamp, unit_name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.starts_at, b.ends_at, b.unit_name
+  FROM bookings b
+  WHERE b.workspace_type = p_workspace_type
+    AND booking_holds_slot(b.status, b.hold_expires_at)
+    AND b.starts_at < p_to
+    AND b.ends_at > p_from
+  UNION ALL
+  SELECT w.starts_at, w.ends_at, NULL
+  FROM waitlist_entries w
+  WHERE w.workspace_type = p_workspace_type
+    AND waitlist_offer_holds_slot(w.status, w.offer_expires_at)
+    AND w.starts_at < p_to
+    AND w.ends_at > p_from;
+$$;
+
+CREATE OR REPLACE FUNCTION claim_waitlist_offer(p_token uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  PERFORM expire_waitlist_offers();
+
+  SELECT * INTO v_entry FROM waitlist_entries WHERE claim_token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  IF v_entry.status <> 'offered' THEN
+    RETURN jsonb_build_object('status', CASE v_entry.status WHEN 'removed' THEN 'expired' ELSE v_entry.status END);
+  END IF;
+
+  BEGIN
+    -- The offer would otherwise count against its own booking
+    UPDATE waitlist_entries SET status = 'claimed' WHERE id = v_entry.id;
+
+    INSERT INTO bookings (
+      workspace_type, date, time_slot, duration,
+      customer_name, customer_email, customer_phone, customer_whatsapp,
+      user_id, status
+    ) VALUES (
+      v_entry.workspace_type, v_entry.date, v_entry.time_slot, v_entry.duration,
+      v_entry.customer_name, v_entry.customer_email, v_entry.customer_phone, v_entry.customer_whatsapp,
+      v_entry.user_id, 'pending'
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN exclusion_violation OR raise_exception THEN
+    -- Someone else took the slot first; keep the customer's place in the queue
+    UPDATE waitlist_entries
+    SET status = 'waiting', claim_token = NULL, offered_at = NULL, offer_expires_at = NULL
+    WHERE id = v_entry.id;
+
+    RETURN jsonb_build_object('status', 'unavailable');
+  END;
+
+  UPDATE waitlist_entries
+  SET booking_id = v_booking.id
+  WHERE id = v_entry.id;
+
+  RETURN jsonb_build_object(
+    'status', 'claimed',
+    'booking', jsonb_build_object(
+      'id', v_booking.id,
+      'workspace_type', v_booking.workspace_type,
+      'date', v_booking.date,
+      'time_slot', v_booking.time_slot,
+      'duration', v_booking.duration,
+      'customer_name', v_booking.customer_name,
+      'customer_email', v_booking.customer_email,
+      'customer_phone', v_booking.customer_phone,
+      'customer_whatsapp', v_booking.customer_whatsapp,
+      'total_price', v_booking.total_price
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION offer_next_waitlist_entry(text, timestamp, timestamp) FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_booked_periods(text, timestamp, timestamp) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_waitlist_offer(uuid) TO anon, authenticated;
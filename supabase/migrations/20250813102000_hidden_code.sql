@@ -0,0 +1,412 @@
+/*
+  # Store only a hash of confirmation codes
+
+  1. Changes to `bookings`
+    - `confirmation_code_hash` (text) - bcrypt hash of the booking's
+      confirmation code. The `hash_bookings_confirmation_code` trigger hashes
+      any code written to `confirmation_code` and clears that column, so
+      verified one-time codes and generated codes are never stored as they
+      are. Existing codes are hashed and removed from the audit trail.
+
+  2. Changed Functions
+    - `find_guest_booking` compares the code with the hash
+    - `create_admin_booking` returns the new code once, for the admin to
+      pass on
+    - `record_payment_event` confirms paid bookings without a code, and
+      `get_booking_payment` no longer returns one. The new
+      `claim_paid_booking_code(p_booking_id)` issues it the first time the
+      confirmation page asks for it, and returns nothing after that.
+    - `reissue_confirmation_code(p_booking_id)` - admins give a confirmed
+      booking, with its series or group, a new code to send, since the old
+      one cannot be read back
+
+  3. Security
+    - Non-admin inserts must not carry a code hash. The insert policy checked
+      `confirmation_code`, which the trigger now always clears first.
+*/
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS confirmation_code_hash text;
+
+-- Kept as a bcrypt hash only, like booking_otps.code_hash
+CREATE OR REPLACE FUNCTION hash_booking_confirmation_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.confirmation_code IS NOT NULL THEN
+    NEW.confirmation_code_hash := crypt(NEW.confirmation_code, gen_salt('bf'));
+    NEW.confirmation_code := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, extensions;
+
+CREATE TRIGGER hash_bookings_confirmation_code
+  BEFORE INSERT OR UPDATE OF confirmation_code ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION hash_booking_confirmation_code();
+
+-- Hash the codes already stored, without recording the old values as changes
+ALTER TABLE bookings DISABLE TRIGGER record_bookings_event;
+
+UPDATE bookings
+SET confirmation_code = confirmation_code
+WHERE confirmation_code IS NOT NULL;
+
+ALTER TABLE bookings ENABLE TRIGGER record_bookings_event;
+
+ALTER TABLE booking_events DISABLE TRIGGER prevent_booking_events_changes;
+
+UPDATE booking_events
+SET changes = changes - 'confirmation_code'
+WHERE changes ? 'confirmation_code';
+
+ALTER TABLE booking_events ENABLE TRIGGER prevent_booking_events_changes;
+
+CREATE OR REPLACE FUNCTION record_booking_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Bookkeeping columns that change without anyone changing the booking
+  v_ignored text[] := ARRAY['created_at', 'updated_at', 'hold_expires_at', 'check_in_code', 'confirmation_code_hash'];
+  v_changes jsonb;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    SELECT jsonb_object_agg(key, jsonb_build_object('after', value)) INTO v_changes
+    FROM jsonb_each(to_jsonb(NEW))
+    WHERE key IN ('status', 'workspace_type', 'date', 'time_slot', 'duration', 'unit_name', 'total_price', 'customer_name');
+
+    PERFORM insert_booking_event(NEW.id, 'created', v_changes, NULL);
+    RETURN NEW;
+  END IF;
+
+  SELECT jsonb_object_agg(n.key, jsonb_build_object('before', o.value, 'after', n.value)) INTO v_changes
+  FROM jsonb_each(to_jsonb(NEW)) n
+  JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+  WHERE n.value IS DISTINCT FROM o.value
+    AND n.key <> ALL (v_ignored);
+
+  IF v_changes IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM insert_booking_event(
+    NEW.id,
+    CASE
+      WHEN v_changes ? 'status' THEN 'status_changed'
+      WHEN v_changes ?| ARRAY['total_price', 'discount_amount', 'add_ons_total', 'cancellation_fee', 'reschedule_fees']
+        THEN 'price_changed'
+      ELSE 'updated'
+    END,
+    v_changes,
+    NULL
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Finds a guest booking by email and confirmation code, recording failures.
+-- Returns NULL when not found; p_locked tells whether the email is locked out.
+CREATE OR REPLACE FUNCTION find_guest_booking(p_email text, p_code text, OUT p_booking bookings, OUT p_locked boolean)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+BEGIN
+  p_locked := (
+    SELECT count(*) FROM booking_lookup_attempts
+    WHERE email = v_email
+      AND attempted_at > now() - interval '15 minutes'
+  ) >= 5;
+
+  IF p_locked THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO p_booking FROM bookings
+  WHERE lower(customer_email) = v_email
+    AND confirmation_code_hash = crypt(trim(p_code), confirmation_code_hash)
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF p_booking.id IS NULL THEN
+    INSERT INTO booking_lookup_attempts (email) VALUES (v_email);
+    p_booking := NULL;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_admin_booking(
+  p_workspace_type text,
+  p_date date,
+  p_time_slot text,
+  p_duration text,
+  p_customer_name text,
+  p_customer_email text,
+  p_customer_phone text,
+  p_customer_whatsapp text,
+  p_promo_code text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_payment_reference text DEFAULT NULL
+)
+RETURNS bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_user_id uuid;
+  v_code text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create bookings for customers';
+  END IF;
+
+  IF nullif(trim(p_customer_name), '') IS NULL
+     OR nullif(trim(p_customer_email), '') IS NULL
+     OR nullif(trim(p_customer_phone), '') IS NULL
+     OR nullif(trim(p_customer_whatsapp), '') IS NULL THEN
+    RAISE EXCEPTION 'Fill in the customer''s name, email, phone and WhatsApp number';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = lower(trim(p_customer_email));
+
+  -- Same format as the codes issue_booking_otp() sends
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO bookings (
+    workspace_type, date, time_slot, duration,
+    customer_name, customer_email, customer_phone, customer_whatsapp,
+    promo_code, user_id, status, confirmation_code
+  ) VALUES (
+    p_workspace_type, p_date, p_time_slot, p_duration,
+    trim(p_customer_name), trim(p_customer_email), trim(p_customer_phone), trim(p_customer_whatsapp),
+    nullif(trim(p_promo_code), ''), v_user_id, 'confirmed', v_code
+  )
+  RETURNING * INTO v_booking;
+
+  IF p_payment_method IS NOT NULL AND v_booking.total_price > 0 THEN
+    PERFORM record_manual_payment(v_booking.id, v_booking.total_price, p_payment_method, p_payment_reference);
+    SELECT * INTO v_booking FROM bookings WHERE id = v_booking.id;
+  END IF;
+
+  -- Only its hash is stored, so this is the one chance to pass it on
+  v_booking.confirmation_code := v_code;
+  RETURN v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_payment_event(
+  p_payment_id uuid,
+  p_event_key text,
+  p_status text,
+  p_amount numeric,
+  p_transaction_id text DEFAULT NULL,
+  p_payload jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_payment payments%ROWTYPE;
+  v_booking bookings%ROWTYPE;
+  v_confirmed boolean := false;
+BEGIN
+  SELECT * INTO v_payment FROM payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  BEGIN
+    INSERT INTO payment_events (payment_id, event_key, status, amount, payload)
+    VALUES (p_payment_id, p_event_key, p_status, coalesce(p_amount, 0), p_payload);
+  EXCEPTION WHEN unique_violation THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'payment_status', v_payment.status);
+  END;
+
+  CASE p_status
+    WHEN 'authorized' THEN
+      IF v_payment.status = 'created' THEN
+        v_payment.status := 'authorized';
+      END IF;
+
+    WHEN 'succeeded' THEN
+      -- Kept in payment_events for an admin to sort out
+      IF p_amount < v_payment.amount THEN
+        RETURN jsonb_build_object('status', 'underpaid', 'payment_status', v_payment.status);
+      END IF;
+      IF v_payment.status IN ('created', 'authorized', 'failed') THEN
+        v_payment.status := 'succeeded';
+      END IF;
+
+    WHEN 'failed' THEN
+      IF v_payment.status IN ('created', 'authorized') THEN
+        v_payment.status := 'failed';
+      END IF;
+
+    WHEN 'refunded' THEN
+      v_payment.refunded_amount := least(v_payment.refunded_amount + p_amount, v_payment.amount);
+      v_payment.status := CASE
+        WHEN v_payment.refunded_amount >= v_payment.amount THEN 'refunded'
+        ELSE 'partially_refunded'
+      END;
+
+    ELSE
+      RAISE EXCEPTION 'Unknown payment event %', p_status;
+  END CASE;
+
+  UPDATE payments
+  SET status = v_payment.status,
+      refunded_amount = v_payment.refunded_amount,
+      provider_transaction_id = coalesce(provider_transaction_id, p_transaction_id)
+  WHERE id = p_payment_id;
+
+  PERFORM refresh_booking_payment_status(v_payment.booking_id);
+
+  -- Paid bookings confirm themselves while they still hold their slot. Late
+  -- payments stay recorded for an admin to refund or rebook.
+  IF p_status = 'succeeded' THEN
+    SELECT * INTO v_booking FROM bookings WHERE id = v_payment.booking_id;
+
+    IF v_booking.payment_status = 'paid' AND v_booking.status = 'pending'
+      AND booking_holds_slot(v_booking.status, v_booking.hold_expires_at) THEN
+      -- The code is issued when the customer sees it, by claim_paid_booking_code()
+      UPDATE bookings
+      SET status = 'confirmed'
+      WHERE id IN (SELECT booking_payment_ids(v_payment.booking_id)) AND status = 'pending';
+
+      v_confirmed := true;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'recorded',
+    'payment_status', v_payment.status,
+    'booking_confirmed', v_confirmed
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_booking_payment(p_booking_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'status', b.status,
+    'payment_status', b.payment_status,
+    'check_in_code', CASE WHEN b.payment_status = 'paid' AND b.status = 'confirmed' THEN b.check_in_code END,
+    'latest_payment_status', (
+      SELECT p.status FROM payments p WHERE p.booking_id = b.id ORDER BY p.created_at DESC LIMIT 1
+    ),
+    'amount_due', booking_amount_due(b.id),
+    'amount_paid', booking_amount_paid(b.id),
+    'balance', booking_amount_due(b.id) - booking_amount_paid(b.id),
+    'proofs_submitted', (
+      SELECT count(*) FROM payment_proofs pp WHERE pp.booking_id = b.id AND pp.status = 'submitted'
+    )
+  )
+  FROM bookings b
+  WHERE b.id = p_booking_id;
+$$;
+
+-- The code for a booking confirmed by paying online, since nobody sent it to
+-- the customer. Issued on the first call only.
+CREATE OR REPLACE FUNCTION claim_paid_booking_code(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_code text;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_booking.status <> 'confirmed'
+    OR v_booking.payment_status <> 'paid'
+    OR v_booking.confirmation_code_hash IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same format as the codes issue_booking_otp() sends
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  UPDATE bookings
+  SET confirmation_code = v_code
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND status = 'confirmed';
+
+  RETURN v_code;
+END;
+$$;
+
+-- A new code for a confirmed booking and its series or group (admin only)
+CREATE OR REPLACE FUNCTION reissue_confirmation_code(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_status text;
+  v_code text;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue confirmation codes';
+  END IF;
+
+  SELECT status INTO v_status FROM bookings WHERE id = p_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Booking is %', v_status;
+  END IF;
+
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  UPDATE bookings
+  SET confirmation_code = v_code
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND status = 'confirmed';
+
+  RETURN v_code;
+END;
+$$;
+
+-- Non-admin inserts must start unconfirmed and without a code
+DROP POLICY IF EXISTS "Allow booking creation for all users" ON bookings;
+
+CREATE POLICY "Allow booking creation for all users"
+  ON bookings
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    is_admin()
+    OR (
+      status = 'pending'
+      AND confirmation_code_hash IS NULL
+      AND (
+        (user_id IS NULL)
+        OR
+        (auth.uid() IS NOT NULL AND auth.uid() = user_id)
+      )
+    )
+  );
+
+REVOKE EXECUTE ON FUNCTION reissue_confirmation_code(uuid) FROM public;
+GRANT EXECUTE ON FUNCTION claim_paid_booking_code(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION reissue_confirmation_code(uuid) TO authenticated;
@@ -0,0 +1,182 @@
+/*
+  # Only the booking functions link bookings together
+
+  1. Triggers
+    - `apply_bookings_defaults` also clears `group_id`, `attendee_name` and
+      `series_id` on inserts made straight through the API. A guest could
+      otherwise add a booking to someone else's group or series, and it was
+      confirmed and billed with the real bookings.
+    - The trigger now runs as the caller, so it can tell those inserts apart
+      from the ones made by `create_group_booking`, `create_booking_series`
+      and the other booking functions, which run as their owner and set the
+      columns themselves.
+
+  2. Payment siblings
+    - `booking_payment_ids` only counts group and series siblings booked by
+      the same customer, by email and account. A booking that got into
+      someone else's group or series before the fix above is no longer
+      charged for or confirmed with it.
+    - `issue_booking_otp` and `verify_booking_otp` extend holds and confirm
+      through `booking_payment_ids` instead of matching `group_id` and
+      `series_id` themselves, so a code confirms exactly what is paid for.
+*/
+
+CREATE OR REPLACE FUNCTION apply_booking_defaults()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_admin() OR current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.payment_status := 'unpaid';
+  NEW.cancelled_at := NULL;
+  NEW.cancellation_fee := 0;
+  NEW.reschedule_count := 0;
+  NEW.reschedule_fees := 0;
+  NEW.checked_in_at := NULL;
+  NEW.checked_out_at := NULL;
+  NEW.no_show := false;
+  NEW.check_in_code := replace(gen_random_uuid()::text, '-', '');
+  NEW.add_ons_total := 0;
+  NEW.credit_hours := 0;
+  NEW.group_id := NULL;
+  NEW.attendee_name := NULL;
+  NEW.series_id := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- The booking and its series or group siblings, which are paid for together
+CREATE OR REPLACE FUNCTION booking_payment_ids(p_booking_id uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT b.id
+  FROM bookings b, bookings lead
+  WHERE lead.id = p_booking_id
+    AND (
+      b.id = lead.id
+      OR (
+        (b.group_id = coalesce(lead.group_id, lead.id)
+          OR (lead.series_id IS NOT NULL AND b.series_id = lead.series_id))
+        AND lower(b.customer_email) = lower(lead.customer_email)
+        AND b.user_id IS NOT DISTINCT FROM lead.user_id
+      )
+    );
+$$;
+
+-- Codes are issued for the lead booking of a group, since that is the booking
+-- the customer confirms
+CREATE OR REPLACE FUNCTION issue_booking_otp(p_booking_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking_id uuid;
+  v_status text;
+  v_hold_expires_at timestamptz;
+  v_code text;
+  v_expires_at timestamptz := now() + interval '30 minutes';
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can issue confirmation codes';
+  END IF;
+
+  SELECT coalesce(group_id, id) INTO v_booking_id FROM bookings WHERE id = p_booking_id;
+
+  SELECT status, hold_expires_at INTO v_status, v_hold_expires_at FROM bookings WHERE id = v_booking_id;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Booking is already %', v_status;
+  END IF;
+
+  -- The slot may have been given to someone else since the hold ran out
+  IF NOT booking_holds_slot(v_status, v_hold_expires_at) THEN
+    RAISE EXCEPTION 'The hold on this booking has expired';
+  END IF;
+
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  INSERT INTO booking_otps (booking_id, code_hash, expires_at)
+  VALUES (v_booking_id, crypt(v_code, gen_salt('bf')), v_expires_at)
+  ON CONFLICT (booking_id) DO UPDATE SET
+    code_hash = EXCLUDED.code_hash,
+    expires_at = EXCLUDED.expires_at,
+    attempts = 0,
+    consumed_at = NULL,
+    created_at = now();
+
+  UPDATE bookings
+  SET hold_expires_at = greatest(hold_expires_at, v_expires_at)
+  WHERE id IN (SELECT booking_payment_ids(v_booking_id));
+
+  RETURN v_code;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION verify_booking_otp(p_booking_id uuid, p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_otp booking_otps%ROWTYPE;
+BEGIN
+  SELECT * INTO v_otp FROM booking_otps WHERE booking_id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_issued');
+  END IF;
+
+  IF v_otp.consumed_at IS NOT NULL THEN
+    RETURN jsonb_build_object('status', 'already_used');
+  END IF;
+
+  IF v_otp.attempts >= v_otp.max_attempts THEN
+    RETURN jsonb_build_object('status', 'locked');
+  END IF;
+
+  IF v_otp.expires_at < now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF v_otp.code_hash <> crypt(p_code, v_otp.code_hash) THEN
+    UPDATE booking_otps SET attempts = attempts + 1 WHERE booking_id = p_booking_id;
+
+    IF v_otp.attempts + 1 >= v_otp.max_attempts THEN
+      RETURN jsonb_build_object('status', 'locked');
+    END IF;
+
+    RETURN jsonb_build_object(
+      'status', 'invalid',
+      'attempts_remaining', v_otp.max_attempts - v_otp.attempts - 1
+    );
+  END IF;
+
+  UPDATE bookings
+  SET status = 'confirmed', confirmation_code = p_code
+  WHERE id = p_booking_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_pending');
+  END IF;
+
+  -- One code pays for and confirms the whole series or group
+  UPDATE bookings
+  SET status = 'confirmed', confirmation_code = p_code
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND status = 'pending';
+
+  UPDATE booking_otps SET consumed_at = now() WHERE booking_id = p_booking_id;
+
+  RETURN jsonb_build_object('status', 'confirmed');
+END;
+$$;
@@ -0,0 +1,79 @@
+/*
+  # Admin search by confirmation code
+
+  1. New Functions
+    - `find_bookings_by_code(p_code)` - admins only. The ids of the bookings
+      whose confirmation code is exactly `p_code`. Codes are only stored as a
+      hash, so the bookings list cannot match them with `ilike`.
+
+  2. Changed Functions
+    - `guest_booking_json` no longer returns `confirmation_code`, which is
+      always empty since codes are hashed
+
+  3. Behaviour that changed with hashed codes
+    - My Bookings cannot show a booking's confirmation code any more. The
+      customer keeps the code they were sent; staff can send a new one.
+    - "Resend code" in the admin booking drawer sends a new code for a
+      confirmed booking, with its series or group, and the code the customer
+      had stops working
+*/
+
+CREATE OR REPLACE FUNCTION find_bookings_by_code(p_code text)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can search by confirmation code';
+  END IF;
+
+  RETURN QUERY
+  SELECT id FROM bookings
+  WHERE confirmation_code_hash IS NOT NULL
+    AND confirmation_code_hash = crypt(trim(p_code), confirmation_code_hash);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION guest_booking_json(p_booking bookings)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'id', p_booking.id,
+    'workspace_type', p_booking.workspace_type,
+    'date', p_booking.date,
+    'time_slot', p_booking.time_slot,
+    'duration', p_booking.duration,
+    'unit_name', p_booking.unit_name,
+    'starts_at', p_booking.starts_at,
+    'ends_at', p_booking.ends_at,
+    'total_price', p_booking.total_price,
+    'discount_amount', p_booking.discount_amount,
+    'promo_code', p_booking.promo_code,
+    'add_ons', p_booking.add_ons,
+    'add_ons_total', p_booking.add_ons_total,
+    'status', p_booking.status,
+    'customer_name', p_booking.customer_name,
+    'cancelled_at', p_booking.cancelled_at,
+    'cancellation_fee', p_booking.cancellation_fee,
+    'reschedule_count', p_booking.reschedule_count,
+    'reschedule_fees', p_booking.reschedule_fees,
+    'series_id', p_booking.series_id,
+    'group_id', p_booking.group_id,
+    'attendee_name', p_booking.attendee_name,
+    'checked_in_at', p_booking.checked_in_at,
+    'checked_out_at', p_booking.checked_out_at,
+    'no_show', p_booking.no_show,
+    'check_in_code', CASE WHEN p_booking.status = 'confirmed' THEN p_booking.check_in_code END,
+    'membership_id', p_booking.membership_id,
+    'credit_hours', p_booking.credit_hours,
+    'created_at', p_booking.created_at
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_bookings_by_code(text) FROM public, anon;
+GRANT EXECUTE ON FUNCTION find_bookings_by_code(text) TO authenticated;
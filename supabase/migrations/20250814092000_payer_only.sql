@@ -0,0 +1,55 @@
+/*
+  # Only the payer can claim a paid booking's code
+
+  1. Changed Functions
+    - `claim_paid_booking_code(p_booking_id, p_payment_id)` also needs the id
+      of a succeeded payment for the booking. Booking ids are not secret:
+      they are in calendar feed UIDs, and a group's lead id is the `group_id`
+      every seat shares. The payment id is only returned to whoever started
+      the payment, by `create_intent`.
+*/
+
+DROP FUNCTION IF EXISTS claim_paid_booking_code(uuid);
+
+-- The code for a booking confirmed by paying online, since nobody sent it to
+-- the customer. Issued on the first call only.
+CREATE OR REPLACE FUNCTION claim_paid_booking_code(p_booking_id uuid, p_payment_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_code text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM payments
+    WHERE id = p_payment_id
+      AND booking_id = p_booking_id
+      AND status = 'succeeded'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND
+    OR v_booking.status <> 'confirmed'
+    OR v_booking.payment_status <> 'paid'
+    OR v_booking.confirmation_code_hash IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Same format as the codes issue_booking_otp() sends
+  v_code := lpad((abs(('x' || encode(gen_random_bytes(4), 'hex'))::bit(32)::int) % 1000000)::text, 6, '0');
+
+  UPDATE bookings
+  SET confirmation_code = v_code
+  WHERE id IN (SELECT booking_payment_ids(p_booking_id)) AND status = 'confirmed';
+
+  RETURN v_code;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_paid_booking_code(uuid, uuid) TO anon, authenticated;
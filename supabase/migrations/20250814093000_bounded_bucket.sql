@@ -0,0 +1,42 @@
+/*
+  # Payment proof uploads belong to a booking
+
+  1. Storage
+    - "Anyone can upload payment proofs" let anyone write any path in the
+      `payment-proofs` bucket, so it could be filled without a booking. An
+      upload now has to go in the folder of a pending or confirmed booking,
+      the same folder `submit_payment_proof` already requires, and a booking
+      holds at most 5 files.
+
+  2. New Functions
+    - `can_upload_payment_proof(p_name)` - the check above, for the storage
+      policy. Clients cannot read bookings or other uploads themselves.
+*/
+
+CREATE OR REPLACE FUNCTION can_upload_payment_proof(p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bookings b
+    WHERE b.id::text = (storage.foldername(p_name))[1]
+      AND b.status IN ('pending', 'confirmed')
+  )
+  AND (
+    SELECT count(*) FROM storage.objects o
+    WHERE o.bucket_id = 'payment-proofs'
+      AND o.name LIKE (storage.foldername(p_name))[1] || '/%'
+  ) < 5;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can upload payment proofs" ON storage.objects;
+
+-- Guests pay too, so anyone holding a booking id may upload to its folder
+CREATE POLICY "Anyone can upload payment proofs" ON storage.objects
+FOR INSERT TO anon, authenticated
+WITH CHECK (bucket_id = 'payment-proofs' AND can_upload_payment_proof(name));
+
+GRANT EXECUTE ON FUNCTION can_upload_payment_proof(text) TO anon, authenticated;
@@ -0,0 +1,11 @@
+/*
+  # Only signed-in users can expire pending bookings
+
+  1. Security
+    - `expire_pending_bookings` is revoked from `anon`. The admin dashboard
+      runs it before loading bookings, so `authenticated` keeps it; pg_cron
+      runs it as the owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION expire_pending_bookings() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_pending_bookings() TO authenticated;
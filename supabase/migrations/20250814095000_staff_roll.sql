@@ -0,0 +1,11 @@
+/*
+  # Only signed-in users can mark no-shows
+
+  1. Security
+    - `mark_no_shows` is revoked from `anon`. The admin dashboard runs it
+      before loading bookings, so `authenticated` keeps it; pg_cron runs it
+      as the owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION mark_no_shows() FROM public, anon, authenticated;
+GRANT EXECUTE ON FUNCTION mark_no_shows() TO authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Payment status is only refreshed by the database
+
+  1. Security
+    - `refresh_booking_payment_status` is revoked from `anon` and
+      `authenticated`. It is only called by the payment functions and the
+      `refresh_bookings_payment` trigger, which run as the owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION refresh_booking_payment_status(uuid) FROM public, anon, authenticated;
@@ -0,0 +1,10 @@
+/*
+  # Promo codes are only checked through a quote
+
+  1. Security
+    - `get_promo_discount` was never revoked, so anyone could call it
+      directly to test codes without limit. It is now only called by
+      `get_booking_quote`, which runs as the owner.
+*/
+
+REVOKE EXECUTE ON FUNCTION get_promo_discount(text, text, text, numeric, uuid) FROM public, anon, authenticated;
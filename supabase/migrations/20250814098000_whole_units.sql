@@ -0,0 +1,68 @@
+/*
+  # Friendly errors for bad add-on quantities
+
+  1. Changed Functions
+    - `get_add_ons_quote` checks that each quantity is a whole number before
+      casting it. A quantity such as "2.5" or "abc" used to fail with a raw
+      cast error instead of the usual add-on message. A missing quantity
+      still means 1.
+*/
+
+-- Prices a selection of add-ons given as [{ "id": ..., "quantity": ... }].
+-- Raises with a customer-facing message when the selection cannot be added.
+CREATE OR REPLACE FUNCTION get_add_ons_quote(p_add_ons jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item jsonb;
+  v_add_on add_ons%ROWTYPE;
+  v_quantity integer;
+  v_amount numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+BEGIN
+  IF jsonb_typeof(coalesce(p_add_ons, '[]'::jsonb)) <> 'array' THEN
+    RAISE EXCEPTION 'Add-ons must be a list';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(coalesce(p_add_ons, '[]'::jsonb)) LOOP
+    SELECT * INTO v_add_on FROM add_ons
+    WHERE id::text = v_item ->> 'id' AND is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'One of the chosen add-ons is no longer available';
+    END IF;
+
+    IF v_lines @> jsonb_build_array(jsonb_build_object('id', v_add_on.id)) THEN
+      RAISE EXCEPTION '% was chosen more than once', v_add_on.name;
+    END IF;
+
+    -- Checked as text first, since "2.5" or "abc" would fail the cast itself
+    IF v_item ->> 'quantity' !~ '^[0-9]{1,6}$' THEN
+      RAISE EXCEPTION 'You can add between 1 and % of %', v_add_on.max_quantity, v_add_on.name;
+    END IF;
+
+    v_quantity := coalesce((v_item ->> 'quantity')::integer, 1);
+    IF v_quantity NOT BETWEEN 1 AND v_add_on.max_quantity THEN
+      RAISE EXCEPTION 'You can add between 1 and % of %', v_add_on.max_quantity, v_add_on.name;
+    END IF;
+
+    v_amount := round(v_add_on.price * v_quantity, 2);
+    v_total := v_total + v_amount;
+    v_lines := v_lines || jsonb_build_object(
+      'id', v_add_on.id,
+      'name', v_add_on.name,
+      'unit', v_add_on.unit,
+      'quantity', v_quantity,
+      'unit_price', v_add_on.price,
+      'amount', v_amount
+    );
+  END LOOP;
+
+  RETURN jsonb_build_object('lines', v_lines, 'total', v_total);
+END;
+$$;
@@ -0,0 +1,125 @@
+-- Checks that bookings inserted straight through the API cannot attach
+-- themselves to another customer's group or series, and that bookings
+-- already attached are not paid for with it.
+--
+-- Run against a local database with every migration applied:
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/booking_insert_test.sql
+-- Everything happens in one transaction that is rolled back at the end.
+
+BEGIN;
+
+-- The booking triggers want opening hours, prices and free capacity; these
+-- checks are only about the columns the defaults trigger resets
+ALTER TABLE bookings DISABLE TRIGGER USER;
+ALTER TABLE bookings ENABLE TRIGGER apply_bookings_defaults;
+
+-- A customer's two-seat group, as create_group_booking() leaves it
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, hold_expires_at, group_id, attendee_name
+)
+SELECT
+  v.id, w.name, current_date + 30, '10:00', '1-hour',
+  (current_date + 30) + time '10:00', (current_date + 30) + time '11:00',
+  'Group Lead', 'group-lead@example.com', '+201000000000', '+201000000000',
+  10, 'pending', now() + interval '1 hour',
+  '00000000-0000-4000-8000-000000000011', v.attendee
+FROM (VALUES
+  ('00000000-0000-4000-8000-000000000011'::uuid, 'First Seat'),
+  ('00000000-0000-4000-8000-000000000012'::uuid, 'Second Seat')
+) AS v(id, attendee)
+CROSS JOIN (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+-- And a series of theirs with one occurrence
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-4000-8000-000000000020', 'series-owner@example.com');
+
+INSERT INTO booking_series (id, user_id, workspace_type, time_slot, duration, frequency, starts_on, occurrence_limit)
+SELECT
+  '00000000-0000-4000-8000-000000000021', '00000000-0000-4000-8000-000000000020',
+  w.name, '10:00', '1-hour', 'daily', current_date + 31, 1
+FROM (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, hold_expires_at, user_id, series_id
+)
+SELECT
+  '00000000-0000-4000-8000-000000000022', w.name, current_date + 31, '10:00', '1-hour',
+  (current_date + 31) + time '10:00', (current_date + 31) + time '11:00',
+  'Series Owner', 'series-owner@example.com', '+201000000002', '+201000000002',
+  10, 'pending', now() + interval '1 hour',
+  '00000000-0000-4000-8000-000000000020', '00000000-0000-4000-8000-000000000021'
+FROM (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+-- A guest tries to join them through the API
+SET LOCAL ROLE anon;
+
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, group_id, attendee_name
+)
+SELECT
+  '00000000-0000-4000-8000-000000000013', w.name, current_date + 30, '10:00', '1-hour',
+  (current_date + 30) + time '10:00', (current_date + 30) + time '11:00',
+  'Intruder', 'intruder@example.com', '+201000000001', '+201000000001',
+  150, 'pending', '00000000-0000-4000-8000-000000000011', 'Third Seat'
+FROM (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, series_id
+)
+SELECT
+  '00000000-0000-4000-8000-000000000023', w.name, current_date + 31, '10:00', '1-hour',
+  (current_date + 31) + time '10:00', (current_date + 31) + time '11:00',
+  'Intruder', 'intruder@example.com', '+201000000001', '+201000000001',
+  150, 'pending', '00000000-0000-4000-8000-000000000021'
+FROM (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+RESET ROLE;
+
+-- A row that joined the group before the defaults trigger cleared it
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, hold_expires_at, group_id, attendee_name
+)
+SELECT
+  '00000000-0000-4000-8000-000000000014', w.name, current_date + 30, '10:00', '1-hour',
+  (current_date + 30) + time '10:00', (current_date + 30) + time '11:00',
+  'Intruder', 'intruder@example.com', '+201000000001', '+201000000001',
+  150, 'pending', now() + interval '1 hour', '00000000-0000-4000-8000-000000000011', 'Old Seat'
+FROM (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+ALTER TABLE bookings ENABLE TRIGGER USER;
+
+DO $$
+DECLARE
+  v_lead uuid := '00000000-0000-4000-8000-000000000011';
+  v_occurrence uuid := '00000000-0000-4000-8000-000000000022';
+  v_intruder bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_intruder FROM bookings WHERE id = '00000000-0000-4000-8000-000000000013';
+  ASSERT FOUND, 'needs at least one workspace type to book';
+
+  ASSERT v_intruder.group_id IS NULL, 'API insert kept its group';
+  ASSERT v_intruder.attendee_name IS NULL, 'API insert kept its attendee name';
+
+  -- Including the one attached before the fix
+  ASSERT (SELECT count(*) FROM booking_payment_ids(v_lead)) = 2, 'group has more than its own seats';
+  ASSERT booking_amount_due(v_lead) = 20, format('group owes %s', booking_amount_due(v_lead));
+
+  SELECT * INTO v_intruder FROM bookings WHERE id = '00000000-0000-4000-8000-000000000023';
+  ASSERT v_intruder.series_id IS NULL, 'API insert kept its series';
+  ASSERT (SELECT count(*) FROM booking_payment_ids(v_occurrence)) = 1, 'series has more than its own bookings';
+
+  RAISE NOTICE 'booking_insert_test: all checks passed';
+END;
+$$;
+
+ROLLBACK;
@@ -0,0 +1,101 @@
+-- Checks for verify_booking_otp(): expiry, replay, the attempt limit and
+-- that only a hash of the confirmed code is kept.
+--
+-- Run against a local database with every migration applied:
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/booking_otp_test.sql
+-- Everything happens in one transaction that is rolled back at the end.
+
+BEGIN;
+
+-- The booking triggers want opening hours, prices and free capacity; these
+-- checks are only about the codes
+ALTER TABLE bookings DISABLE TRIGGER USER;
+
+INSERT INTO bookings (
+  id, workspace_type, date, time_slot, duration, starts_at, ends_at,
+  customer_name, customer_email, customer_phone, customer_whatsapp,
+  total_price, status, hold_expires_at
+)
+SELECT
+  v.id, w.name, current_date + 30, '10:00', '1-hour',
+  (current_date + 30) + time '10:00', (current_date + 30) + time '11:00',
+  'OTP Test', v.email, '+201000000000', '+201000000000',
+  0, 'pending', now() + interval '1 hour'
+FROM (VALUES
+  ('00000000-0000-4000-8000-000000000001'::uuid, 'otp-confirm@example.com'),
+  ('00000000-0000-4000-8000-000000000002'::uuid, 'otp-lockout@example.com'),
+  ('00000000-0000-4000-8000-000000000003'::uuid, 'otp-expired@example.com')
+) AS v(id, email)
+CROSS JOIN (SELECT name FROM workspace_types ORDER BY created_at LIMIT 1) w;
+
+ALTER TABLE bookings ENABLE TRIGGER USER;
+
+INSERT INTO booking_otps (booking_id, code_hash, expires_at) VALUES
+  ('00000000-0000-4000-8000-000000000001', extensions.crypt('123456', extensions.gen_salt('bf')), now() + interval '30 minutes'),
+  ('00000000-0000-4000-8000-000000000002', extensions.crypt('123456', extensions.gen_salt('bf')), now() + interval '30 minutes'),
+  ('00000000-0000-4000-8000-000000000003', extensions.crypt('123456', extensions.gen_salt('bf')), now() - interval '1 minute');
+
+DO $$
+DECLARE
+  v_confirm uuid := '00000000-0000-4000-8000-000000000001';
+  v_lockout uuid := '00000000-0000-4000-8000-000000000002';
+  v_expired uuid := '00000000-0000-4000-8000-000000000003';
+  v_result jsonb;
+  v_booking bookings%ROWTYPE;
+  v_found record;
+BEGIN
+  ASSERT (SELECT count(*) FROM bookings WHERE customer_name = 'OTP Test') = 3,
+    'needs at least one workspace type to book';
+
+  -- A wrong code is counted, and the count survives the call
+  v_result := verify_booking_otp(v_confirm, '000000');
+  ASSERT v_result ->> 'status' = 'invalid', format('wrong code: %s', v_result);
+  ASSERT (v_result ->> 'attempts_remaining')::integer = 4, format('wrong code: %s', v_result);
+  ASSERT (SELECT attempts FROM booking_otps WHERE booking_id = v_confirm) = 1, 'failed attempt not recorded';
+
+  -- The right code confirms the booking, which keeps only a hash of it
+  v_result := verify_booking_otp(v_confirm, '123456');
+  ASSERT v_result ->> 'status' = 'confirmed', format('right code: %s', v_result);
+
+  SELECT * INTO v_booking FROM bookings WHERE id = v_confirm;
+  ASSERT v_booking.status = 'confirmed', 'booking not confirmed';
+  ASSERT v_booking.confirmation_code IS NULL, 'code stored in plain text';
+  ASSERT v_booking.confirmation_code_hash = extensions.crypt('123456', v_booking.confirmation_code_hash),
+    'code hash does not match';
+  ASSERT NOT EXISTS (
+    SELECT 1 FROM booking_events WHERE booking_id = v_confirm AND changes::text LIKE '%123456%'
+  ), 'code written to the audit trail';
+
+  -- Replaying a used code does nothing
+  v_result := verify_booking_otp(v_confirm, '123456');
+  ASSERT v_result ->> 'status' = 'already_used', format('replay: %s', v_result);
+
+  -- Guests find the booking with the code they were given, and only with it
+  SELECT * INTO v_found FROM find_guest_booking('OTP-Confirm@example.com', ' 123456 ');
+  ASSERT (v_found.p_booking).id = v_confirm, 'guest lookup with the right code failed';
+  SELECT * INTO v_found FROM find_guest_booking('otp-confirm@example.com', '654321');
+  ASSERT (v_found.p_booking).id IS NULL, 'guest lookup with a wrong code succeeded';
+
+  -- Five wrong codes lock the booking, even against the right one
+  FOR i IN 1..4 LOOP
+    v_result := verify_booking_otp(v_lockout, '000000');
+    ASSERT v_result ->> 'status' = 'invalid', format('attempt %s: %s', i, v_result);
+  END LOOP;
+
+  v_result := verify_booking_otp(v_lockout, '000000');
+  ASSERT v_result ->> 'status' = 'locked', format('fifth attempt: %s', v_result);
+
+  v_result := verify_booking_otp(v_lockout, '123456');
+  ASSERT v_result ->> 'status' = 'locked', format('right code after lockout: %s', v_result);
+  ASSERT (SELECT status FROM bookings WHERE id = v_lockout) = 'pending', 'locked booking was confirmed';
+
+  -- An expired code is refused, even when it is right
+  v_result := verify_booking_otp(v_expired, '123456');
+  ASSERT v_result ->> 'status' = 'expired', format('expired code: %s', v_result);
+  ASSERT (SELECT status FROM bookings WHERE id = v_expired) = 'pending', 'expired code confirmed the booking';
+
+  RAISE NOTICE 'booking_otp_test: all checks passed';
+END;
+$$;
+
+ROLLBACK;